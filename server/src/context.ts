@@ -0,0 +1,97 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { getSessionUser, type IssuedSession } from './handlers/sessions';
+import { getApiTokenGrant, API_TOKEN_PREFIX } from './handlers/api_tokens';
+import { type ApiTokenScope } from './schema';
+
+export const SESSION_COOKIE_NAME = 'emastrack_session';
+
+// The personal access token a request was made with, when it was not made with a session
+export interface ContextApiToken {
+  id: number;
+  scope: ApiTokenScope;
+}
+
+// Resolve the current user from the session cookie or an Authorization: Bearer header,
+// which may carry a session token or a personal access token
+export async function createContext({ req, res }: CreateHTTPContextOptions) {
+  const ipAddress = readClientIp(req);
+  const bearer = readSessionToken(req);
+
+  const grant = bearer && bearer.startsWith(API_TOKEN_PREFIX) ? await getApiTokenGrant(bearer, ipAddress) : null;
+  const sessionToken = bearer && !bearer.startsWith(API_TOKEN_PREFIX) ? bearer : null;
+  const user = grant ? grant.user : sessionToken ? await getSessionUser(sessionToken) : null;
+  const apiToken: ContextApiToken | null = grant ? { id: grant.tokenId, scope: grant.scope } : null;
+
+  return {
+    req,
+    res,
+    ipAddress,
+    sessionToken,
+    apiToken,
+    user
+  };
+}
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
+
+// Helper function to find the client address; X-Forwarded-For is only trusted behind a proxy (TRUST_PROXY=true)
+export function readClientIp(req: IncomingMessage): string | null {
+  if (process.env['TRUST_PROXY'] === 'true') {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    if (first) {
+      return first;
+    }
+  }
+
+  return req.socket.remoteAddress || null;
+}
+
+// Helper function to read the raw session token from a request
+export function readSessionToken(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization && authorization.startsWith('Bearer ')) {
+    const token = authorization.slice('Bearer '.length).trim();
+    if (token) {
+      return token;
+    }
+  }
+
+  const cookieHeader = req.headers.cookie;
+  if (!cookieHeader) {
+    return null;
+  }
+
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...valueParts] = part.trim().split('=');
+    if (name === SESSION_COOKIE_NAME) {
+      const value = decodeURIComponent(valueParts.join('='));
+      return value || null;
+    }
+  }
+
+  return null;
+}
+
+// Helper function to hand the session token to the browser as an HttpOnly cookie
+export function setSessionCookie(res: ServerResponse, session: IssuedSession): void {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${encodeURIComponent(session.token)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Expires=${session.expires_at.toUTCString()}`
+  ];
+
+  if (process.env['NODE_ENV'] === 'production') {
+    attributes.push('Secure');
+  }
+
+  res.setHeader('Set-Cookie', attributes.join('; '));
+}
+
+// Helper function to remove the session cookie on sign out
+export function clearSessionCookie(res: ServerResponse): void {
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`);
+}
\ No newline at end of file
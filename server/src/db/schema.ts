@@ -1,9 +1,28 @@
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, jsonb, index, unique } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { type CostComponent } from '../schema';
 
 // Enum for transaction types
 export const transactionTypeEnum = pgEnum('transaction_type', ['buy', 'sell']);
 
+// Enum for the physical (or not) form gold is held in
+export const itemFormEnum = pgEnum('item_form', ['bar', 'coin', 'jewelry', 'digital', 'granules']);
+
+// Enum for audit event actions
+export const auditActionEnum = pgEnum('audit_action', ['create', 'update', 'delete']);
+
+// Enum for user roles
+export const userRoleEnum = pgEnum('user_role', ['user', 'admin']);
+
+// Enum for household member roles, in increasing order of access
+export const householdRoleEnum = pgEnum('household_role', ['viewer', 'editor', 'owner']);
+
+// Enum for personal access token scopes
+export const apiTokenScopeEnum = pgEnum('api_token_scope', ['read', 'write']);
+
+// Enum for what a transaction attachment shows
+export const attachmentKindEnum = pgEnum('attachment_kind', ['invoice', 'certificate', 'other']);
+
 // Users table
 export const usersTable = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -11,28 +30,185 @@ export const usersTable = pgTable('users', {
   password_hash: text('password_hash').notNull(),
   name: text('name').notNull(),
   google_id: text('google_id'), // Nullable for Google OAuth integration
+  role: userRoleEnum('role').default('user').notNull(),
+  email_verified_at: timestamp('email_verified_at'), // Null until the address is confirmed
+  totp_secret: text('totp_secret'), // Base32 TOTP secret, set once enrollment starts
+  totp_enabled_at: timestamp('totp_enabled_at'), // Null until enrollment is confirmed with a code
+  totp_last_used_step: integer('totp_last_used_step'), // Last accepted time step, blocks code replay
+  deletion_scheduled_for: timestamp('deletion_scheduled_for'), // Set while a requested deletion is in its grace period
+  reporting_currency: text('reporting_currency').default('USD').notNull(), // ISO 4217 code valuations are shown in
+  locale: text('locale').default('en-US').notNull(), // BCP 47 tag exports format numbers and dates for
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Sessions table (one row per issued sign-in token, stored hashed)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the bearer token, never the token itself
+  name: text('name'), // Optional label the user gave this device
+  user_agent: text('user_agent'),
+  ip_address: text('ip_address'), // Address the session was created from
+  expires_at: timestamp('expires_at').notNull(),
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Personal access tokens for scripts (stored hashed, like sessions)
+export const apiTokensTable = pgTable('api_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  name: text('name').notNull(),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the bearer token, never the token itself
+  token_prefix: text('token_prefix').notNull(), // First characters of the token, to tell tokens apart in listings
+  scope: apiTokenScopeEnum('scope').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  last_used_at: timestamp('last_used_at'), // Null until the token is first used
+  last_used_ip: text('last_used_ip'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Password reset tokens table (hashed, expiring, single-use)
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'), // Nullable until the token is redeemed
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Email verification tokens table (hashed, expiring, single-use)
+export const emailVerificationTokensTable = pgTable('email_verification_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  new_email: text('new_email'), // Set when the token confirms a change of address rather than the current one
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'), // Nullable until the token is redeemed
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Two-factor recovery codes table (hashed, single-use)
+export const recoveryCodesTable = pgTable('recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'), // Nullable until the code is redeemed
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Pending two-factor sign-in challenges (password accepted, code still required)
+export const twoFactorChallengesTable = pgTable('two_factor_challenges', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Failed sign-in counters, keyed by "email:<address>" or "ip:<address>"
+export const loginThrottlesTable = pgTable('login_throttles', {
+  id: serial('id').primaryKey(),
+  key: text('key').notNull().unique(),
+  failed_attempts: integer('failed_attempts').default(0).notNull(),
+  locked_until: timestamp('locked_until'), // Null while sign-in is allowed
+  last_failed_at: timestamp('last_failed_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Households: portfolios shared between family members
+export const householdsTable = pgTable('households', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Household membership; every household keeps at least one owner
+export const householdMembersTable = pgTable('household_members', {
+  id: serial('id').primaryKey(),
+  household_id: integer('household_id').references(() => householdsTable.id).notNull(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  role: householdRoleEnum('role').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('household_members_household_user_unique').on(table.household_id, table.user_id),
+]);
+
+// Household invitations (hashed, expiring, single-use, bound to the invited email)
+export const householdInvitationsTable = pgTable('household_invitations', {
+  id: serial('id').primaryKey(),
+  household_id: integer('household_id').references(() => householdsTable.id).notNull(),
+  email: text('email').notNull(),
+  role: householdRoleEnum('role').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  invited_by: integer('invited_by').references(() => usersTable.id).notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  accepted_at: timestamp('accepted_at'), // Nullable until the invitation is accepted
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Gold transactions table
 export const goldTransactionsTable = pgTable('gold_transactions', {
   id: serial('id').primaryKey(),
-  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(), // Who recorded the transaction
+  household_id: integer('household_id').references(() => householdsTable.id), // Null for the user's personal portfolio
   type: transactionTypeEnum('type').notNull(),
-  weight_grams: numeric('weight_grams', { precision: 10, scale: 3 }).notNull(), // Precise weight measurement
+  weight_grams: numeric('weight_grams', { precision: 10, scale: 3 }).notNull(), // Gross weight of the item
+  fineness: numeric('fineness', { precision: 5, scale: 1 }).notNull().default('1000'), // Millesimal fineness, 1000 is pure gold
+  // Pure gold content; holdings, goals, zakat and valuation all count this rather than the gross weight
+  fine_weight_grams: numeric('fine_weight_grams', { precision: 10, scale: 3 })
+    .generatedAlwaysAs(sql`round(weight_grams * fineness / 1000, 3)`)
+    .notNull(),
   price_per_gram: numeric('price_per_gram', { precision: 10, scale: 2 }).notNull(), // Price with 2 decimal precision
-  total_price: numeric('total_price', { precision: 12, scale: 2 }).notNull(), // Total calculated price
+  metal_cost: numeric('metal_cost', { precision: 12, scale: 2 })
+    .generatedAlwaysAs(sql`round(weight_grams * price_per_gram, 2)`)
+    .notNull(),
+  cost_components: jsonb('cost_components').$type<CostComponent[]>().default([]).notNull(), // Fees, premiums and taxes
+  total_price: numeric('total_price', { precision: 12, scale: 2 }).notNull(), // Computed from the parts unless entered as paid
+  total_price_as_paid: boolean('total_price_as_paid').default(false).notNull(),
+  currency: text('currency').default('USD').notNull(), // ISO 4217 code of price_per_gram and total_price
+  item_form: itemFormEnum('item_form'), // Null when the form was not recorded
+  brand: text('brand'), // Brand or mint, e.g. Antam or PAMP
   transaction_date: timestamp('transaction_date').notNull(),
   description: text('description'), // Nullable description
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+  deleted_at: timestamp('deleted_at'), // Set while in the trash; reads leave trashed rows out until restored or purged
+}, (table) => [
+  index('gold_transactions_user_date_idx').on(table.user_id, table.transaction_date),
+  index('gold_transactions_household_date_idx').on(table.household_id, table.transaction_date),
+  // Full-text search on the description; must match the expression used by the list query
+  index('gold_transactions_description_search_idx').using('gin', sql`to_tsvector('simple', coalesce(${table.description}, ''))`),
+]);
+
+// Files attached to a transaction as proof of ownership, e.g. dealer invoices and bar certificates.
+// The files themselves live in attachment storage under storage_key
+export const transactionAttachmentsTable = pgTable('transaction_attachments', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').references(() => goldTransactionsTable.id).notNull(),
+  uploaded_by: integer('uploaded_by').references(() => usersTable.id).notNull(),
+  kind: attachmentKindEnum('kind').default('other').notNull(),
+  file_name: text('file_name').notNull(), // As uploaded, used when downloading
+  content_type: text('content_type').notNull(), // Detected from the file's contents
+  size_bytes: integer('size_bytes').notNull(),
+  sha256: text('sha256').notNull(), // Hex digest of the file
+  storage_key: text('storage_key').notNull().unique(),
+  thumbnail_key: text('thumbnail_key'), // Null when no thumbnail could be made, e.g. for PDFs
+  thumbnail_content_type: text('thumbnail_content_type'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('transaction_attachments_transaction_idx').on(table.transaction_id),
+]);
 
 // Gold purchase goals table
 export const goldGoalsTable = pgTable('gold_goals', {
   id: serial('id').primaryKey(),
-  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(), // Who created the goal
+  household_id: integer('household_id').references(() => householdsTable.id), // Null for a personal goal
   target_weight_grams: numeric('target_weight_grams', { precision: 10, scale: 3 }).notNull(),
   deadline: timestamp('deadline').notNull(),
   title: text('title').notNull(),
@@ -40,6 +216,7 @@ export const goldGoalsTable = pgTable('gold_goals', {
   is_completed: boolean('is_completed').default(false).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
+  deleted_at: timestamp('deleted_at'), // Set while in the trash, like gold_transactions.deleted_at
 });
 
 // Zakat reminders table
@@ -54,18 +231,137 @@ export const zakatRemindersTable = pgTable('zakat_reminders', {
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Exchange rates against USD, one row per currency and day; filled from the configured rate provider
+export const fxRatesTable = pgTable('fx_rates', {
+  id: serial('id').primaryKey(),
+  currency: text('currency').notNull(), // ISO 4217 code
+  rate_date: timestamp('rate_date').notNull(), // Midnight UTC of the day the rate applies to
+  units_per_usd: numeric('units_per_usd', { precision: 20, scale: 8 }).notNull(), // How much of the currency one USD buys
+  source: text('source').notNull(), // Provider the rate came from
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('fx_rates_currency_date_unique').on(table.currency, table.rate_date),
+]);
+
+// Append-only audit log: one row per mutation, never updated
+export const auditEventsTable = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(), // Account the data belongs to (no FK, the log outlives rows)
+  actor_user_id: integer('actor_user_id'), // Who made the change; differs from user_id for admin actions
+  action: auditActionEnum('action').notNull(),
+  entity_type: text('entity_type').notNull(), // e.g. 'transaction', 'goal', 'zakat_reminder', 'user', 'session', 'api_token', 'household', 'attachment'
+  entity_id: integer('entity_id'),
+  reason: text('reason'), // Finer-grained event name, e.g. 'sign_in' or 'password_reset'
+  before: jsonb('before'), // Snapshot before the change (null for creates)
+  after: jsonb('after'), // Snapshot after the change (null for deletes)
+  ip_address: text('ip_address'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('audit_events_user_created_idx').on(table.user_id, table.created_at),
+]);
+
 // Relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
+  sessions: many(sessionsTable),
+  apiTokens: many(apiTokensTable),
+  householdMemberships: many(householdMembersTable),
+  passwordResetTokens: many(passwordResetTokensTable),
+  emailVerificationTokens: many(emailVerificationTokensTable),
+  recoveryCodes: many(recoveryCodesTable),
+  twoFactorChallenges: many(twoFactorChallengesTable),
   goldTransactions: many(goldTransactionsTable),
   goldGoals: many(goldGoalsTable),
   zakatReminders: many(zakatRemindersTable),
 }));
 
-export const goldTransactionsRelations = relations(goldTransactionsTable, ({ one }) => ({
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [apiTokensTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordResetTokensTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const emailVerificationTokensRelations = relations(emailVerificationTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [emailVerificationTokensTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const twoFactorChallengesRelations = relations(twoFactorChallengesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorChallengesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const householdsRelations = relations(householdsTable, ({ many }) => ({
+  members: many(householdMembersTable),
+  invitations: many(householdInvitationsTable),
+  goldTransactions: many(goldTransactionsTable),
+  goldGoals: many(goldGoalsTable),
+}));
+
+export const householdMembersRelations = relations(householdMembersTable, ({ one }) => ({
+  household: one(householdsTable, {
+    fields: [householdMembersTable.household_id],
+    references: [householdsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [householdMembersTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const householdInvitationsRelations = relations(householdInvitationsTable, ({ one }) => ({
+  household: one(householdsTable, {
+    fields: [householdInvitationsTable.household_id],
+    references: [householdsTable.id],
+  }),
+}));
+
+export const goldTransactionsRelations = relations(goldTransactionsTable, ({ one, many }) => ({
   user: one(usersTable, {
     fields: [goldTransactionsTable.user_id],
     references: [usersTable.id],
   }),
+  household: one(householdsTable, {
+    fields: [goldTransactionsTable.household_id],
+    references: [householdsTable.id],
+  }),
+  attachments: many(transactionAttachmentsTable),
+}));
+
+export const transactionAttachmentsRelations = relations(transactionAttachmentsTable, ({ one }) => ({
+  transaction: one(goldTransactionsTable, {
+    fields: [transactionAttachmentsTable.transaction_id],
+    references: [goldTransactionsTable.id],
+  }),
+  uploader: one(usersTable, {
+    fields: [transactionAttachmentsTable.uploaded_by],
+    references: [usersTable.id],
+  }),
 }));
 
 export const goldGoalsRelations = relations(goldGoalsTable, ({ one }) => ({
@@ -73,6 +369,10 @@ export const goldGoalsRelations = relations(goldGoalsTable, ({ one }) => ({
     fields: [goldGoalsTable.user_id],
     references: [usersTable.id],
   }),
+  household: one(householdsTable, {
+    fields: [goldGoalsTable.household_id],
+    references: [householdsTable.id],
+  }),
 }));
 
 export const zakatRemindersRelations = relations(zakatRemindersTable, ({ one }) => ({
@@ -86,19 +386,71 @@ export const zakatRemindersRelations = relations(zakatRemindersTable, ({ one })
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type ApiToken = typeof apiTokensTable.$inferSelect;
+export type NewApiToken = typeof apiTokensTable.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+
+export type EmailVerificationToken = typeof emailVerificationTokensTable.$inferSelect;
+export type NewEmailVerificationToken = typeof emailVerificationTokensTable.$inferInsert;
+
+export type RecoveryCode = typeof recoveryCodesTable.$inferSelect;
+export type NewRecoveryCode = typeof recoveryCodesTable.$inferInsert;
+
+export type TwoFactorChallenge = typeof twoFactorChallengesTable.$inferSelect;
+export type NewTwoFactorChallenge = typeof twoFactorChallengesTable.$inferInsert;
+
+export type LoginThrottle = typeof loginThrottlesTable.$inferSelect;
+export type NewLoginThrottle = typeof loginThrottlesTable.$inferInsert;
+
+export type AuditEvent = typeof auditEventsTable.$inferSelect;
+export type NewAuditEvent = typeof auditEventsTable.$inferInsert;
+
+export type Household = typeof householdsTable.$inferSelect;
+export type NewHousehold = typeof householdsTable.$inferInsert;
+
+export type HouseholdMember = typeof householdMembersTable.$inferSelect;
+export type NewHouseholdMember = typeof householdMembersTable.$inferInsert;
+
+export type HouseholdInvitation = typeof householdInvitationsTable.$inferSelect;
+export type NewHouseholdInvitation = typeof householdInvitationsTable.$inferInsert;
+
 export type GoldTransaction = typeof goldTransactionsTable.$inferSelect;
 export type NewGoldTransaction = typeof goldTransactionsTable.$inferInsert;
 
+export type TransactionAttachment = typeof transactionAttachmentsTable.$inferSelect;
+export type NewTransactionAttachment = typeof transactionAttachmentsTable.$inferInsert;
+
 export type GoldGoal = typeof goldGoalsTable.$inferSelect;
 export type NewGoldGoal = typeof goldGoalsTable.$inferInsert;
 
 export type ZakatReminder = typeof zakatRemindersTable.$inferSelect;
 export type NewZakatReminder = typeof zakatRemindersTable.$inferInsert;
 
+export type FxRate = typeof fxRatesTable.$inferSelect;
+export type NewFxRate = typeof fxRatesTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  apiTokens: apiTokensTable,
+  passwordResetTokens: passwordResetTokensTable,
+  emailVerificationTokens: emailVerificationTokensTable,
+  recoveryCodes: recoveryCodesTable,
+  twoFactorChallenges: twoFactorChallengesTable,
+  loginThrottles: loginThrottlesTable,
+  households: householdsTable,
+  householdMembers: householdMembersTable,
+  householdInvitations: householdInvitationsTable,
   goldTransactions: goldTransactionsTable,
+  transactionAttachments: transactionAttachmentsTable,
   goldGoals: goldGoalsTable,
   zakatReminders: zakatRemindersTable,
+  fxRates: fxRatesTable,
+  auditEvents: auditEventsTable,
 };
\ No newline at end of file
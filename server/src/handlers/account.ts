@@ -0,0 +1,502 @@
+import { db } from '../db';
+import {
+  usersTable,
+  sessionsTable,
+  apiTokensTable,
+  passwordResetTokensTable,
+  emailVerificationTokensTable,
+  recoveryCodesTable,
+  twoFactorChallengesTable,
+  goldTransactionsTable,
+  transactionAttachmentsTable,
+  goldGoalsTable,
+  zakatRemindersTable,
+  auditEventsTable
+} from '../db/schema';
+import {
+  type AccountExport,
+  type AccountDeletion,
+  type ReauthenticationInput,
+  type ChangePasswordInput,
+  type SetPasswordInput,
+  type ChangeEmailInput,
+  type CurrencyInput,
+  type LocaleInput,
+  type PublicUser
+} from '../schema';
+import { eq, and, lte, asc, isNull, isNotNull, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getMailer } from '../services/mailer';
+import { toPublicUser, GOOGLE_OAUTH_PASSWORD_PLACEHOLDER } from './auth';
+import { verifyReauthentication } from './reauthentication';
+import { clearFailedSignIns } from './login_throttle';
+import { revokeAllOtherSessions } from './sessions';
+import { sendEmailChangeConfirmation, isEmailTaken } from './email_verification';
+import { recordAuditEvent } from './audit';
+import { detachUserFromHouseholds } from './households';
+import { deleteTransactionAttachments, removeStoredFiles } from './attachments';
+import { getUnitsPerUsd } from './fx_rates';
+
+// Deleted accounts can be restored for two weeks unless configured otherwise
+const DELETION_GRACE_DAYS = parseInt(process.env['ACCOUNT_DELETION_GRACE_DAYS'] || '14', 10);
+
+// Handler for exporting everything stored about the user as a JSON archive
+export async function exportAccountData(userId: number): Promise<AccountExport> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const transactions = await db.select()
+      .from(goldTransactionsTable)
+      .where(eq(goldTransactionsTable.user_id, userId))
+      .orderBy(asc(goldTransactionsTable.transaction_date))
+      .execute();
+
+    const goals = await db.select()
+      .from(goldGoalsTable)
+      .where(eq(goldGoalsTable.user_id, userId))
+      .orderBy(asc(goldGoalsTable.created_at))
+      .execute();
+
+    const reminders = await db.select()
+      .from(zakatRemindersTable)
+      .where(eq(zakatRemindersTable.user_id, userId))
+      .orderBy(asc(zakatRemindersTable.created_at))
+      .execute();
+
+    // Convert numeric fields back to numbers
+    return {
+      format_version: 1,
+      exported_at: new Date(),
+      profile: toPublicUser(users[0]),
+      gold_transactions: transactions.map(transaction => ({
+        ...transaction,
+        weight_grams: parseFloat(transaction.weight_grams),
+        fineness: parseFloat(transaction.fineness),
+        fine_weight_grams: parseFloat(transaction.fine_weight_grams),
+        price_per_gram: parseFloat(transaction.price_per_gram),
+        metal_cost: parseFloat(transaction.metal_cost),
+        total_price: parseFloat(transaction.total_price)
+      })),
+      gold_goals: goals.map(goal => ({
+        ...goal,
+        target_weight_grams: parseFloat(goal.target_weight_grams)
+      })),
+      zakat_reminders: reminders.map(reminder => ({
+        ...reminder,
+        gold_weight_grams: parseFloat(reminder.gold_weight_grams)
+      }))
+    };
+  } catch (error) {
+    console.error('Account export failed:', error);
+    throw error;
+  }
+}
+
+// Helper function to load the user a credential change applies to
+async function requireUser(userId: number) {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with id ${userId} not found`);
+  }
+
+  return users[0];
+}
+
+// Handler for changing the password; every other session is signed out
+export async function changePassword(input: ChangePasswordInput, userId: number, currentToken: string | null): Promise<boolean> {
+  try {
+    const existing = await requireUser(userId);
+    if (existing.password_hash === GOOGLE_OAUTH_PASSWORD_PLACEHOLDER) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'This account has no password yet, set one instead' });
+    }
+
+    const user = await verifyReauthentication(userId, { password: input.current_password, code: input.code });
+    const passwordHash = await Bun.password.hash(input.new_password);
+
+    const updated = await db.update(usersTable)
+      .set({
+        password_hash: passwordHash,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'password_changed',
+      before: toPublicUser(user),
+      after: toPublicUser(updated[0])
+    });
+
+    // API tokens could have been minted by whoever knew the old password, so they go with the other sessions
+    await revokeAllOtherSessions(userId, currentToken);
+    await db.delete(apiTokensTable).where(eq(apiTokensTable.user_id, userId)).execute();
+    await clearFailedSignIns(user.email);
+
+    // The change stands even if the notice cannot be sent
+    try {
+      await getMailer().send({
+        to: user.email,
+        subject: 'Your EmasTrack password was changed',
+        text: [
+          `Hi ${user.name},`,
+          '',
+          'The password for your EmasTrack account was just changed, your other devices were signed out and your API tokens were revoked.',
+          'If you did not make this change, reset your password right away.'
+        ].join('\n')
+      });
+    } catch (error) {
+      console.error('Password change notice failed:', error);
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
+
+// Handler for giving a Google-only account its first password
+export async function setPassword(input: SetPasswordInput, userId: number): Promise<PublicUser> {
+  try {
+    const existing = await requireUser(userId);
+    if (existing.password_hash !== GOOGLE_OAUTH_PASSWORD_PLACEHOLDER) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'This account already has a password, change it instead' });
+    }
+
+    const user = await verifyReauthentication(userId, input);
+    const passwordHash = await Bun.password.hash(input.new_password);
+
+    const updated = await db.update(usersTable)
+      .set({
+        password_hash: passwordHash,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'password_set',
+      before: toPublicUser(user),
+      after: toPublicUser(updated[0])
+    });
+
+    return toPublicUser(updated[0]);
+  } catch (error) {
+    console.error('Setting password failed:', error);
+    throw error;
+  }
+}
+
+// Handler for requesting an email change; nothing changes until the new address is confirmed
+export async function changeEmail(input: ChangeEmailInput, userId: number): Promise<boolean> {
+  try {
+    const user = await verifyReauthentication(userId, input);
+
+    if (input.new_email === user.email) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'This is already your email address' });
+    }
+
+    if (await isEmailTaken(input.new_email, userId)) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Email address is already in use' });
+    }
+
+    return await sendEmailChangeConfirmation(userId, input.new_email);
+  } catch (error) {
+    console.error('Email change request failed:', error);
+    throw error;
+  }
+}
+
+// Handler for unlinking Google, as long as the account can still sign in with a password
+export async function unlinkGoogle(input: ReauthenticationInput, userId: number): Promise<PublicUser> {
+  try {
+    const user = await verifyReauthentication(userId, input);
+
+    if (user.google_id === null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'No Google account is linked' });
+    }
+    if (user.password_hash === GOOGLE_OAUTH_PASSWORD_PLACEHOLDER) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Set a password before unlinking Google, otherwise you could not sign in' });
+    }
+
+    const updated = await db.update(usersTable)
+      .set({
+        google_id: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'google_unlinked',
+      before: toPublicUser(user),
+      after: toPublicUser(updated[0])
+    });
+
+    return toPublicUser(updated[0]);
+  } catch (error) {
+    console.error('Unlinking Google failed:', error);
+    throw error;
+  }
+}
+
+// Handler for choosing the currency dashboard, goal and zakat values are shown in; it needs a known exchange rate
+export async function setReportingCurrency(input: CurrencyInput, userId: number): Promise<PublicUser> {
+  try {
+    const user = await requireUser(userId);
+
+    try {
+      await getUnitsPerUsd(input.currency, new Date());
+    } catch {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `No exchange rate is available for ${input.currency}` });
+    }
+
+    const updated = await db.update(usersTable)
+      .set({
+        reporting_currency: input.currency,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'reporting_currency_changed',
+      before: toPublicUser(user),
+      after: toPublicUser(updated[0])
+    });
+
+    return toPublicUser(updated[0]);
+  } catch (error) {
+    console.error('Reporting currency change failed:', error);
+    throw error;
+  }
+}
+
+// Handler for choosing how exports write numbers and dates; the tag is stored in its canonical form
+export async function setLocale(input: LocaleInput, userId: number): Promise<PublicUser> {
+  try {
+    const user = await requireUser(userId);
+
+    let locale: string | undefined;
+    try {
+      [locale] = Intl.getCanonicalLocales(input.locale);
+    } catch {
+      // Malformed tags are reported below
+    }
+    if (locale === undefined || Intl.NumberFormat.supportedLocalesOf([locale]).length === 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `${input.locale} is not a supported locale` });
+    }
+
+    const updated = await db.update(usersTable)
+      .set({
+        locale,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'locale_changed',
+      before: toPublicUser(user),
+      after: toPublicUser(updated[0])
+    });
+
+    return toPublicUser(updated[0]);
+  } catch (error) {
+    console.error('Locale change failed:', error);
+    throw error;
+  }
+}
+
+// Handler for requesting account deletion; the data is kept until the grace period ends
+export async function scheduleAccountDeletion(userId: number, input: ReauthenticationInput): Promise<AccountDeletion> {
+  try {
+    const user = await verifyReauthentication(userId, input);
+
+    if (user.deletion_scheduled_for !== null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Account deletion is already scheduled' });
+    }
+
+    const scheduledFor = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+    const updated = await db.update(usersTable)
+      .set({
+        deletion_scheduled_for: scheduledFor,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'deletion_scheduled',
+      before: toPublicUser(user),
+      after: toPublicUser(updated[0])
+    });
+
+    // The deletion stands even if the notice cannot be sent
+    try {
+      await getMailer().send({
+        to: user.email,
+        subject: 'Your EmasTrack account is scheduled for deletion',
+        text: [
+          `Hi ${user.name},`,
+          '',
+          `Your EmasTrack account and all of its data will be permanently deleted on ${scheduledFor.toUTCString()}.`,
+          'Changed your mind? Sign in before then and cancel the deletion from your account settings.'
+        ].join('\n')
+      });
+    } catch (error) {
+      console.error('Account deletion notice failed:', error);
+    }
+
+    return { scheduled_for: scheduledFor };
+  } catch (error) {
+    console.error('Account deletion request failed:', error);
+    throw error;
+  }
+}
+
+// Handler for cancelling a pending deletion during the grace period
+export async function cancelAccountDeletion(userId: number): Promise<boolean> {
+  try {
+    const result = await db.update(usersTable)
+      .set({
+        deletion_scheduled_for: null,
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(usersTable.id, userId),
+        isNotNull(usersTable.deletion_scheduled_for)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Account deletion is not scheduled' });
+    }
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'deletion_cancelled',
+      after: toPublicUser(result[0])
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Account deletion cancellation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for permanently removing a user and every row that references them, all or nothing
+export async function purgeAccount(userId: number): Promise<boolean> {
+  try {
+    const { deleted, storedFiles } = await db.transaction(async (tx) => {
+      await tx.delete(sessionsTable).where(eq(sessionsTable.user_id, userId)).execute();
+      await tx.delete(apiTokensTable).where(eq(apiTokensTable.user_id, userId)).execute();
+      await tx.delete(passwordResetTokensTable).where(eq(passwordResetTokensTable.user_id, userId)).execute();
+      await tx.delete(emailVerificationTokensTable).where(eq(emailVerificationTokensTable.user_id, userId)).execute();
+      await tx.delete(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute();
+      await tx.delete(twoFactorChallengesTable).where(eq(twoFactorChallengesTable.user_id, userId)).execute();
+      // Shared households outlive the member; only personal rows go below
+      const storedFiles = await detachUserFromHouseholds(tx, userId);
+      const personalTransactions = and(eq(goldTransactionsTable.user_id, userId), isNull(goldTransactionsTable.household_id));
+      storedFiles.push(...await deleteTransactionAttachments(tx, personalTransactions));
+      await tx.delete(goldTransactionsTable).where(personalTransactions).execute();
+      // Files the user attached to transactions that stay behind are credited to whoever recorded them
+      await tx.update(transactionAttachmentsTable)
+        .set({ uploaded_by: sql`(select ${goldTransactionsTable.user_id} from ${goldTransactionsTable} where ${goldTransactionsTable.id} = ${transactionAttachmentsTable.transaction_id})` })
+        .where(eq(transactionAttachmentsTable.uploaded_by, userId))
+        .execute();
+      await tx.delete(goldGoalsTable).where(and(eq(goldGoalsTable.user_id, userId), isNull(goldGoalsTable.household_id))).execute();
+      await tx.delete(zakatRemindersTable).where(eq(zakatRemindersTable.user_id, userId)).execute();
+      // Erasure covers the user's audit trail too
+      await tx.delete(auditEventsTable).where(eq(auditEventsTable.user_id, userId)).execute();
+
+      const deleted = await tx.delete(usersTable)
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+      return { deleted, storedFiles };
+    });
+
+    if (deleted.length === 0) {
+      return false;
+    }
+
+    await removeStoredFiles(storedFiles);
+
+    await clearFailedSignIns(deleted[0].email);
+
+    return true;
+  } catch (error) {
+    console.error('Account purge failed:', error);
+    throw error;
+  }
+}
+
+// Handler for purging every account whose grace period has ended (run periodically)
+export async function purgeDueAccountDeletions(): Promise<number> {
+  try {
+    const due = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(lte(usersTable.deletion_scheduled_for, new Date()))
+      .execute();
+
+    let purged = 0;
+    for (const user of due) {
+      if (await purgeAccount(user.id)) {
+        purged++;
+      }
+    }
+
+    return purged;
+  } catch (error) {
+    console.error('Scheduled account purge failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
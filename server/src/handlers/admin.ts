@@ -0,0 +1,164 @@
+import { db } from '../db';
+import { usersTable, goldTransactionsTable, goldGoalsTable } from '../db/schema';
+import {
+  type ListUsersInput,
+  type AdminUserList,
+  type AdminUserDetail,
+  type SetUserRoleInput,
+  type PublicUser,
+  type ZakatReminder
+} from '../schema';
+import { eq, and, or, ilike, asc, count, inArray, isNull, isNotNull, type SQL } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { toPublicUser } from './auth';
+import { getZakatStatus, updateZakatStatus } from './zakat';
+import { recordAuditEvent } from './audit';
+
+// Helper function to make sure a user exists before acting on them
+async function requireUser(userId: number) {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `User with id ${userId} not found` });
+  }
+
+  return users[0];
+}
+
+// Handler for listing users, optionally filtered by email or name
+export async function listUsers(input: ListUsersInput): Promise<AdminUserList> {
+  try {
+    let filter: SQL | undefined;
+    if (input.search) {
+      const pattern = `%${input.search.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+      filter = or(ilike(usersTable.email, pattern), ilike(usersTable.name, pattern));
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(filter)
+      .orderBy(asc(usersTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    const totals = await db.select({ total: count() })
+      .from(usersTable)
+      .where(filter)
+      .execute();
+
+    return {
+      users: users.map(toPublicUser),
+      total: totals[0].total
+    };
+  } catch (error) {
+    console.error('Admin user listing failed:', error);
+    throw error;
+  }
+}
+
+// Handler for looking up one user with a summary of their data
+export async function getUserDetail(userId: number): Promise<AdminUserDetail> {
+  try {
+    const user = await requireUser(userId);
+
+    const transactions = await db.select({ total: count() })
+      .from(goldTransactionsTable)
+      .where(and(eq(goldTransactionsTable.user_id, userId), isNull(goldTransactionsTable.deleted_at)))
+      .execute();
+
+    const goals = await db.select({ total: count() })
+      .from(goldGoalsTable)
+      .where(and(eq(goldGoalsTable.user_id, userId), isNull(goldGoalsTable.deleted_at)))
+      .execute();
+
+    return {
+      ...toPublicUser(user),
+      updated_at: user.updated_at,
+      transaction_count: transactions[0].total,
+      goal_count: goals[0].total,
+      zakat_status: await getZakatStatus(userId)
+    };
+  } catch (error) {
+    console.error('Admin user lookup failed:', error);
+    throw error;
+  }
+}
+
+// Handler for recomputing a user's zakat eligibility on their behalf
+export async function recomputeUserZakat(userId: number): Promise<ZakatReminder | null> {
+  try {
+    await requireUser(userId);
+    return await updateZakatStatus(userId);
+  } catch (error) {
+    console.error('Admin zakat recompute failed:', error);
+    throw error;
+  }
+}
+
+// Handler for granting or revoking the admin role
+export async function setUserRole(input: SetUserRoleInput, actingUserId: number): Promise<PublicUser> {
+  try {
+    // An admin cannot lock themselves out by accident
+    if (input.userId === actingUserId && input.role !== 'admin') {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'You cannot remove your own admin role' });
+    }
+
+    const existing = await requireUser(input.userId);
+
+    const result = await db.update(usersTable)
+      .set({
+        role: input.role,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, input.userId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: input.userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: input.userId,
+      reason: 'role_changed',
+      before: toPublicUser(existing),
+      after: toPublicUser(result[0])
+    });
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Setting user role failed:', error);
+    throw error;
+  }
+}
+
+// Handler for bootstrapping admins from configuration (ADMIN_EMAILS, comma separated). Only verified addresses count,
+// so signing up first with a listed address does not make someone an admin
+export async function promoteAdminsByEmail(emails: string[]): Promise<number> {
+  try {
+    if (emails.length === 0) {
+      return 0;
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        role: 'admin',
+        updated_at: new Date()
+      })
+      .where(and(
+        inArray(usersTable.email, emails),
+        eq(usersTable.role, 'user'),
+        isNotNull(usersTable.email_verified_at)
+      ))
+      .returning()
+      .execute();
+
+    return result.length;
+  } catch (error) {
+    console.error('Admin promotion failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
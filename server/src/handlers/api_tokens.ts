@@ -0,0 +1,200 @@
+import { db } from '../db';
+import { apiTokensTable, usersTable, type ApiToken } from '../db/schema';
+import {
+  type User,
+  type ApiTokenScope,
+  type ApiTokenInfo,
+  type IssuedApiToken,
+  type CreateApiTokenInput,
+  type RevokeApiTokenInput
+} from '../schema';
+import { eq, and, gt, lte, desc, count } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { generateToken, hashToken } from '../services/tokens';
+import { recordAuditEvent } from './audit';
+
+// Personal access tokens carry a recognisable prefix so the context can tell them from session tokens
+export const API_TOKEN_PREFIX = 'emt_';
+
+// Characters of the raw token kept in the clear so the owner can tell tokens apart
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+// Keep the number of live tokens per user manageable
+const MAX_TOKENS_PER_USER = 25;
+
+// last_used_at is refreshed at most once a minute so every request is not a write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// The user behind a token and what the token may do
+export interface ApiTokenGrant {
+  user: User;
+  tokenId: number;
+  scope: ApiTokenScope;
+}
+
+// Helper function to describe a token to its owner, and in the audit log, without its hash
+function toApiTokenInfo(token: ApiToken): ApiTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    token_prefix: token.token_prefix,
+    scope: token.scope,
+    expires_at: token.expires_at,
+    last_used_at: token.last_used_at,
+    last_used_ip: token.last_used_ip,
+    created_at: token.created_at
+  };
+}
+
+// Handler for issuing a personal access token; the raw token is only ever returned here
+export async function createApiToken(input: CreateApiTokenInput, userId: number): Promise<IssuedApiToken> {
+  try {
+    const live = await db.select({ total: count() })
+      .from(apiTokensTable)
+      .where(and(
+        eq(apiTokensTable.user_id, userId),
+        gt(apiTokensTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (live[0].total >= MAX_TOKENS_PER_USER) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `You can have at most ${MAX_TOKENS_PER_USER} API tokens, revoke one first` });
+    }
+
+    const token = `${API_TOKEN_PREFIX}${generateToken()}`;
+
+    const result = await db.insert(apiTokensTable)
+      .values({
+        user_id: userId,
+        name: input.name,
+        token_hash: hashToken(token),
+        token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        scope: input.scope,
+        expires_at: new Date(Date.now() + input.expires_in_days * 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'create',
+      entity_type: 'api_token',
+      entity_id: result[0].id,
+      after: toApiTokenInfo(result[0])
+    });
+
+    return {
+      ...toApiTokenInfo(result[0]),
+      token
+    };
+  } catch (error) {
+    console.error('API token creation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for listing a user's unexpired tokens, newest first
+export async function listApiTokens(userId: number): Promise<ApiTokenInfo[]> {
+  try {
+    const tokens = await db.select()
+      .from(apiTokensTable)
+      .where(and(
+        eq(apiTokensTable.user_id, userId),
+        gt(apiTokensTable.expires_at, new Date())
+      ))
+      .orderBy(desc(apiTokensTable.created_at), desc(apiTokensTable.id))
+      .execute();
+
+    return tokens.map(toApiTokenInfo);
+  } catch (error) {
+    console.error('API token listing failed:', error);
+    throw error;
+  }
+}
+
+// Handler for revoking one of the user's tokens
+export async function revokeApiToken(input: RevokeApiTokenInput, userId: number): Promise<boolean> {
+  try {
+    const result = await db.delete(apiTokensTable)
+      .where(and(
+        eq(apiTokensTable.id, input.id),
+        eq(apiTokensTable.user_id, userId)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'API token not found' });
+    }
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'delete',
+      entity_type: 'api_token',
+      entity_id: input.id,
+      reason: 'api_token_revoked',
+      before: toApiTokenInfo(result[0])
+    });
+
+    return true;
+  } catch (error) {
+    console.error('API token revocation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for resolving the user and scope behind a bearer token, recording where it was used from
+export async function getApiTokenGrant(token: string, ipAddress: string | null = null): Promise<ApiTokenGrant | null> {
+  try {
+    // Only unexpired tokens resolve to a user
+    const results = await db.select()
+      .from(apiTokensTable)
+      .innerJoin(usersTable, eq(apiTokensTable.user_id, usersTable.id))
+      .where(and(
+        eq(apiTokensTable.token_hash, hashToken(token)),
+        gt(apiTokensTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const apiToken = results[0].api_tokens;
+    const stale = apiToken.last_used_at === null
+      || Date.now() - apiToken.last_used_at.getTime() >= LAST_USED_RESOLUTION_MS;
+    if (stale || apiToken.last_used_ip !== ipAddress) {
+      await db.update(apiTokensTable)
+        .set({
+          last_used_at: new Date(),
+          last_used_ip: ipAddress
+        })
+        .where(eq(apiTokensTable.id, apiToken.id))
+        .execute();
+    }
+
+    return {
+      user: results[0].users,
+      tokenId: apiToken.id,
+      scope: apiToken.scope
+    };
+  } catch (error) {
+    console.error('API token lookup failed:', error);
+    throw error;
+  }
+}
+
+// Handler for removing expired tokens
+export async function deleteExpiredApiTokens(): Promise<number> {
+  try {
+    const result = await db.delete(apiTokensTable)
+      .where(lte(apiTokensTable.expires_at, new Date()))
+      .returning()
+      .execute();
+
+    return result.length;
+  } catch (error) {
+    console.error('Expired API token cleanup failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
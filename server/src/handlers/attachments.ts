@@ -0,0 +1,273 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { db } from '../db';
+import {
+  transactionAttachmentsTable,
+  goldTransactionsTable,
+  type TransactionAttachment as TransactionAttachmentRow
+} from '../db/schema';
+import {
+  type TransactionAttachment,
+  type UploadAttachmentInput,
+  type DownloadAttachmentInput,
+  type AttachmentFile,
+  type HouseholdRole,
+  MAX_ATTACHMENT_BYTES
+} from '../schema';
+import { eq, asc, count, inArray, type SQL } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getOwnedTransaction } from './transactions';
+import { recordAuditEvent } from './audit';
+import { getAttachmentStorage } from '../services/attachment_storage';
+import { detectContentType, createThumbnail, type AttachmentContentType } from '../services/attachment_files';
+
+type Executor = Pick<typeof db, 'select' | 'delete'>;
+
+// Keeps a transaction's attachment list reviewable
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 20;
+
+const EXTENSIONS: Record<AttachmentContentType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf'
+};
+
+// Helper function to read the upload size limit from ATTACHMENT_MAX_BYTES, else the limit uploads are validated against
+export function getMaxAttachmentBytes(): number {
+  const configured = parseInt(process.env['ATTACHMENT_MAX_BYTES'] || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : MAX_ATTACHMENT_BYTES;
+}
+
+// Helper function to describe an attachment without where its files are stored
+function toAttachment(row: TransactionAttachmentRow): TransactionAttachment {
+  return {
+    id: row.id,
+    transaction_id: row.transaction_id,
+    uploaded_by: row.uploaded_by,
+    kind: row.kind,
+    file_name: row.file_name,
+    content_type: row.content_type,
+    size_bytes: row.size_bytes,
+    sha256: row.sha256,
+    has_thumbnail: row.thumbnail_key !== null,
+    created_at: row.created_at
+  };
+}
+
+// Helper function to list the keys an attachment's files are stored under
+function storedFiles(row: Pick<TransactionAttachmentRow, 'storage_key' | 'thumbnail_key'>): string[] {
+  return row.thumbnail_key === null ? [row.storage_key] : [row.storage_key, row.thumbnail_key];
+}
+
+// Helper function to load an attachment whose transaction the user may access with the given role
+async function getAccessibleAttachment(attachmentId: number, userId: number, minimum: HouseholdRole): Promise<TransactionAttachmentRow> {
+  const attachments = await db.select()
+    .from(transactionAttachmentsTable)
+    .where(eq(transactionAttachmentsTable.id, attachmentId))
+    .execute();
+
+  if (attachments.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Attachment with id ${attachmentId} not found` });
+  }
+
+  await getOwnedTransaction(attachments[0].transaction_id, userId, minimum);
+  return attachments[0];
+}
+
+// Helper function to remove files from attachment storage once nothing points to them. Failures are
+// logged rather than thrown: the rows are already gone, so a leftover file is only wasted space
+export async function removeStoredFiles(keys: string[]): Promise<void> {
+  const storage = getAttachmentStorage();
+  for (const key of keys) {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Attachment file removal failed for ${key}:`, error);
+    }
+  }
+}
+
+// Helper function to delete the attachment rows of every transaction matching the condition. Returns the
+// storage keys of their files, to pass to removeStoredFiles after the surrounding transaction commits
+export async function deleteTransactionAttachments(executor: Executor, transactionCondition: SQL | undefined): Promise<string[]> {
+  const deleted = await executor.delete(transactionAttachmentsTable)
+    .where(inArray(
+      transactionAttachmentsTable.transaction_id,
+      executor.select({ id: goldTransactionsTable.id }).from(goldTransactionsTable).where(transactionCondition)
+    ))
+    .returning()
+    .execute();
+
+  return deleted.flatMap(storedFiles);
+}
+
+// Handler for attaching a file to a transaction. Only JPEG, PNG and WebP images and PDF documents are
+// accepted, recognised by their contents; images get a thumbnail when one can be made
+export async function uploadAttachment(input: UploadAttachmentInput, userId: number): Promise<TransactionAttachment> {
+  try {
+    const transaction = await getOwnedTransaction(input.transaction_id, userId, 'editor');
+
+    const data = Buffer.from(input.data, 'base64');
+    const maxBytes = getMaxAttachmentBytes();
+    if (data.length === 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'The file is empty' });
+    }
+    if (data.length > maxBytes) {
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `The file is ${data.length} bytes; attachments can be at most ${maxBytes} bytes`
+      });
+    }
+
+    const contentType = detectContentType(data);
+    if (contentType === null) {
+      throw new TRPCError({
+        code: 'UNSUPPORTED_MEDIA_TYPE',
+        message: 'Only JPEG, PNG and WebP images and PDF documents can be attached'
+      });
+    }
+
+    const existing = await db.select({ count: count() })
+      .from(transactionAttachmentsTable)
+      .where(eq(transactionAttachmentsTable.transaction_id, transaction.id))
+      .execute();
+    if (existing[0].count >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`
+      });
+    }
+
+    // Files are stored first, so a row never points to a file that was not written
+    const storage = getAttachmentStorage();
+    const baseKey = `transactions/${transaction.id}/${randomUUID()}`;
+    const storageKey = `${baseKey}.${EXTENSIONS[contentType]}`;
+    const thumbnail = await createThumbnail(data, contentType);
+    const thumbnailKey = thumbnail === null ? null : `${baseKey}-thumbnail.${EXTENSIONS[thumbnail.content_type]}`;
+
+    await storage.put(storageKey, data, contentType);
+    if (thumbnail !== null && thumbnailKey !== null) {
+      await storage.put(thumbnailKey, thumbnail.data, thumbnail.content_type);
+    }
+
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await tx.insert(transactionAttachmentsTable)
+          .values({
+            transaction_id: transaction.id,
+            uploaded_by: userId,
+            kind: input.kind,
+            file_name: input.file_name,
+            content_type: contentType,
+            size_bytes: data.length,
+            sha256: createHash('sha256').update(data).digest('hex'),
+            storage_key: storageKey,
+            thumbnail_key: thumbnailKey,
+            thumbnail_content_type: thumbnail === null ? null : thumbnail.content_type
+          })
+          .returning()
+          .execute();
+
+        const attachment = toAttachment(result[0]);
+
+        await recordAuditEvent({
+          user_id: userId,
+          action: 'create',
+          entity_type: 'attachment',
+          entity_id: attachment.id,
+          after: attachment
+        }, tx);
+
+        return attachment;
+      });
+    } catch (error) {
+      await removeStoredFiles(storedFiles({ storage_key: storageKey, thumbnail_key: thumbnailKey }));
+      throw error;
+    }
+  } catch (error) {
+    console.error('Attachment upload failed:', error);
+    throw error;
+  }
+}
+
+// Handler for listing a transaction's attachments, oldest first
+export async function listAttachments(transactionId: number, userId: number): Promise<TransactionAttachment[]> {
+  try {
+    await getOwnedTransaction(transactionId, userId, 'viewer');
+
+    const attachments = await db.select()
+      .from(transactionAttachmentsTable)
+      .where(eq(transactionAttachmentsTable.transaction_id, transactionId))
+      .orderBy(asc(transactionAttachmentsTable.created_at), asc(transactionAttachmentsTable.id))
+      .execute();
+
+    return attachments.map(toAttachment);
+  } catch (error) {
+    console.error('Attachment listing failed:', error);
+    throw error;
+  }
+}
+
+// Handler for downloading an attachment, or its thumbnail, as base64
+export async function downloadAttachment(input: DownloadAttachmentInput, userId: number): Promise<AttachmentFile> {
+  try {
+    const attachment = await getAccessibleAttachment(input.attachment_id, userId, 'viewer');
+
+    const thumbnail = input.variant === 'thumbnail';
+    if (thumbnail && (attachment.thumbnail_key === null || attachment.thumbnail_content_type === null)) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Attachment with id ${attachment.id} has no thumbnail` });
+    }
+
+    const key = thumbnail ? attachment.thumbnail_key! : attachment.storage_key;
+    const contentType = thumbnail ? attachment.thumbnail_content_type! : attachment.content_type;
+    const data = await getAttachmentStorage().get(key);
+    if (data === null) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `The file of attachment ${attachment.id} is missing from storage` });
+    }
+
+    const fileName = thumbnail
+      ? `${attachment.file_name.replace(/\.[^.]*$/, '')}-thumbnail.${EXTENSIONS[contentType as AttachmentContentType]}`
+      : attachment.file_name;
+
+    return {
+      file_name: fileName,
+      content_type: contentType,
+      size_bytes: data.length,
+      data: data.toString('base64')
+    };
+  } catch (error) {
+    console.error('Attachment download failed:', error);
+    throw error;
+  }
+}
+
+// Handler for removing an attachment together with its stored files
+export async function deleteAttachment(attachmentId: number, userId: number): Promise<boolean> {
+  try {
+    await getAccessibleAttachment(attachmentId, userId, 'editor');
+
+    const result = await db.delete(transactionAttachmentsTable)
+      .where(eq(transactionAttachmentsTable.id, attachmentId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      return false;
+    }
+
+    const removed = result[0];
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'delete',
+      entity_type: 'attachment',
+      entity_id: attachmentId,
+      before: toAttachment(removed)
+    });
+
+    await removeStoredFiles(storedFiles(removed));
+    return true;
+  } catch (error) {
+    console.error('Attachment deletion failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
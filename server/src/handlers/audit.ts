@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { auditEventsTable } from '../db/schema';
+import {
+  type AuditAction,
+  type AuditEntityType,
+  type AuditEvent,
+  type ListAuditEventsInput
+} from '../schema';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
+import { getRequestScope } from '../services/request_scope';
+
+export interface AuditEventInput {
+  user_id: number;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: number | null;
+  reason?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Anything that can insert: the db itself or an open transaction
+type AuditExecutor = Pick<typeof db, 'insert'>;
+
+// Handler for appending an audit event; actor and IP come from the current request when there is one
+export async function recordAuditEvent(event: AuditEventInput, executor: AuditExecutor = db): Promise<void> {
+  try {
+    const scope = getRequestScope();
+
+    await executor.insert(auditEventsTable)
+      .values({
+        user_id: event.user_id,
+        actor_user_id: scope ? scope.actorUserId ?? event.user_id : null,
+        action: event.action,
+        entity_type: event.entity_type,
+        entity_id: event.entity_id,
+        reason: event.reason ?? null,
+        before: event.before ?? null,
+        after: event.after ?? null,
+        ip_address: scope?.ipAddress ?? null
+      })
+      .execute();
+  } catch (error) {
+    console.error('Recording audit event failed:', error);
+    throw error;
+  }
+}
+
+// Handler for reading a user's audit trail, newest first, filtered by entity and date range
+export async function listAuditEvents(userId: number, input: ListAuditEventsInput): Promise<AuditEvent[]> {
+  try {
+    const conditions: SQL[] = [eq(auditEventsTable.user_id, userId)];
+
+    if (input.entity_type !== undefined) {
+      conditions.push(eq(auditEventsTable.entity_type, input.entity_type));
+    }
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditEventsTable.entity_id, input.entity_id));
+    }
+    if (input.from !== undefined) {
+      conditions.push(gte(auditEventsTable.created_at, input.from));
+    }
+    if (input.to !== undefined) {
+      conditions.push(lte(auditEventsTable.created_at, input.to));
+    }
+
+    const events = await db.select()
+      .from(auditEventsTable)
+      .where(and(...conditions))
+      .orderBy(desc(auditEventsTable.created_at), desc(auditEventsTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    return events.map(event => ({
+      ...event,
+      entity_type: event.entity_type as AuditEntityType
+    }));
+  } catch (error) {
+    console.error('Listing audit events failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
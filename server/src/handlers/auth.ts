@@ -1,11 +1,51 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type SignUpInput, type SignInInput, type GoogleAuthInput, type User } from '../schema';
+import {
+  usersTable,
+  sessionsTable,
+  apiTokensTable,
+  recoveryCodesTable,
+  twoFactorChallengesTable,
+  passwordResetTokensTable,
+  emailVerificationTokensTable
+} from '../db/schema';
+import { type SignUpInput, type SignInInput, type GoogleAuthInput, type User, type PublicUser, type AuthProvider } from '../schema';
 import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { sendVerificationEmail } from './email_verification';
+import { assertSignInAllowed, recordFailedSignIn, clearFailedSignIns } from './login_throttle';
+import { recordAuditEvent } from './audit';
+import { verifyGoogleIdToken, GoogleIdTokenError, type GoogleIdTokenClaims } from '../services/google_id_token';
+
+// Placeholder stored in password_hash for accounts created through Google
+export const GOOGLE_OAUTH_PASSWORD_PLACEHOLDER = 'google_oauth_user';
+
+// Helper function to strip credentials from a user before it leaves the server
+export function toPublicUser(user: User): PublicUser {
+  const providers: AuthProvider[] = [];
+  if (user.password_hash !== GOOGLE_OAUTH_PASSWORD_PLACEHOLDER) {
+    providers.push('password');
+  }
+  if (user.google_id !== null) {
+    providers.push('google');
+  }
 
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    providers,
+    email_verified: user.email_verified_at !== null,
+    two_factor_enabled: user.totp_enabled_at !== null,
+    deletion_scheduled_for: user.deletion_scheduled_for,
+    reporting_currency: user.reporting_currency,
+    locale: user.locale,
+    created_at: user.created_at
+  };
+}
 
 // Handler for user registration with email/password
-export async function signUp(input: SignUpInput): Promise<User> {
+export async function signUp(input: SignUpInput): Promise<PublicUser> {
   try {
     // Check if user already exists
     const existingUser = await db.select()
@@ -31,52 +71,60 @@ export async function signUp(input: SignUpInput): Promise<User> {
       .returning()
       .execute();
 
-    const user = result[0];
-    return {
-      id: user.id,
-      email: user.email,
-      password_hash: user.password_hash,
-      name: user.name,
-      google_id: user.google_id,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    };
+    await recordAuditEvent({
+      user_id: result[0].id,
+      action: 'create',
+      entity_type: 'user',
+      entity_id: result[0].id,
+      reason: 'sign_up',
+      after: toPublicUser(result[0])
+    });
+
+    // The account exists either way; a failed email can be retried via resend
+    try {
+      await sendVerificationEmail(result[0].id);
+    } catch (error) {
+      console.error('Sign up verification email failed:', error);
+    }
+
+    return toPublicUser(result[0]);
   } catch (error) {
     console.error('Sign up failed:', error);
     throw error;
   }
 }
 
-// Handler for user login with email/password
-export async function signIn(input: SignInInput): Promise<User | null> {
+// Handler for user login with email/password, throttled per email and per client address
+export async function signIn(input: SignInInput, ipAddress: string | null = null): Promise<PublicUser | null> {
   try {
+    // Refuse before touching the password so a locked account cannot be probed
+    await assertSignInAllowed(input.email, ipAddress);
+
     // Find user by email
     const users = await db.select()
       .from(usersTable)
       .where(eq(usersTable.email, input.email))
       .execute();
 
-    if (users.length === 0) {
-      return null; // User not found
-    }
+    const user = users.length > 0 ? users[0] : null;
 
-    const user = users[0];
+    // Google-only accounts have no password to check against
+    const isValidPassword = user !== null
+      && user.password_hash !== GOOGLE_OAUTH_PASSWORD_PLACEHOLDER
+      && await Bun.password.verify(input.password, user.password_hash);
+
+    if (!user || !isValidPassword) {
+      // Unknown emails count too, otherwise the throttle would reveal which accounts exist
+      await recordFailedSignIn(input.email, ipAddress);
+      return null;
+    }
 
-    // Verify password using Bun's built-in password verification
-    const isValidPassword = await Bun.password.verify(input.password, user.password_hash);
-    if (!isValidPassword) {
-      return null; // Invalid password
+    // With two-factor on, the sign-in only completes once the code is accepted, which clears the failures then
+    if (user.totp_enabled_at === null) {
+      await clearFailedSignIns(input.email);
     }
 
-    return {
-      id: user.id,
-      email: user.email,
-      password_hash: user.password_hash,
-      name: user.name,
-      google_id: user.google_id,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    };
+    return toPublicUser(user);
   } catch (error) {
     console.error('Sign in failed:', error);
     throw error;
@@ -84,78 +132,112 @@ export async function signIn(input: SignInInput): Promise<User | null> {
 }
 
 // Handler for Google OAuth authentication
-export async function googleAuth(input: GoogleAuthInput): Promise<User> {
+export async function googleAuth(input: GoogleAuthInput): Promise<PublicUser> {
   try {
+    // Only trust identity claims from a token Google actually signed
+    let claims: GoogleIdTokenClaims;
+    try {
+      claims = await verifyGoogleIdToken(input.id_token);
+    } catch (error) {
+      if (error instanceof GoogleIdTokenError) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: error.message, cause: error });
+      }
+      throw error;
+    }
+
+    if (!claims.email_verified) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Google account email is not verified' });
+    }
+
     // Check if user with google_id already exists
     const existingUser = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.google_id, input.google_id))
+      .where(eq(usersTable.google_id, claims.sub))
       .execute();
 
     if (existingUser.length > 0) {
       // Return existing user
-      const user = existingUser[0];
-      return {
-        id: user.id,
-        email: user.email,
-        password_hash: user.password_hash,
-        name: user.name,
-        google_id: user.google_id,
-        created_at: user.created_at,
-        updated_at: user.updated_at
-      };
+      return toPublicUser(existingUser[0]);
     }
 
     // Check if user with same email already exists (but without Google ID)
     const emailUser = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.email, input.email))
+      .where(eq(usersTable.email, claims.email))
       .execute();
 
     if (emailUser.length > 0) {
-      // Update existing user with Google ID
-      const result = await db.update(usersTable)
-        .set({
-          google_id: input.google_id,
-          updated_at: new Date()
-        })
-        .where(eq(usersTable.email, input.email))
-        .returning()
-        .execute();
-
-      const user = result[0];
-      return {
-        id: user.id,
-        email: user.email,
-        password_hash: user.password_hash,
-        name: user.name,
-        google_id: user.google_id,
-        created_at: user.created_at,
-        updated_at: user.updated_at
-      };
+      const unverified = emailUser[0].email_verified_at === null;
+
+      // Update existing user with Google ID (Google has confirmed the address)
+      const result = await db.transaction(async (tx) => {
+        // Nobody proved they owned an unverified address, so whoever registered it may not be the person Google
+        // vouches for: drop every credential and sign-in they set up, leaving the account to its Google owner
+        if (unverified) {
+          const userId = emailUser[0].id;
+          await tx.delete(sessionsTable).where(eq(sessionsTable.user_id, userId)).execute();
+          await tx.delete(apiTokensTable).where(eq(apiTokensTable.user_id, userId)).execute();
+          await tx.delete(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute();
+          await tx.delete(twoFactorChallengesTable).where(eq(twoFactorChallengesTable.user_id, userId)).execute();
+          await tx.delete(passwordResetTokensTable).where(eq(passwordResetTokensTable.user_id, userId)).execute();
+          await tx.delete(emailVerificationTokensTable).where(eq(emailVerificationTokensTable.user_id, userId)).execute();
+        }
+
+        const updated = await tx.update(usersTable)
+          .set({
+            google_id: claims.sub,
+            email_verified_at: emailUser[0].email_verified_at || new Date(),
+            ...(unverified ? {
+              password_hash: GOOGLE_OAUTH_PASSWORD_PLACEHOLDER,
+              totp_secret: null,
+              totp_enabled_at: null,
+              totp_last_used_step: null,
+              deletion_scheduled_for: null
+            } : {}),
+            updated_at: new Date()
+          })
+          .where(eq(usersTable.email, claims.email))
+          .returning()
+          .execute();
+
+        await recordAuditEvent({
+          user_id: updated[0].id,
+          action: 'update',
+          entity_type: 'user',
+          entity_id: updated[0].id,
+          reason: unverified ? 'google_claimed' : 'google_linked',
+          before: toPublicUser(emailUser[0]),
+          after: toPublicUser(updated[0])
+        }, tx);
+
+        return updated;
+      });
+
+      return toPublicUser(result[0]);
     }
 
     // Create new user with Google credentials
     const result = await db.insert(usersTable)
       .values({
-        email: input.email,
-        password_hash: 'google_oauth_user', // Placeholder for Google OAuth users
-        name: input.name,
-        google_id: input.google_id
+        email: claims.email,
+        password_hash: GOOGLE_OAUTH_PASSWORD_PLACEHOLDER,
+        name: claims.name || claims.email,
+        google_id: claims.sub,
+        email_verified_at: new Date()
       })
       .returning()
       .execute();
 
-    const user = result[0];
-    return {
-      id: user.id,
-      email: user.email,
-      password_hash: user.password_hash,
-      name: user.name,
-      google_id: user.google_id,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    };
+    await recordAuditEvent({
+      user_id: result[0].id,
+      action: 'create',
+      entity_type: 'user',
+      entity_id: result[0].id,
+      reason: 'google_sign_up',
+      after: toPublicUser(result[0])
+    });
+
+    return toPublicUser(result[0]);
   } catch (error) {
     console.error('Google auth failed:', error);
     throw error;
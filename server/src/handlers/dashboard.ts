@@ -1,35 +1,55 @@
 import { db } from '../db';
 import { goldTransactionsTable, goldGoalsTable, zakatRemindersTable } from '../db/schema';
-import { type DashboardData } from '../schema';
-import { eq, sum, sql } from 'drizzle-orm';
+import { type DashboardData, type HoldingsBreakdownEntry, type CostBasis } from '../schema';
+import { eq, and, sum, sql, type AnyColumn } from 'drizzle-orm';
+import { requireHouseholdRole, portfolioCondition } from './households';
+import { convertAmount, getReportingCurrency, BASE_CURRENCY } from './fx_rates';
+import { summarizeCostBasis } from '../services/transaction_costs';
+
+// For demo purposes, use a fixed gold price per gram (in USD)
+// In production, this would come from an external API or database
+const CURRENT_GOLD_PRICE = 65.50; // ~$65.50 per gram (approximate as of 2024)
+
+// Helper function to get today's gold price per gram in the user's reporting currency
+async function getLocalGoldPrice(userId: number): Promise<{ currency: string; price_per_gram: number }> {
+  const currency = await getReportingCurrency(userId);
+  const price = await convertAmount(CURRENT_GOLD_PRICE, BASE_CURRENCY, currency, new Date());
+  return { currency, price_per_gram: Math.round(price * 100) / 100 };
+}
 
 // Constants for zakat calculations
 const ZAKAT_NISAB_GRAMS = 85; // Nisab threshold for gold in grams
 const ZAKAT_REQUIRED_DAYS = 354; // One lunar year in days
 
-// Handler for getting comprehensive dashboard data for a user
-export async function getDashboardData(userId: number): Promise<DashboardData> {
+// Handler for getting comprehensive dashboard data for a user's personal portfolio or one of their households
+export async function getDashboardData(userId: number, householdId: number | null = null): Promise<DashboardData> {
   try {
-    // Calculate total gold holdings
-    const totalGoldGrams = await calculateTotalGoldHoldings(userId);
+    // Calculate total gold holdings; value, goals and zakat go by pure gold content
+    const totalGoldGrams = await calculateTotalGoldHoldings(userId, householdId);
+    const totalGrossWeightGrams = await calculateTotalGoldHoldings(userId, householdId, 'gross');
     
-    // For demo purposes, use a fixed gold price per gram (in USD)
-    // In production, this would come from an external API or database
-    const currentGoldPrice = 65.50; // ~$65.50 per gram (approximate as of 2024)
+    // Today's price in the user's reporting currency
+    const { currency, price_per_gram: currentGoldPrice } = await getLocalGoldPrice(userId);
     
     // Calculate estimated total value
     const estimatedTotalValue = totalGoldGrams * currentGoldPrice;
     
     // Get goals progress
-    const goalsProgress = await calculateGoalsProgress(userId);
+    const goalsProgress = await calculateGoalsProgress(userId, householdId);
+
+    // What the holdings are made of
+    const holdingsByForm = await getHoldingsBreakdown(userId, householdId, 'item_form');
     
     // Get zakat status
-    const zakatStatus = await calculateZakatStatus(userId, totalGoldGrams);
+    const zakatStatus = await calculateZakatStatus(userId, householdId, totalGoldGrams);
     
     return {
       total_gold_grams: totalGoldGrams,
+      total_gross_weight_grams: totalGrossWeightGrams,
+      currency,
       estimated_total_value: estimatedTotalValue,
       current_gold_price: currentGoldPrice,
+      holdings_by_form: holdingsByForm,
       goals_progress: goalsProgress,
       zakat_status: zakatStatus
     };
@@ -39,29 +59,37 @@ export async function getDashboardData(userId: number): Promise<DashboardData> {
   }
 }
 
-// Handler for calculating user's total gold holdings
-export async function calculateTotalGoldHoldings(userId: number): Promise<number> {
+// Handler for calculating the total gold holdings of a portfolio, as pure gold content unless the gross weight is asked for
+export async function calculateTotalGoldHoldings(userId: number, householdId: number | null = null, measure: 'fine' | 'gross' = 'fine'): Promise<number> {
   try {
+    if (householdId !== null) {
+      await requireHouseholdRole(householdId, userId, 'viewer');
+    }
+
+    const weightColumn = measure === 'fine' ? goldTransactionsTable.fine_weight_grams : goldTransactionsTable.weight_grams;
+
     // Get sum of all buy transactions
     const buyResult = await db
       .select({
-        total: sum(goldTransactionsTable.weight_grams)
+        total: sum(weightColumn)
       })
       .from(goldTransactionsTable)
-      .where(
-        sql`${goldTransactionsTable.user_id} = ${userId} AND ${goldTransactionsTable.type} = 'buy'`
-      )
+      .where(and(
+        portfolioCondition(goldTransactionsTable, userId, householdId),
+        eq(goldTransactionsTable.type, 'buy')
+      ))
       .execute();
 
     // Get sum of all sell transactions
     const sellResult = await db
       .select({
-        total: sum(goldTransactionsTable.weight_grams)
+        total: sum(weightColumn)
       })
       .from(goldTransactionsTable)
-      .where(
-        sql`${goldTransactionsTable.user_id} = ${userId} AND ${goldTransactionsTable.type} = 'sell'`
-      )
+      .where(and(
+        portfolioCondition(goldTransactionsTable, userId, householdId),
+        eq(goldTransactionsTable.type, 'sell')
+      ))
       .execute();
 
     const totalBought = buyResult[0]?.total ? parseFloat(buyResult[0].total) : 0;
@@ -75,26 +103,117 @@ export async function calculateTotalGoldHoldings(userId: number): Promise<number
   }
 }
 
-// Handler for calculating progress towards goals
-export async function calculateGoalsProgress(userId: number): Promise<Array<{
+// Handler for breaking a portfolio's current holdings down by item form or brand, largest first;
+// groups that have been sold off entirely are left out
+export async function getHoldingsBreakdown(userId: number, householdId: number | null, groupBy: 'item_form' | 'brand'): Promise<HoldingsBreakdownEntry[]> {
+  try {
+    if (householdId !== null) {
+      await requireHouseholdRole(householdId, userId, 'viewer');
+    }
+
+    const groupColumn = groupBy === 'item_form' ? goldTransactionsTable.item_form : goldTransactionsTable.brand;
+    const signed = (column: AnyColumn) =>
+      sql<string>`sum(case when ${goldTransactionsTable.type} = 'buy' then ${column} else -${column} end)`;
+
+    const { price_per_gram: pricePerGram } = await getLocalGoldPrice(userId);
+
+    const groups = await db
+      .select({
+        key: groupColumn,
+        fine_weight_grams: signed(goldTransactionsTable.fine_weight_grams),
+        gross_weight_grams: signed(goldTransactionsTable.weight_grams)
+      })
+      .from(goldTransactionsTable)
+      .where(portfolioCondition(goldTransactionsTable, userId, householdId))
+      .groupBy(groupColumn)
+      .execute();
+
+    return groups
+      .map(group => {
+        const fineWeight = parseFloat(group.fine_weight_grams);
+        return {
+          key: group.key,
+          fine_weight_grams: fineWeight,
+          gross_weight_grams: parseFloat(group.gross_weight_grams),
+          estimated_value: Math.round(fineWeight * pricePerGram * 100) / 100
+        };
+      })
+      .filter(entry => entry.fine_weight_grams > 0)
+      .sort((a, b) => b.fine_weight_grams - a.fine_weight_grams);
+  } catch (error) {
+    console.error('Holdings breakdown failed:', error);
+    throw error;
+  }
+}
+
+// Handler for a portfolio's cost basis: metal cost versus overheads, in the reporting currency at each transaction's date
+export async function getCostBasis(userId: number, householdId: number | null = null): Promise<CostBasis> {
+  try {
+    if (householdId !== null) {
+      await requireHouseholdRole(householdId, userId, 'viewer');
+    }
+
+    const currency = await getReportingCurrency(userId);
+    const transactions = await db.select()
+      .from(goldTransactionsTable)
+      .where(portfolioCondition(goldTransactionsTable, userId, householdId))
+      .execute();
+
+    // One conversion factor per currency and day, rather than a rate lookup per amount
+    const factors = new Map<string, number>();
+    const entries = [];
+    for (const transaction of transactions) {
+      const key = `${transaction.currency}:${transaction.transaction_date.toISOString().slice(0, 10)}`;
+      let factor = factors.get(key);
+      if (factor === undefined) {
+        factor = await convertAmount(1, transaction.currency, currency, transaction.transaction_date);
+        factors.set(key, factor);
+      }
+
+      entries.push({
+        type: transaction.type,
+        fine_weight_grams: parseFloat(transaction.fine_weight_grams),
+        metal_cost: parseFloat(transaction.metal_cost) * factor,
+        total_price: parseFloat(transaction.total_price) * factor,
+        cost_components: transaction.cost_components.map(component => ({
+          ...component,
+          amount: component.amount * factor
+        }))
+      });
+    }
+
+    return {
+      currency,
+      ...summarizeCostBasis(entries)
+    };
+  } catch (error) {
+    console.error('Cost basis calculation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for calculating progress towards the goals of a portfolio
+export async function calculateGoalsProgress(userId: number, householdId: number | null = null): Promise<Array<{
   id: number;
   title: string;
   target_weight_grams: number;
   current_progress_percentage: number;
+  remaining_value: number;
   deadline: Date;
   is_completed: boolean;
 }>> {
   try {
-    // Get all goals for the user
+    // Get current gold holdings (this also checks household access)
+    const currentHoldings = await calculateTotalGoldHoldings(userId, householdId);
+    const { price_per_gram: pricePerGram } = await getLocalGoldPrice(userId);
+
+    // Get all goals in the portfolio
     const goals = await db
       .select()
       .from(goldGoalsTable)
-      .where(eq(goldGoalsTable.user_id, userId))
+      .where(portfolioCondition(goldGoalsTable, userId, householdId))
       .execute();
 
-    // Get current gold holdings
-    const currentHoldings = await calculateTotalGoldHoldings(userId);
-
     // Calculate progress for each goal
     return goals.map(goal => {
       const targetWeight = parseFloat(goal.target_weight_grams);
@@ -107,6 +226,7 @@ export async function calculateGoalsProgress(userId: number): Promise<Array<{
         title: goal.title,
         target_weight_grams: targetWeight,
         current_progress_percentage: Math.round(progressPercentage * 100) / 100, // Round to 2 decimals
+        remaining_value: Math.round(Math.max(0, targetWeight - currentHoldings) * pricePerGram * 100) / 100,
         deadline: goal.deadline,
         is_completed: goal.is_completed
       };
@@ -118,7 +238,7 @@ export async function calculateGoalsProgress(userId: number): Promise<Array<{
 }
 
 // Helper function to calculate zakat status
-async function calculateZakatStatus(userId: number, currentWeightGrams: number): Promise<{
+async function calculateZakatStatus(userId: number, householdId: number | null, currentWeightGrams: number): Promise<{
   is_eligible: boolean;
   current_weight_grams: number;
   threshold_grams: number;
@@ -139,7 +259,7 @@ async function calculateZakatStatus(userId: number, currentWeightGrams: number):
           transaction_date: goldTransactionsTable.transaction_date
         })
         .from(goldTransactionsTable)
-        .where(eq(goldTransactionsTable.user_id, userId))
+        .where(portfolioCondition(goldTransactionsTable, userId, householdId))
         .orderBy(goldTransactionsTable.transaction_date)
         .limit(1)
         .execute();
@@ -0,0 +1,269 @@
+import { db } from '../db';
+import { emailVerificationTokensTable, usersTable } from '../db/schema';
+import { type VerifyEmailInput, type PublicUser } from '../schema';
+import { eq, ne, and, gt, gte, isNull, desc, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { generateToken, hashToken } from '../services/tokens';
+import { getMailer, appUrl } from '../services/mailer';
+import { toPublicUser } from './auth';
+import { recordAuditEvent } from './audit';
+
+// Verification links are valid for two days
+const VERIFICATION_TOKEN_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Resend throttling: one email per minute, at most five per hour
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const RESEND_WINDOW_MS = 60 * 60 * 1000;
+const RESEND_MAX_PER_WINDOW = 5;
+
+// Helper function to check whether another account already uses an address; case is ignored, as mail providers do
+export async function isEmailTaken(email: string, exceptUserId: number, executor: Pick<typeof db, 'select'> = db): Promise<boolean> {
+  const users = await executor.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(and(
+      sql`lower(${usersTable.email}) = lower(${email})`,
+      ne(usersTable.id, exceptUserId)
+    ))
+    .execute();
+
+  return users.length > 0;
+}
+
+// Handler for issuing a verification token and emailing the link
+export async function sendVerificationEmail(userId: number): Promise<boolean> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+    const token = generateToken();
+
+    await db.insert(emailVerificationTokensTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS)
+      })
+      .execute();
+
+    await getMailer().send({
+      to: user.email,
+      subject: 'Confirm your EmasTrack email address',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'Please confirm this is your email address by opening the link below:',
+        '',
+        appUrl(`/verify-email?token=${encodeURIComponent(token)}`),
+        '',
+        'The link is valid for 48 hours.'
+      ].join('\n')
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Sending verification email failed:', error);
+    throw error;
+  }
+}
+
+// Handler for emailing a confirmation link to an address the user wants to switch to
+export async function sendEmailChangeConfirmation(userId: number, newEmail: string): Promise<boolean> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+    const token = generateToken();
+
+    await db.insert(emailVerificationTokensTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        new_email: newEmail,
+        expires_at: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS)
+      })
+      .execute();
+
+    await getMailer().send({
+      to: newEmail,
+      subject: 'Confirm your new EmasTrack email address',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        `You asked to change the email address on your EmasTrack account from ${user.email} to this one.`,
+        'Open the link below to confirm the change:',
+        '',
+        appUrl(`/verify-email?token=${encodeURIComponent(token)}`),
+        '',
+        'The link is valid for 48 hours. Until then you keep signing in with your current address.'
+      ].join('\n')
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Sending email change confirmation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for confirming an email address with a token from the verification link;
+// a token issued for an email change moves the account to the new address
+export async function verifyEmail(input: VerifyEmailInput): Promise<PublicUser> {
+  try {
+    const verified = await db.transaction(async (tx) => {
+      // Claim the token atomically so it can only ever be used once
+      const claimed = await tx.update(emailVerificationTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(emailVerificationTokensTable.token_hash, hashToken(input.token)),
+          isNull(emailVerificationTokensTable.used_at),
+          gt(emailVerificationTokensTable.expires_at, new Date())
+        ))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid or expired verification token' });
+      }
+
+      const newEmail = claimed[0].new_email;
+      if (newEmail === null) {
+        const result = await tx.update(usersTable)
+          .set({
+            email_verified_at: new Date(),
+            updated_at: new Date()
+          })
+          .where(eq(usersTable.id, claimed[0].user_id))
+          .returning()
+          .execute();
+
+        await recordAuditEvent({
+          user_id: result[0].id,
+          action: 'update',
+          entity_type: 'user',
+          entity_id: result[0].id,
+          reason: 'email_verified',
+          after: toPublicUser(result[0])
+        }, tx);
+
+        return { user: toPublicUser(result[0]), previousEmail: null };
+      }
+
+      // The address may have been taken since the change was requested
+      if (await isEmailTaken(newEmail, claimed[0].user_id, tx)) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'Email address is already in use' });
+      }
+
+      const previous = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, claimed[0].user_id))
+        .execute();
+
+      const result = await tx.update(usersTable)
+        .set({
+          email: newEmail,
+          email_verified_at: new Date(),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, claimed[0].user_id))
+        .returning()
+        .execute();
+
+      // Links sent before the change point at an address the account no longer uses
+      await tx.update(emailVerificationTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(emailVerificationTokensTable.user_id, claimed[0].user_id),
+          isNull(emailVerificationTokensTable.used_at)
+        ))
+        .execute();
+
+      await recordAuditEvent({
+        user_id: result[0].id,
+        action: 'update',
+        entity_type: 'user',
+        entity_id: result[0].id,
+        reason: 'email_changed',
+        before: toPublicUser(previous[0]),
+        after: toPublicUser(result[0])
+      }, tx);
+
+      return { user: toPublicUser(result[0]), previousEmail: previous[0].email };
+    });
+
+    // Let the old address know, so a hijacked account does not change hands silently
+    if (verified.previousEmail !== null) {
+      try {
+        await getMailer().send({
+          to: verified.previousEmail,
+          subject: 'Your EmasTrack email address was changed',
+          text: [
+            `Hi ${verified.user.name},`,
+            '',
+            `The email address on your EmasTrack account was changed to ${verified.user.email}.`,
+            'If you did not make this change, please contact support right away.'
+          ].join('\n')
+        });
+      } catch (error) {
+        console.error('Email change notice failed:', error);
+      }
+    }
+
+    return verified.user;
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+}
+
+// Handler for resending the verification email, throttled per user
+export async function resendVerificationEmail(userId: number): Promise<boolean> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    if (users[0].email_verified_at !== null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Email address is already verified' });
+    }
+
+    const recentTokens = await db.select()
+      .from(emailVerificationTokensTable)
+      .where(and(
+        eq(emailVerificationTokensTable.user_id, userId),
+        gte(emailVerificationTokensTable.created_at, new Date(Date.now() - RESEND_WINDOW_MS))
+      ))
+      .orderBy(desc(emailVerificationTokensTable.created_at))
+      .execute();
+
+    if (recentTokens.length > 0 && Date.now() - recentTokens[0].created_at.getTime() < RESEND_COOLDOWN_MS) {
+      throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: 'Please wait a minute before requesting another verification email' });
+    }
+    if (recentTokens.length >= RESEND_MAX_PER_WINDOW) {
+      throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: 'Too many verification emails requested, please try again later' });
+    }
+
+    return await sendVerificationEmail(userId);
+  } catch (error) {
+    console.error('Resending verification email failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { db } from '../db';
+import { goldTransactionsTable, zakatRemindersTable, usersTable, type GoldTransaction } from '../db/schema';
+import { type ExportInput } from '../schema';
+import { eq, and, or, gt, gte, lte, asc, type SQL } from 'drizzle-orm';
+import { requireHouseholdRole, portfolioCondition } from './households';
+import { getUserGoals } from './goals';
+import { formatCsvRow } from '../services/csv';
+import { buildXlsx, type XlsxCell } from '../services/xlsx';
+import { createLocaleFormat, type LocaleFormat } from '../services/locale_format';
+import { sumCostComponents } from '../services/transaction_costs';
+
+// Transactions are read and sent this many at a time
+const PAGE_SIZE = 500;
+
+// A multiple of 3 bytes, so the base64 pieces of a workbook join into one valid string
+const WORKBOOK_CHUNK_BYTES = 3 * 16 * 1024;
+
+// Lets spreadsheet programs recognise a CSV file as UTF-8
+const BYTE_ORDER_MARK = '\uFEFF';
+
+// A value as exports see it; each file type writes it its own way
+type ExportValue =
+  | { kind: 'text'; value: string | null }
+  | { kind: 'number'; value: number; digits: number }
+  | { kind: 'amount'; value: number; currency: string }
+  | { kind: 'date'; value: Date | null }
+  | { kind: 'flag'; value: boolean };
+
+const text = (value: string | null): ExportValue => ({ kind: 'text', value });
+const num = (value: number, digits: number): ExportValue => ({ kind: 'number', value, digits });
+const amount = (value: number, currency: string): ExportValue => ({ kind: 'amount', value, currency });
+const date = (value: Date | null): ExportValue => ({ kind: 'date', value });
+const flag = (value: boolean): ExportValue => ({ kind: 'flag', value });
+
+const TRANSACTION_HEADER = [
+  'Date', 'Type', 'Form', 'Brand', 'Weight (g)', 'Fineness', 'Fine weight (g)',
+  'Price per gram', 'Metal cost', 'Other costs', 'Total price', 'Currency', 'Description'
+];
+const GOAL_HEADER = ['Title', 'Target weight (g)', 'Deadline', 'Completed', 'Description'];
+const ZAKAT_HEADER = ['Holding since', 'Gold weight (g)', 'Eligible', 'Next reminder', 'Last updated'];
+
+// Helper function to write a value as CSV text. Text starting like a formula is prefixed with a quote
+// so spreadsheet programs do not run it
+function csvField(value: ExportValue, format: LocaleFormat): string {
+  switch (value.kind) {
+    case 'text': return value.value === null ? '' : value.value.replace(/^[=+\-@\t\r]/, "'$&");
+    case 'number': return format.formatNumber(value.value, value.digits);
+    case 'amount': return format.formatAmount(value.value, value.currency);
+    case 'date': return value.value === null ? '' : format.formatDate(value.value);
+    case 'flag': return value.value ? 'Yes' : 'No';
+  }
+}
+
+// Helper function to write a value as a spreadsheet cell with the locale's number formats
+function xlsxCell(value: ExportValue, format: LocaleFormat): XlsxCell {
+  switch (value.kind) {
+    case 'text': return value.value;
+    case 'number': return { value: value.value, format: value.digits > 0 ? `0.${'0'.repeat(value.digits)}` : '0' };
+    case 'amount': return { value: value.value, format: format.spreadsheetAmountFormat(value.currency) };
+    case 'date': return value.value === null ? null : { value: value.value, format: format.spreadsheetDateFormat };
+    case 'flag': return value.value;
+  }
+}
+
+// Helper function to get the formatting conventions of the user's locale
+async function getExportFormat(userId: number): Promise<LocaleFormat> {
+  const users = await db.select({ locale: usersTable.locale })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+
+  return createLocaleFormat(users[0].locale);
+}
+
+// Helper function to read the portfolio's transactions in date order, a page at a time
+async function* transactionPages(userId: number, input: ExportInput): AsyncGenerator<GoldTransaction[]> {
+  const conditions = [portfolioCondition(goldTransactionsTable, userId, input.household_id ?? null)];
+  if (input.date_from !== undefined) {
+    conditions.push(gte(goldTransactionsTable.transaction_date, input.date_from));
+  }
+  if (input.date_to !== undefined) {
+    conditions.push(lte(goldTransactionsTable.transaction_date, input.date_to));
+  }
+
+  let last: GoldTransaction | null = null;
+  while (true) {
+    const after: SQL | undefined = last === null ? undefined : or(
+      gt(goldTransactionsTable.transaction_date, last.transaction_date),
+      and(eq(goldTransactionsTable.transaction_date, last.transaction_date), gt(goldTransactionsTable.id, last.id))
+    );
+
+    const page: GoldTransaction[] = await db.select()
+      .from(goldTransactionsTable)
+      .where(and(...conditions, after))
+      .orderBy(asc(goldTransactionsTable.transaction_date), asc(goldTransactionsTable.id))
+      .limit(PAGE_SIZE)
+      .execute();
+
+    if (page.length > 0) {
+      yield page;
+    }
+    if (page.length < PAGE_SIZE) {
+      return;
+    }
+    last = page[page.length - 1];
+  }
+}
+
+// Helper function to lay out one transaction as an export row
+function transactionRow(transaction: GoldTransaction): ExportValue[] {
+  return [
+    date(transaction.transaction_date),
+    text(transaction.type),
+    text(transaction.item_form),
+    text(transaction.brand),
+    num(parseFloat(transaction.weight_grams), 3),
+    num(parseFloat(transaction.fineness), 1),
+    num(parseFloat(transaction.fine_weight_grams), 3),
+    amount(parseFloat(transaction.price_per_gram), transaction.currency),
+    amount(parseFloat(transaction.metal_cost), transaction.currency),
+    amount(sumCostComponents(transaction.cost_components), transaction.currency),
+    amount(parseFloat(transaction.total_price), transaction.currency),
+    text(transaction.currency),
+    text(transaction.description)
+  ];
+}
+
+// Helper function to load the portfolio's goals as export rows
+async function goalRows(userId: number, householdId: number | null): Promise<ExportValue[][]> {
+  const goals = await getUserGoals(userId, householdId);
+
+  return goals.map(goal => [
+    text(goal.title),
+    num(goal.target_weight_grams, 3),
+    date(goal.deadline),
+    flag(goal.is_completed),
+    text(goal.description)
+  ]);
+}
+
+// Helper function to load the user's zakat records as export rows
+async function zakatRows(userId: number): Promise<ExportValue[][]> {
+  const reminders = await db.select()
+    .from(zakatRemindersTable)
+    .where(eq(zakatRemindersTable.user_id, userId))
+    .orderBy(asc(zakatRemindersTable.holding_start_date))
+    .execute();
+
+  return reminders.map(reminder => [
+    date(reminder.holding_start_date),
+    num(parseFloat(reminder.gold_weight_grams), 3),
+    flag(reminder.is_eligible),
+    date(reminder.next_reminder_date),
+    date(reminder.updated_at)
+  ]);
+}
+
+// Helper function to write rows as CSV lines in the locale's delimiter
+function csvLines(rows: ExportValue[][], format: LocaleFormat): string {
+  return rows.map(row => formatCsvRow(row.map(value => csvField(value, format)), format.csvDelimiter)).join('');
+}
+
+// Handler for streaming the portfolio's transactions, optionally within a date range, as CSV text chunks
+export async function* exportTransactionsCsv(userId: number, input: ExportInput): AsyncGenerator<string> {
+  try {
+    // Checked before the first chunk so a refused export sends nothing
+    if (input.household_id !== undefined) {
+      await requireHouseholdRole(input.household_id, userId, 'viewer');
+    }
+
+    const format = await getExportFormat(userId);
+    yield BYTE_ORDER_MARK + formatCsvRow(TRANSACTION_HEADER, format.csvDelimiter);
+
+    for await (const page of transactionPages(userId, input)) {
+      yield csvLines(page.map(transactionRow), format);
+    }
+  } catch (error) {
+    console.error('Transaction export failed:', error);
+    throw error;
+  }
+}
+
+// Handler for streaming the portfolio's goals as CSV text chunks
+export async function* exportGoalsCsv(userId: number, householdId: number | null = null): AsyncGenerator<string> {
+  try {
+    const rows = await goalRows(userId, householdId);
+    const format = await getExportFormat(userId);
+
+    yield BYTE_ORDER_MARK + formatCsvRow(GOAL_HEADER, format.csvDelimiter) + csvLines(rows, format);
+  } catch (error) {
+    console.error('Goal export failed:', error);
+    throw error;
+  }
+}
+
+// Handler for streaming the user's zakat records as CSV text chunks
+export async function* exportZakatCsv(userId: number): AsyncGenerator<string> {
+  try {
+    const rows = await zakatRows(userId);
+    const format = await getExportFormat(userId);
+
+    yield BYTE_ORDER_MARK + formatCsvRow(ZAKAT_HEADER, format.csvDelimiter) + csvLines(rows, format);
+  } catch (error) {
+    console.error('Zakat export failed:', error);
+    throw error;
+  }
+}
+
+// Handler for streaming an XLSX workbook with a sheet each for transactions, goals and zakat records.
+// Chunks are base64 pieces of the file: join them and decode once
+export async function* exportWorkbook(userId: number, input: ExportInput): AsyncGenerator<string> {
+  try {
+    const householdId = input.household_id ?? null;
+    const goals = await goalRows(userId, householdId);
+    const zakat = await zakatRows(userId);
+    const format = await getExportFormat(userId);
+
+    const transactions: XlsxCell[][] = [];
+    for await (const page of transactionPages(userId, input)) {
+      transactions.push(...page.map(transaction => transactionRow(transaction).map(value => xlsxCell(value, format))));
+    }
+
+    const file = buildXlsx([
+      { name: 'Transactions', header: TRANSACTION_HEADER, rows: transactions },
+      { name: 'Goals', header: GOAL_HEADER, rows: goals.map(row => row.map(value => xlsxCell(value, format))) },
+      { name: 'Zakat', header: ZAKAT_HEADER, rows: zakat.map(row => row.map(value => xlsxCell(value, format))) }
+    ]);
+
+    for (let offset = 0; offset < file.length; offset += WORKBOOK_CHUNK_BYTES) {
+      yield file.subarray(offset, offset + WORKBOOK_CHUNK_BYTES).toString('base64');
+    }
+  } catch (error) {
+    console.error('Workbook export failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { db } from '../db';
+import { fxRatesTable, usersTable } from '../db/schema';
+import { eq, and, lte, desc } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getFxRateProvider, startOfUtcDay, type FxRateQuote } from '../services/fx_rates';
+
+// Every stored rate is against this currency
+export const BASE_CURRENCY = 'USD';
+
+// Helper function to store a provider's quote; rates already stored for that day are kept
+async function storeQuote(quote: FxRateQuote, source: string): Promise<number> {
+  const rows = Object.entries(quote.rates)
+    .filter(([currency]) => currency !== BASE_CURRENCY)
+    .map(([currency, rate]) => ({
+      currency,
+      rate_date: startOfUtcDay(quote.rate_date),
+      units_per_usd: rate.toString(),
+      source
+    }));
+
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const result = await db.insert(fxRatesTable)
+    .values(rows)
+    .onConflictDoNothing()
+    .returning()
+    .execute();
+
+  return result.length;
+}
+
+// Handler for the rate of a currency on a day, as units per USD. Stored rates are used when they are for that
+// day; otherwise the provider is asked and its answer kept, falling back to the latest stored rate before the day
+export async function getUnitsPerUsd(currency: string, date: Date): Promise<number> {
+  try {
+    if (currency === BASE_CURRENCY) {
+      return 1;
+    }
+
+    const day = startOfUtcDay(date);
+    const stored = await db.select()
+      .from(fxRatesTable)
+      .where(and(
+        eq(fxRatesTable.currency, currency),
+        lte(fxRatesTable.rate_date, day)
+      ))
+      .orderBy(desc(fxRatesTable.rate_date))
+      .limit(1)
+      .execute();
+
+    if (stored.length > 0 && stored[0].rate_date.getTime() === day.getTime()) {
+      return parseFloat(stored[0].units_per_usd);
+    }
+
+    const provider = getFxRateProvider();
+    const quote = await provider.getRates(day);
+    const quoted = quote?.rates[currency];
+    if (quote && quoted !== undefined && (stored.length === 0 || quote.rate_date > stored[0].rate_date)) {
+      await storeQuote(quote, provider.name);
+      return quoted;
+    }
+
+    if (stored.length > 0) {
+      return parseFloat(stored[0].units_per_usd);
+    }
+
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `No ${currency} exchange rate is available for ${day.toISOString().slice(0, 10)}`
+    });
+  } catch (error) {
+    console.error('Exchange rate lookup failed:', error);
+    throw error;
+  }
+}
+
+// Handler for converting an amount between currencies at the rates of the given day
+export async function convertAmount(amount: number, from: string, to: string, date: Date): Promise<number> {
+  if (from === to) {
+    return amount;
+  }
+
+  const usd = amount / await getUnitsPerUsd(from, date);
+  return usd * await getUnitsPerUsd(to, date);
+}
+
+// Handler for pulling the provider's rates for a day into the table ahead of time; returns how many were added
+export async function refreshFxRates(date: Date = new Date()): Promise<number> {
+  try {
+    const provider = getFxRateProvider();
+    const quote = await provider.getRates(date);
+
+    return quote ? await storeQuote(quote, provider.name) : 0;
+  } catch (error) {
+    console.error('Exchange rate refresh failed:', error);
+    throw error;
+  }
+}
+
+// Helper function to get the currency a user wants valuations in
+export async function getReportingCurrency(userId: number): Promise<string> {
+  const users = await db.select({ reporting_currency: usersTable.reporting_currency })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+
+  return users[0].reporting_currency;
+}
\ No newline at end of file
@@ -1,25 +1,50 @@
 import { db } from '../db';
 import { goldGoalsTable, usersTable } from '../db/schema';
-import { type CreateGoalInput, type UpdateGoalInput, type GoldGoal } from '../schema';
-import { eq, and, asc } from 'drizzle-orm';
+import { type CreateGoalInput, type UpdateGoalInput, type GoldGoal, type HouseholdRole } from '../schema';
+import { eq, and, asc, isNull, isNotNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { assertPortfolioAccess } from './ownership';
+import { requireHouseholdRole, portfolioCondition } from './households';
+import { recordAuditEvent } from './audit';
+
+// Helper function to load a goal the user may access (NOT_FOUND / FORBIDDEN otherwise);
+// household goals need at least the given role in the household. Trashed goals count as missing
+// unless inTrash is set, which looks only in the trash
+async function getOwnedGoal(goalId: number, userId: number, minimum: HouseholdRole = 'viewer', inTrash: boolean = false) {
+  const goals = await db.select()
+    .from(goldGoalsTable)
+    .where(and(
+      eq(goldGoalsTable.id, goalId),
+      inTrash ? isNotNull(goldGoalsTable.deleted_at) : isNull(goldGoalsTable.deleted_at)
+    ))
+    .execute();
+
+  return assertPortfolioAccess(goals, userId, 'Goal', goalId, minimum);
+}
 
 // Handler for creating a new gold purchase goal
-export async function createGoal(input: CreateGoalInput): Promise<GoldGoal> {
+export async function createGoal(input: CreateGoalInput, userId: number): Promise<GoldGoal> {
   try {
     // Verify user exists first
     const user = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.user_id))
+      .where(eq(usersTable.id, userId))
       .execute();
 
     if (user.length === 0) {
-      throw new Error(`User with id ${input.user_id} not found`);
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    // Household goals need edit access there
+    if (input.household_id !== undefined) {
+      await requireHouseholdRole(input.household_id, userId, 'editor');
     }
 
     // Insert goal record
     const result = await db.insert(goldGoalsTable)
       .values({
-        user_id: input.user_id,
+        user_id: userId,
+        household_id: input.household_id ?? null,
         target_weight_grams: input.target_weight_grams.toString(),
         deadline: input.deadline,
         title: input.title,
@@ -29,8 +54,17 @@ export async function createGoal(input: CreateGoalInput): Promise<GoldGoal> {
       .returning()
       .execute();
 
-    // Convert numeric fields back to numbers before returning
     const goal = result[0];
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'create',
+      entity_type: 'goal',
+      entity_id: goal.id,
+      after: goal
+    });
+
+    // Convert numeric fields back to numbers before returning
     return {
       ...goal,
       target_weight_grams: parseFloat(goal.target_weight_grams)
@@ -42,17 +76,10 @@ export async function createGoal(input: CreateGoalInput): Promise<GoldGoal> {
 }
 
 // Handler for updating an existing gold purchase goal
-export async function updateGoal(input: UpdateGoalInput): Promise<GoldGoal> {
+export async function updateGoal(input: UpdateGoalInput, userId: number): Promise<GoldGoal> {
   try {
-    // First check if goal exists
-    const existingGoal = await db.select()
-      .from(goldGoalsTable)
-      .where(eq(goldGoalsTable.id, input.id))
-      .execute();
-
-    if (existingGoal.length === 0) {
-      throw new Error(`Goal with id ${input.id} not found`);
-    }
+    // First check the goal exists and the user may edit it
+    const existingGoal = await getOwnedGoal(input.id, userId, 'editor');
 
     // Build update object with only provided fields
     const updateData: any = {
@@ -82,8 +109,18 @@ export async function updateGoal(input: UpdateGoalInput): Promise<GoldGoal> {
       .returning()
       .execute();
 
-    // Convert numeric fields back to numbers before returning
     const goal = result[0];
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'goal',
+      entity_id: goal.id,
+      before: existingGoal,
+      after: goal
+    });
+
+    // Convert numeric fields back to numbers before returning
     return {
       ...goal,
       target_weight_grams: parseFloat(goal.target_weight_grams)
@@ -94,19 +131,29 @@ export async function updateGoal(input: UpdateGoalInput): Promise<GoldGoal> {
   }
 }
 
-// Handler for deleting a gold purchase goal
+// Handler for deleting a gold purchase goal: it moves to the trash, where it can be restored until purged
 export async function deleteGoal(goalId: number, userId: number): Promise<boolean> {
   try {
-    // Delete the goal with both ID and user_id conditions for security
-    const result = await db.delete(goldGoalsTable)
-      .where(and(
-        eq(goldGoalsTable.id, goalId),
-        eq(goldGoalsTable.user_id, userId)
-      ))
+    const existingGoal = await getOwnedGoal(goalId, userId, 'editor');
+
+    // Trash the goal, now that access has been checked
+    const result = await db.update(goldGoalsTable)
+      .set({ deleted_at: new Date() })
+      .where(and(eq(goldGoalsTable.id, goalId), isNull(goldGoalsTable.deleted_at)))
       .returning()
       .execute();
 
-    // Return true if a goal was deleted, false if no matching goal found
+    if (result.length > 0) {
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'delete',
+        entity_type: 'goal',
+        entity_id: goalId,
+        reason: 'trashed',
+        before: existingGoal
+      });
+    }
+
     return result.length > 0;
   } catch (error) {
     console.error('Goal deletion failed:', error);
@@ -114,13 +161,56 @@ export async function deleteGoal(goalId: number, userId: number): Promise<boolea
   }
 }
 
-// Handler for getting user's gold purchase goals
-export async function getUserGoals(userId: number): Promise<GoldGoal[]> {
+// Handler for taking a goal back out of the trash
+export async function restoreGoal(goalId: number, userId: number): Promise<GoldGoal> {
   try {
-    // Fetch all goals for the user ordered by deadline ascending
+    const trashedGoal = await getOwnedGoal(goalId, userId, 'editor', true);
+
+    // Only a goal still in the trash comes back; a concurrent restore or purge wins otherwise
+    const result = await db.update(goldGoalsTable)
+      .set({ deleted_at: null })
+      .where(and(eq(goldGoalsTable.id, goalId), isNotNull(goldGoalsTable.deleted_at)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Goal with id ${goalId} not found` });
+    }
+
+    const goal = result[0];
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'goal',
+      entity_id: goalId,
+      reason: 'restored',
+      before: trashedGoal,
+      after: goal
+    });
+
+    // Convert numeric fields back to numbers before returning
+    return {
+      ...goal,
+      target_weight_grams: parseFloat(goal.target_weight_grams)
+    };
+  } catch (error) {
+    console.error('Goal restore failed:', error);
+    throw error;
+  }
+}
+
+// Handler for getting the goals in the user's personal portfolio or in one of their households
+export async function getUserGoals(userId: number, householdId: number | null = null): Promise<GoldGoal[]> {
+  try {
+    if (householdId !== null) {
+      await requireHouseholdRole(householdId, userId, 'viewer');
+    }
+
+    // Fetch all goals in the portfolio ordered by deadline ascending
     const results = await db.select()
       .from(goldGoalsTable)
-      .where(eq(goldGoalsTable.user_id, userId))
+      .where(portfolioCondition(goldGoalsTable, userId, householdId))
       .orderBy(asc(goldGoalsTable.deadline))
       .execute();
 
@@ -136,23 +226,12 @@ export async function getUserGoals(userId: number): Promise<GoldGoal[]> {
 }
 
 // Handler for getting a specific goal by ID
-export async function getGoalById(goalId: number, userId: number): Promise<GoldGoal | null> {
+export async function getGoalById(goalId: number, userId: number): Promise<GoldGoal> {
   try {
-    // Find goal by ID and verify it belongs to the user
-    const results = await db.select()
-      .from(goldGoalsTable)
-      .where(and(
-        eq(goldGoalsTable.id, goalId),
-        eq(goldGoalsTable.user_id, userId)
-      ))
-      .execute();
-
-    if (results.length === 0) {
-      return null;
-    }
+    // Find goal by ID and verify the user may see it
+    const goal = await getOwnedGoal(goalId, userId);
 
     // Convert numeric fields back to numbers before returning
-    const goal = results[0];
     return {
       ...goal,
       target_weight_grams: parseFloat(goal.target_weight_grams)
@@ -164,27 +243,33 @@ export async function getGoalById(goalId: number, userId: number): Promise<GoldG
 }
 
 // Handler for marking a goal as completed
-export async function markGoalCompleted(goalId: number, userId: number): Promise<GoldGoal | null> {
+export async function markGoalCompleted(goalId: number, userId: number): Promise<GoldGoal> {
   try {
-    // Update the goal to completed with user verification
+    const existingGoal = await getOwnedGoal(goalId, userId, 'editor');
+
+    // Update the goal to completed, now that access has been checked
     const result = await db.update(goldGoalsTable)
       .set({
         is_completed: true,
         updated_at: new Date()
       })
-      .where(and(
-        eq(goldGoalsTable.id, goalId),
-        eq(goldGoalsTable.user_id, userId)
-      ))
+      .where(eq(goldGoalsTable.id, goalId))
       .returning()
       .execute();
 
-    if (result.length === 0) {
-      return null;
-    }
+    const goal = result[0];
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'goal',
+      entity_id: goal.id,
+      reason: 'goal_completed',
+      before: existingGoal,
+      after: goal
+    });
 
     // Convert numeric fields back to numbers before returning
-    const goal = result[0];
     return {
       ...goal,
       target_weight_grams: parseFloat(goal.target_weight_grams)
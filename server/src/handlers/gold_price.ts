@@ -1,4 +1,5 @@
-import { type GoldPrice } from '../schema';
+import { type GoldPrice, type LocalGoldPrice } from '../schema';
+import { convertAmount, BASE_CURRENCY } from './fx_rates';
 
 // In-memory cache for gold prices
 interface CachedGoldPrice {
@@ -100,6 +101,23 @@ export async function getGoldPriceWithRefresh(): Promise<GoldPrice> {
   }
 }
 
+// Handler for the current gold price converted into another currency at today's rate
+export async function getGoldPriceIn(currency: string): Promise<LocalGoldPrice> {
+  try {
+    const price = await getGoldPriceWithRefresh();
+    const converted = await convertAmount(price.price_per_gram_usd, BASE_CURRENCY, currency, price.timestamp);
+
+    return {
+      ...price,
+      currency,
+      price_per_gram: Math.round(converted * 100) / 100
+    };
+  } catch (error) {
+    console.error('Error converting gold price:', error);
+    throw error;
+  }
+}
+
 // Helper function to clear cache (useful for testing)
 export function clearGoldPriceCache(): void {
   goldPriceCache = null;
@@ -0,0 +1,691 @@
+import { db } from '../db';
+import {
+  householdsTable,
+  householdMembersTable,
+  householdInvitationsTable,
+  goldTransactionsTable,
+  goldGoalsTable,
+  usersTable,
+  type HouseholdInvitation as HouseholdInvitationRow
+} from '../db/schema';
+import {
+  type HouseholdRole,
+  type Household,
+  type HouseholdDetail,
+  type HouseholdInvitation,
+  type CreateHouseholdInput,
+  type RenameHouseholdInput,
+  type InviteHouseholdMemberInput,
+  type RevokeHouseholdInvitationInput,
+  type AcceptHouseholdInvitationInput,
+  type UpdateHouseholdMemberInput,
+  type RemoveHouseholdMemberInput
+} from '../schema';
+import { eq, and, ne, gt, isNull, isNotNull, asc, inArray, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { TRPCError } from '@trpc/server';
+import { generateToken, hashToken } from '../services/tokens';
+import { getMailer, appUrl } from '../services/mailer';
+import { recordAuditEvent } from './audit';
+import { deleteTransactionAttachments, removeStoredFiles } from './attachments';
+
+// Invitations are valid for a week
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Roles in increasing order of access; each role can do everything the ones before it can
+const HOUSEHOLD_ROLE_RANK: Record<HouseholdRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2
+};
+
+// Anything that can run queries: the db itself or an open transaction
+type Executor = Pick<typeof db, 'select' | 'selectDistinct' | 'insert' | 'update' | 'delete'>;
+
+// Helper function to compare a member's role against the minimum an action needs
+export function hasHouseholdRole(role: HouseholdRole, minimum: HouseholdRole): boolean {
+  return HOUSEHOLD_ROLE_RANK[role] >= HOUSEHOLD_ROLE_RANK[minimum];
+}
+
+// Helper function to check the caller's access to a household (NOT_FOUND / FORBIDDEN otherwise)
+export async function requireHouseholdRole(householdId: number, userId: number, minimum: HouseholdRole) {
+  const results = await db.select()
+    .from(householdsTable)
+    .leftJoin(householdMembersTable, and(
+      eq(householdMembersTable.household_id, householdsTable.id),
+      eq(householdMembersTable.user_id, userId)
+    ))
+    .where(eq(householdsTable.id, householdId))
+    .execute();
+
+  if (results.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Household with id ${householdId} not found` });
+  }
+
+  const membership = results[0].household_members;
+  if (membership === null) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You are not a member of this household' });
+  }
+  if (!hasHouseholdRole(membership.role, minimum)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `This requires the ${minimum} role in the household` });
+  }
+
+  return {
+    household: results[0].households,
+    membership
+  };
+}
+
+type PortfolioColumns = { user_id: AnyPgColumn; household_id: AnyPgColumn; deleted_at: AnyPgColumn };
+
+// Helper function to select one portfolio's rows, trashed or not: a household's rows, or the user's personal ones
+function portfolioScope(columns: PortfolioColumns, userId: number, householdId: number | null): SQL {
+  if (householdId !== null) {
+    return eq(columns.household_id, householdId);
+  }
+  return and(eq(columns.user_id, userId), isNull(columns.household_id))!;
+}
+
+// Helper function to build the filter for one portfolio, leaving out rows in the trash
+export function portfolioCondition(columns: PortfolioColumns, userId: number, householdId: number | null): SQL {
+  return and(portfolioScope(columns, userId, householdId), isNull(columns.deleted_at))!;
+}
+
+// Helper function to build the filter for the rows of one portfolio that are in the trash
+export function trashCondition(columns: PortfolioColumns, userId: number, householdId: number | null): SQL {
+  return and(portfolioScope(columns, userId, householdId), isNotNull(columns.deleted_at))!;
+}
+
+// Helper function to describe an invitation without its token hash
+function toHouseholdInvitation(invitation: HouseholdInvitationRow): HouseholdInvitation {
+  return {
+    id: invitation.id,
+    household_id: invitation.household_id,
+    email: invitation.email,
+    role: invitation.role,
+    expires_at: invitation.expires_at,
+    accepted_at: invitation.accepted_at,
+    created_at: invitation.created_at
+  };
+}
+
+// Helper function to lock a household's row until the surrounding transaction ends, so membership changes
+// that check the owner count run one at a time
+async function lockHousehold(executor: Executor, householdId: number): Promise<void> {
+  const households = await executor.select({ id: householdsTable.id })
+    .from(householdsTable)
+    .where(eq(householdsTable.id, householdId))
+    .for('update')
+    .execute();
+
+  if (households.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Household with id ${householdId} not found` });
+  }
+}
+
+// Helper function to count the owners left in a household
+async function countOwners(executor: Executor, householdId: number): Promise<number> {
+  const owners = await executor.select({ id: householdMembersTable.id })
+    .from(householdMembersTable)
+    .where(and(
+      eq(householdMembersTable.household_id, householdId),
+      eq(householdMembersTable.role, 'owner')
+    ))
+    .execute();
+
+  return owners.length;
+}
+
+// Helper function to remove a household together with everything recorded in it. Returns the attachment
+// files to remove from storage once the surrounding transaction commits
+async function deleteHouseholdRows(executor: Executor, householdId: number): Promise<string[]> {
+  const storedFiles = await deleteTransactionAttachments(executor, eq(goldTransactionsTable.household_id, householdId));
+  await executor.delete(goldTransactionsTable).where(eq(goldTransactionsTable.household_id, householdId)).execute();
+  await executor.delete(goldGoalsTable).where(eq(goldGoalsTable.household_id, householdId)).execute();
+  await executor.delete(householdInvitationsTable).where(eq(householdInvitationsTable.household_id, householdId)).execute();
+  await executor.delete(householdMembersTable).where(eq(householdMembersTable.household_id, householdId)).execute();
+  await executor.delete(householdsTable).where(eq(householdsTable.id, householdId)).execute();
+  return storedFiles;
+}
+
+// Handler for creating a household; the creator becomes its owner
+export async function createHousehold(input: CreateHouseholdInput, userId: number): Promise<Household> {
+  try {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(householdsTable)
+        .values({ name: input.name })
+        .returning()
+        .execute();
+
+      const household = result[0];
+
+      await tx.insert(householdMembersTable)
+        .values({
+          household_id: household.id,
+          user_id: userId,
+          role: 'owner'
+        })
+        .execute();
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'create',
+        entity_type: 'household',
+        entity_id: household.id,
+        after: household
+      }, tx);
+
+      return { ...household, role: 'owner' as const };
+    });
+  } catch (error) {
+    console.error('Household creation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for listing the households the user belongs to
+export async function listHouseholds(userId: number): Promise<Household[]> {
+  try {
+    const results = await db.select()
+      .from(householdMembersTable)
+      .innerJoin(householdsTable, eq(householdMembersTable.household_id, householdsTable.id))
+      .where(eq(householdMembersTable.user_id, userId))
+      .orderBy(asc(householdsTable.name), asc(householdsTable.id))
+      .execute();
+
+    return results.map(result => ({
+      ...result.households,
+      role: result.household_members.role
+    }));
+  } catch (error) {
+    console.error('Household listing failed:', error);
+    throw error;
+  }
+}
+
+// Handler for looking up a household and its members
+export async function getHousehold(householdId: number, userId: number): Promise<HouseholdDetail> {
+  try {
+    const { household, membership } = await requireHouseholdRole(householdId, userId, 'viewer');
+
+    const members = await db.select()
+      .from(householdMembersTable)
+      .innerJoin(usersTable, eq(householdMembersTable.user_id, usersTable.id))
+      .where(eq(householdMembersTable.household_id, householdId))
+      .orderBy(asc(householdMembersTable.created_at), asc(householdMembersTable.id))
+      .execute();
+
+    return {
+      ...household,
+      role: membership.role,
+      members: members.map(member => ({
+        user_id: member.users.id,
+        name: member.users.name,
+        email: member.users.email,
+        role: member.household_members.role,
+        joined_at: member.household_members.created_at
+      }))
+    };
+  } catch (error) {
+    console.error('Household lookup failed:', error);
+    throw error;
+  }
+}
+
+// Handler for renaming a household
+export async function renameHousehold(input: RenameHouseholdInput, userId: number): Promise<Household> {
+  try {
+    const { household, membership } = await requireHouseholdRole(input.household_id, userId, 'owner');
+
+    const result = await db.update(householdsTable)
+      .set({
+        name: input.name,
+        updated_at: new Date()
+      })
+      .where(eq(householdsTable.id, input.household_id))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'household',
+      entity_id: input.household_id,
+      before: household,
+      after: result[0]
+    });
+
+    return { ...result[0], role: membership.role };
+  } catch (error) {
+    console.error('Household rename failed:', error);
+    throw error;
+  }
+}
+
+// Handler for deleting a household and everything recorded in it, all or nothing
+export async function deleteHousehold(householdId: number, userId: number): Promise<boolean> {
+  try {
+    const { household } = await requireHouseholdRole(householdId, userId, 'owner');
+
+    const storedFiles = await db.transaction(async (tx) => {
+      const storedFiles = await deleteHouseholdRows(tx, householdId);
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'delete',
+        entity_type: 'household',
+        entity_id: householdId,
+        before: household
+      }, tx);
+
+      return storedFiles;
+    });
+
+    await removeStoredFiles(storedFiles);
+    return true;
+  } catch (error) {
+    console.error('Household deletion failed:', error);
+    throw error;
+  }
+}
+
+// Handler for inviting someone by email; they join by accepting with the emailed token
+export async function inviteHouseholdMember(input: InviteHouseholdMemberInput, userId: number): Promise<HouseholdInvitation> {
+  try {
+    const { household } = await requireHouseholdRole(input.household_id, userId, 'owner');
+
+    const existingMembers = await db.select({ email: usersTable.email })
+      .from(householdMembersTable)
+      .innerJoin(usersTable, eq(householdMembersTable.user_id, usersTable.id))
+      .where(eq(householdMembersTable.household_id, input.household_id))
+      .execute();
+
+    if (existingMembers.some(member => member.email.toLowerCase() === input.email.toLowerCase())) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'This person is already a member of the household' });
+    }
+
+    const inviters = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const token = generateToken();
+
+    const result = await db.insert(householdInvitationsTable)
+      .values({
+        household_id: input.household_id,
+        email: input.email,
+        role: input.role,
+        token_hash: hashToken(token),
+        invited_by: userId,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS)
+      })
+      .returning()
+      .execute();
+
+    const invitation = toHouseholdInvitation(result[0]);
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'household',
+      entity_id: input.household_id,
+      reason: 'member_invited',
+      after: invitation
+    });
+
+    await getMailer().send({
+      to: input.email,
+      subject: `You're invited to the ${household.name} household on EmasTrack`,
+      text: [
+        'Hi,',
+        '',
+        `${inviters[0].name} invited you to share the "${household.name}" gold portfolio on EmasTrack as ${input.role === 'editor' ? 'an editor' : 'a viewer'}.`,
+        `Sign in or create an account with this email address (${input.email}), then open this link within the next 7 days:`,
+        '',
+        appUrl(`/households/join?token=${encodeURIComponent(token)}`),
+        '',
+        'If you were not expecting this, you can ignore this email.'
+      ].join('\n')
+    });
+
+    return invitation;
+  } catch (error) {
+    console.error('Household invitation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for listing a household's pending invitations
+export async function listHouseholdInvitations(householdId: number, userId: number): Promise<HouseholdInvitation[]> {
+  try {
+    await requireHouseholdRole(householdId, userId, 'owner');
+
+    const invitations = await db.select()
+      .from(householdInvitationsTable)
+      .where(and(
+        eq(householdInvitationsTable.household_id, householdId),
+        isNull(householdInvitationsTable.accepted_at),
+        gt(householdInvitationsTable.expires_at, new Date())
+      ))
+      .orderBy(asc(householdInvitationsTable.created_at))
+      .execute();
+
+    return invitations.map(toHouseholdInvitation);
+  } catch (error) {
+    console.error('Household invitation listing failed:', error);
+    throw error;
+  }
+}
+
+// Handler for withdrawing an invitation that has not been accepted yet
+export async function revokeHouseholdInvitation(input: RevokeHouseholdInvitationInput, userId: number): Promise<boolean> {
+  try {
+    const invitations = await db.select()
+      .from(householdInvitationsTable)
+      .where(and(
+        eq(householdInvitationsTable.id, input.invitation_id),
+        isNull(householdInvitationsTable.accepted_at)
+      ))
+      .execute();
+
+    if (invitations.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Invitation not found' });
+    }
+
+    await requireHouseholdRole(invitations[0].household_id, userId, 'owner');
+
+    await db.delete(householdInvitationsTable)
+      .where(eq(householdInvitationsTable.id, input.invitation_id))
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'household',
+      entity_id: invitations[0].household_id,
+      reason: 'invitation_revoked',
+      before: toHouseholdInvitation(invitations[0])
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Household invitation revocation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for joining a household with an invitation token sent to the user's email address
+export async function acceptHouseholdInvitation(input: AcceptHouseholdInvitationInput, userId: number): Promise<Household> {
+  try {
+    return await db.transaction(async (tx) => {
+      // Claim the invitation atomically so it can only ever be used once
+      const claimed = await tx.update(householdInvitationsTable)
+        .set({ accepted_at: new Date() })
+        .where(and(
+          eq(householdInvitationsTable.token_hash, hashToken(input.token)),
+          isNull(householdInvitationsTable.accepted_at),
+          gt(householdInvitationsTable.expires_at, new Date())
+        ))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid or expired invitation' });
+      }
+
+      const invitation = claimed[0];
+
+      const users = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (users.length === 0 || users[0].email.toLowerCase() !== invitation.email.toLowerCase()) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'This invitation was sent to a different email address' });
+      }
+
+      const existing = await tx.select()
+        .from(householdMembersTable)
+        .where(and(
+          eq(householdMembersTable.household_id, invitation.household_id),
+          eq(householdMembersTable.user_id, userId)
+        ))
+        .execute();
+
+      if (existing.length > 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'You are already a member of this household' });
+      }
+
+      const member = await tx.insert(householdMembersTable)
+        .values({
+          household_id: invitation.household_id,
+          user_id: userId,
+          role: invitation.role
+        })
+        .returning()
+        .execute();
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'household',
+        entity_id: invitation.household_id,
+        reason: 'member_joined',
+        after: member[0]
+      }, tx);
+
+      const households = await tx.select()
+        .from(householdsTable)
+        .where(eq(householdsTable.id, invitation.household_id))
+        .execute();
+
+      return { ...households[0], role: invitation.role };
+    });
+  } catch (error) {
+    console.error('Accepting household invitation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for changing a member's role; a household never loses its last owner
+export async function updateHouseholdMember(input: UpdateHouseholdMemberInput, userId: number): Promise<boolean> {
+  try {
+    await requireHouseholdRole(input.household_id, userId, 'owner');
+
+    return await db.transaction(async (tx) => {
+      await lockHousehold(tx, input.household_id);
+      const members = await tx.select()
+        .from(householdMembersTable)
+        .where(and(
+          eq(householdMembersTable.household_id, input.household_id),
+          eq(householdMembersTable.user_id, input.user_id)
+        ))
+        .execute();
+
+      if (members.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Member not found' });
+      }
+
+      if (members[0].role === 'owner' && input.role !== 'owner' && await countOwners(tx, input.household_id) === 1) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'A household needs at least one owner' });
+      }
+
+      const result = await tx.update(householdMembersTable)
+        .set({ role: input.role })
+        .where(eq(householdMembersTable.id, members[0].id))
+        .returning()
+        .execute();
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'household',
+        entity_id: input.household_id,
+        reason: 'member_role_changed',
+        before: members[0],
+        after: result[0]
+      }, tx);
+
+      return true;
+    });
+  } catch (error) {
+    console.error('Household member update failed:', error);
+    throw error;
+  }
+}
+
+// Handler for removing a member, or leaving when the member is the caller
+export async function removeHouseholdMember(input: RemoveHouseholdMemberInput, userId: number): Promise<boolean> {
+  try {
+    await requireHouseholdRole(input.household_id, userId, input.user_id === userId ? 'viewer' : 'owner');
+
+    return await db.transaction(async (tx) => {
+      await lockHousehold(tx, input.household_id);
+      const members = await tx.select()
+        .from(householdMembersTable)
+        .where(and(
+          eq(householdMembersTable.household_id, input.household_id),
+          eq(householdMembersTable.user_id, input.user_id)
+        ))
+        .execute();
+
+      if (members.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Member not found' });
+      }
+
+      if (members[0].role === 'owner' && await countOwners(tx, input.household_id) === 1) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'A household needs at least one owner, make someone else an owner first' });
+      }
+
+      // What the member recorded stays with the household
+      await tx.delete(householdMembersTable)
+        .where(eq(householdMembersTable.id, members[0].id))
+        .execute();
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'household',
+        entity_id: input.household_id,
+        reason: input.user_id === userId ? 'member_left' : 'member_removed',
+        before: members[0]
+      }, tx);
+
+      return true;
+    });
+  } catch (error) {
+    console.error('Household member removal failed:', error);
+    throw error;
+  }
+}
+
+// Helper function to hand the rows a user recorded in a household, and the invitations they sent there, to another member
+async function reassignHouseholdRows(executor: Executor, householdId: number, fromUserId: number, toUserId: number): Promise<void> {
+  await executor.update(goldTransactionsTable)
+    .set({ user_id: toUserId })
+    .where(and(
+      eq(goldTransactionsTable.household_id, householdId),
+      eq(goldTransactionsTable.user_id, fromUserId)
+    ))
+    .execute();
+
+  await executor.update(goldGoalsTable)
+    .set({ user_id: toUserId })
+    .where(and(
+      eq(goldGoalsTable.household_id, householdId),
+      eq(goldGoalsTable.user_id, fromUserId)
+    ))
+    .execute();
+
+  await executor.update(householdInvitationsTable)
+    .set({ invited_by: toUserId })
+    .where(and(
+      eq(householdInvitationsTable.household_id, householdId),
+      eq(householdInvitationsTable.invited_by, fromUserId)
+    ))
+    .execute();
+}
+
+// Helper function to take a user out of every household before their account is purged.
+// Sole owners hand the household to the longest-standing member, or delete it when nobody is left;
+// rows they recorded in shared households, including ones they already left, are reassigned to an owner
+// so the portfolio stays whole. Returns the attachment files of deleted households, to remove from
+// storage after the purge commits.
+export async function detachUserFromHouseholds(executor: Executor, userId: number): Promise<string[]> {
+  const storedFiles: string[] = [];
+  const memberships = await executor.select()
+    .from(householdMembersTable)
+    .where(eq(householdMembersTable.user_id, userId))
+    .execute();
+
+  for (const membership of memberships) {
+    const householdId = membership.household_id;
+
+    const others = await executor.select()
+      .from(householdMembersTable)
+      .where(and(
+        eq(householdMembersTable.household_id, householdId),
+        ne(householdMembersTable.user_id, userId)
+      ))
+      .orderBy(asc(householdMembersTable.created_at), asc(householdMembersTable.id))
+      .execute();
+
+    if (others.length === 0) {
+      storedFiles.push(...await deleteHouseholdRows(executor, householdId));
+      continue;
+    }
+
+    let heir = others.find(member => member.role === 'owner');
+    if (heir === undefined) {
+      heir = others[0];
+      await executor.update(householdMembersTable)
+        .set({ role: 'owner' })
+        .where(eq(householdMembersTable.id, heir.id))
+        .execute();
+    }
+
+    await reassignHouseholdRows(executor, householdId, userId, heir.user_id);
+  }
+
+  if (memberships.length > 0) {
+    await executor.delete(householdMembersTable)
+      .where(inArray(householdMembersTable.id, memberships.map(membership => membership.id)))
+      .execute();
+  }
+
+  // What the user recorded in households they already left stays there too, with the longest-standing owner
+  const leftHouseholds = await executor.selectDistinct({ household_id: goldTransactionsTable.household_id })
+    .from(goldTransactionsTable)
+    .where(and(eq(goldTransactionsTable.user_id, userId), isNotNull(goldTransactionsTable.household_id)))
+    .union(
+      executor.selectDistinct({ household_id: goldGoalsTable.household_id })
+        .from(goldGoalsTable)
+        .where(and(eq(goldGoalsTable.user_id, userId), isNotNull(goldGoalsTable.household_id)))
+    )
+    .execute();
+
+  for (const { household_id: householdId } of leftHouseholds) {
+    const owners = await executor.select()
+      .from(householdMembersTable)
+      .where(and(
+        eq(householdMembersTable.household_id, householdId!),
+        eq(householdMembersTable.role, 'owner')
+      ))
+      .orderBy(asc(householdMembersTable.created_at), asc(householdMembersTable.id))
+      .limit(1)
+      .execute();
+
+    // The last owner cannot leave, so every household still has one
+    if (owners.length > 0) {
+      await reassignHouseholdRows(executor, householdId!, userId, owners[0].user_id);
+    }
+  }
+
+  // Invitations the user sent to households they already left
+  await executor.delete(householdInvitationsTable)
+    .where(eq(householdInvitationsTable.invited_by, userId))
+    .execute();
+
+  return storedFiles;
+}
\ No newline at end of file
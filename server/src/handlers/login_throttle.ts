@@ -0,0 +1,141 @@
+import { db } from '../db';
+import { loginThrottlesTable } from '../db/schema';
+import { eq, inArray, lt, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+interface ThrottlePolicy {
+  freeAttempts: number; // Failures allowed before any delay kicks in
+  lockoutAttempts: number | null; // Failures that lock the key outright (null: backoff only)
+  windowMs: number; // Quiet period after which the counter starts over
+}
+
+// An account gets five free tries, then doubling delays, then a one-hour lock at ten
+const EMAIL_POLICY: ThrottlePolicy = {
+  freeAttempts: 5,
+  lockoutAttempts: 10,
+  windowMs: 24 * 60 * 60 * 1000
+};
+
+// An address may be shared (offices, mobile carriers), so it gets more room and never hard-locks
+const IP_POLICY: ThrottlePolicy = {
+  freeAttempts: 20,
+  lockoutAttempts: null,
+  windowMs: 60 * 60 * 1000
+};
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 60 * 60 * 1000;
+
+// Helper function to build the throttle key for an email (case-insensitive)
+function emailKey(email: string): string {
+  return `email:${email.trim().toLowerCase()}`;
+}
+
+function ipKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+// Helper function to compute how long a key must wait after its latest failure
+function delayAfterFailure(policy: ThrottlePolicy, failedAttempts: number): number {
+  if (policy.lockoutAttempts !== null && failedAttempts >= policy.lockoutAttempts) {
+    return LOCKOUT_MS;
+  }
+  if (failedAttempts < policy.freeAttempts) {
+    return 0;
+  }
+  return Math.min(BACKOFF_BASE_MS * 2 ** (failedAttempts - policy.freeAttempts), BACKOFF_MAX_MS);
+}
+
+// Helper function to count one failure against a key and push its lock out accordingly
+async function recordFailure(key: string, policy: ThrottlePolicy): Promise<void> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - policy.windowMs);
+
+  const result = await db.insert(loginThrottlesTable)
+    .values({
+      key,
+      failed_attempts: 1,
+      last_failed_at: now
+    })
+    .onConflictDoUpdate({
+      target: loginThrottlesTable.key,
+      set: {
+        // A key that has been quiet for a whole window starts counting from scratch
+        failed_attempts: sql`CASE WHEN ${lt(loginThrottlesTable.last_failed_at, windowStart)} THEN 1 ELSE ${loginThrottlesTable.failed_attempts} + 1 END`,
+        last_failed_at: now
+      }
+    })
+    .returning()
+    .execute();
+
+  const delay = delayAfterFailure(policy, result[0].failed_attempts);
+  if (delay > 0) {
+    await db.update(loginThrottlesTable)
+      .set({ locked_until: new Date(now.getTime() + delay) })
+      .where(eq(loginThrottlesTable.id, result[0].id))
+      .execute();
+  }
+}
+
+// Handler for refusing a sign-in while the email or the client address is throttled
+export async function assertSignInAllowed(email: string, ipAddress: string | null): Promise<void> {
+  try {
+    const keys = ipAddress ? [emailKey(email), ipKey(ipAddress)] : [emailKey(email)];
+    const throttles = await db.select()
+      .from(loginThrottlesTable)
+      .where(inArray(loginThrottlesTable.key, keys))
+      .execute();
+
+    const now = Date.now();
+    for (const throttle of throttles) {
+      if (throttle.locked_until === null || throttle.locked_until.getTime() <= now) {
+        continue;
+      }
+
+      if (throttle.key.startsWith('email:')
+        && EMAIL_POLICY.lockoutAttempts !== null
+        && throttle.failed_attempts >= EMAIL_POLICY.lockoutAttempts) {
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: 'This account is temporarily locked after too many failed sign-in attempts. Reset your password to unlock it, or try again later'
+        });
+      }
+
+      const seconds = Math.ceil((throttle.locked_until.getTime() - now) / 1000);
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many failed sign-in attempts, please try again in ${seconds} seconds`
+      });
+    }
+  } catch (error) {
+    console.error('Sign in throttle check failed:', error);
+    throw error;
+  }
+}
+
+// Handler for counting a failed sign-in against both the email and the client address
+export async function recordFailedSignIn(email: string, ipAddress: string | null): Promise<void> {
+  try {
+    await recordFailure(emailKey(email), EMAIL_POLICY);
+    if (ipAddress) {
+      await recordFailure(ipKey(ipAddress), IP_POLICY);
+    }
+  } catch (error) {
+    console.error('Recording failed sign in failed:', error);
+    throw error;
+  }
+}
+
+// Handler for forgetting an email's failures (successful sign-in or password reset).
+// The address counter is left alone so one valid account cannot launder a guessing run.
+export async function clearFailedSignIns(email: string): Promise<void> {
+  try {
+    await db.delete(loginThrottlesTable)
+      .where(eq(loginThrottlesTable.key, emailKey(email)))
+      .execute();
+  } catch (error) {
+    console.error('Clearing failed sign ins failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
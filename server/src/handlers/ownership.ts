@@ -0,0 +1,34 @@
+import { TRPCError } from '@trpc/server';
+import { type HouseholdRole } from '../schema';
+import { requireHouseholdRole } from './households';
+
+// Helper function to check a row looked up by id belongs to the caller.
+// A missing row is NOT_FOUND; a row owned by someone else is FORBIDDEN.
+export function assertOwnership<T extends { user_id: number }>(rows: T[], userId: number, entity: string, id: number): T {
+  if (rows.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `${entity} with id ${id} not found` });
+  }
+
+  if (rows[0].user_id !== userId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `${entity} with id ${id} belongs to another user` });
+  }
+
+  return rows[0];
+}
+
+// Helper function to check the caller may act on a row that may belong to a household.
+// Personal rows follow assertOwnership; household rows need at least the given role in the household.
+export async function assertPortfolioAccess<T extends { user_id: number; household_id: number | null }>(
+  rows: T[],
+  userId: number,
+  entity: string,
+  id: number,
+  minimum: HouseholdRole
+): Promise<T> {
+  if (rows.length === 0 || rows[0].household_id === null) {
+    return assertOwnership(rows, userId, entity, id);
+  }
+
+  await requireHouseholdRole(rows[0].household_id, userId, minimum);
+  return rows[0];
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { db } from '../db';
+import { passwordResetTokensTable, sessionsTable, apiTokensTable, usersTable } from '../db/schema';
+import { type RequestPasswordResetInput, type ResetPasswordInput } from '../schema';
+import { eq, and, gt, isNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { generateToken, hashToken } from '../services/tokens';
+import { getMailer, appUrl } from '../services/mailer';
+import { toPublicUser } from './auth';
+import { clearFailedSignIns } from './login_throttle';
+import { recordAuditEvent } from './audit';
+
+// Reset links are valid for one hour
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Handler for starting a password reset (always succeeds, so it cannot be used to probe emails)
+export async function requestPasswordReset(input: RequestPasswordResetInput): Promise<boolean> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (users.length === 0) {
+      return true;
+    }
+
+    const user = users[0];
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS);
+
+    await db.insert(passwordResetTokensTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        expires_at: expiresAt
+      })
+      .execute();
+
+    await getMailer().send({
+      to: user.email,
+      subject: 'Reset your EmasTrack password',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'Someone (hopefully you) asked to reset the password for your EmasTrack account.',
+        `Open this link within the next hour to choose a new password:`,
+        '',
+        appUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+        '',
+        'Choosing a new password also unlocks your account if it was locked after too many failed sign-in attempts.',
+        '',
+        'If you did not request this, you can ignore this email.'
+      ].join('\n')
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+// Handler for redeeming a reset token and setting a new password
+export async function resetPassword(input: ResetPasswordInput): Promise<boolean> {
+  try {
+    const passwordHash = await Bun.password.hash(input.password);
+
+    const user = await db.transaction(async (tx) => {
+      // Claim the token atomically so it can only ever be used once
+      const claimed = await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(passwordResetTokensTable.token_hash, hashToken(input.token)),
+          isNull(passwordResetTokensTable.used_at),
+          gt(passwordResetTokensTable.expires_at, new Date())
+        ))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid or expired password reset token' });
+      }
+
+      const userId = claimed[0].user_id;
+
+      const previous = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const updated = await tx.update(usersTable)
+        .set({
+          password_hash: passwordHash,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+
+      // Any other outstanding links for this user are now stale
+      await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(passwordResetTokensTable.user_id, userId),
+          isNull(passwordResetTokensTable.used_at)
+        ))
+        .execute();
+
+      // Whoever knew the old password is signed out everywhere, and loses any API token they minted with it
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, userId))
+        .execute();
+      await tx.delete(apiTokensTable)
+        .where(eq(apiTokensTable.user_id, userId))
+        .execute();
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'user',
+        entity_id: userId,
+        reason: 'password_reset',
+        before: toPublicUser(previous[0]),
+        after: toPublicUser(updated[0])
+      }, tx);
+
+      return updated[0];
+    });
+
+    // Proving control of the inbox lifts any sign-in lockout on the account
+    await clearFailedSignIns(user.email);
+
+    return true;
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
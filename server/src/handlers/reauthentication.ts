@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { usersTable, type User } from '../db/schema';
+import { type ReauthenticationInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { verifyGoogleIdToken, GoogleIdTokenError } from '../services/google_id_token';
+import { GOOGLE_OAUTH_PASSWORD_PLACEHOLDER } from './auth';
+import { acceptSecondFactor } from './two_factor';
+import { assertSignInAllowed, recordFailedSignIn, clearFailedSignIns } from './login_throttle';
+import { getRequestScope } from '../services/request_scope';
+
+// A Google ID token only counts as re-authentication if it was minted in the last ten minutes
+const GOOGLE_REAUTH_MAX_AGE_SECONDS = 10 * 60;
+
+// Helper function to check a fresh Google ID token belongs to the account
+async function acceptGoogleIdToken(user: User, idToken: string): Promise<boolean> {
+  if (user.google_id === null) {
+    return false;
+  }
+
+  try {
+    const claims = await verifyGoogleIdToken(idToken);
+    return claims.sub === user.google_id
+      && Date.now() / 1000 - claims.iat <= GOOGLE_REAUTH_MAX_AGE_SECONDS;
+  } catch (error) {
+    if (error instanceof GoogleIdTokenError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Handler for confirming the signed-in user is really at the keyboard before a sensitive change.
+// Failures count against the sign-in throttle, so a stolen session cannot be used to guess the password or code
+export async function verifyReauthentication(userId: number, input: ReauthenticationInput): Promise<User> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+    const ipAddress = getRequestScope()?.ipAddress ?? null;
+    await assertSignInAllowed(user.email, ipAddress);
+
+    const hasPassword = user.password_hash !== GOOGLE_OAUTH_PASSWORD_PLACEHOLDER;
+
+    let firstFactor = false;
+    if (input.password !== undefined && hasPassword) {
+      firstFactor = await Bun.password.verify(input.password, user.password_hash);
+    } else if (input.id_token !== undefined) {
+      firstFactor = await acceptGoogleIdToken(user, input.id_token);
+    } else if (input.password === undefined) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: hasPassword ? 'Please confirm your password' : 'Please confirm with your Google account'
+      });
+    }
+
+    if (!firstFactor) {
+      await recordFailedSignIn(user.email, ipAddress);
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Re-authentication failed' });
+    }
+
+    if (user.totp_enabled_at !== null) {
+      if (!input.code) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Please enter your authentication code' });
+      }
+      if (!await acceptSecondFactor(user, input.code, true)) {
+        await recordFailedSignIn(user.email, ipAddress);
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid authentication code' });
+      }
+    }
+
+    await clearFailedSignIns(user.email);
+
+    return user;
+  } catch (error) {
+    console.error('Re-authentication failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { db } from '../db';
+import { sessionsTable, usersTable, type Session } from '../db/schema';
+import { type User, type SessionInfo, type RenameSessionInput, type RevokeSessionInput } from '../schema';
+import { eq, and, gt, lte, ne, desc } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { generateToken, hashToken } from '../services/tokens';
+import { recordAuditEvent } from './audit';
+
+// Sessions stay valid for 30 days unless configured otherwise
+const SESSION_TTL_DAYS = parseInt(process.env['SESSION_TTL_DAYS'] || '30', 10);
+
+// last_seen_at is refreshed at most once a minute so every request is not a write
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+export interface IssuedSession {
+  token: string;
+  expires_at: Date;
+}
+
+// Where a session is being opened from
+export interface SessionClient {
+  user_agent?: string | null;
+  ip_address?: string | null;
+}
+
+// Helper function to describe a session in the audit log without its token hash
+function auditSnapshot(session: Session) {
+  return {
+    id: session.id,
+    name: session.name,
+    user_agent: session.user_agent,
+    ip_address: session.ip_address,
+    expires_at: session.expires_at
+  };
+}
+
+// Handler for issuing a new session token for a user
+export async function createSession(userId: number, client: SessionClient = {}): Promise<IssuedSession> {
+  try {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: hashToken(token),
+        user_agent: client.user_agent || null,
+        ip_address: client.ip_address || null,
+        expires_at: expiresAt
+      })
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'create',
+      entity_type: 'session',
+      entity_id: result[0].id,
+      reason: 'sign_in',
+      after: auditSnapshot(result[0])
+    });
+
+    return {
+      token,
+      expires_at: expiresAt
+    };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for resolving the user behind a session token
+export async function getSessionUser(token: string): Promise<User | null> {
+  try {
+    // Only unexpired sessions resolve to a user
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.token_hash, hashToken(token)),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const session = results[0].sessions;
+    if (Date.now() - session.last_seen_at.getTime() >= LAST_SEEN_RESOLUTION_MS) {
+      await db.update(sessionsTable)
+        .set({ last_seen_at: new Date() })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+    }
+
+    return results[0].users;
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+}
+
+// Handler for ending a session (sign out)
+export async function deleteSession(token: string): Promise<boolean> {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .returning()
+      .execute();
+
+    if (result.length > 0) {
+      await recordAuditEvent({
+        user_id: result[0].user_id,
+        action: 'delete',
+        entity_type: 'session',
+        entity_id: result[0].id,
+        reason: 'sign_out',
+        before: auditSnapshot(result[0])
+      });
+    }
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Session deletion failed:', error);
+    throw error;
+  }
+}
+
+// Handler for removing expired sessions
+export async function deleteExpiredSessions(): Promise<number> {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(lte(sessionsTable.expires_at, new Date()))
+      .returning()
+      .execute();
+
+    return result.length;
+  } catch (error) {
+    console.error('Expired session cleanup failed:', error);
+    throw error;
+  }
+}
+
+// Handler for listing a user's active sessions, most recently used first
+export async function listSessions(userId: number, currentToken: string | null): Promise<SessionInfo[]> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(sessionsTable.last_seen_at))
+      .execute();
+
+    const currentHash = currentToken ? hashToken(currentToken) : null;
+
+    return sessions.map(session => ({
+      id: session.id,
+      name: session.name,
+      user_agent: session.user_agent,
+      ip_address: session.ip_address,
+      created_at: session.created_at,
+      last_seen_at: session.last_seen_at,
+      expires_at: session.expires_at,
+      current: session.token_hash === currentHash
+    }));
+  } catch (error) {
+    console.error('Session listing failed:', error);
+    throw error;
+  }
+}
+
+// Handler for labelling one of the user's sessions (e.g. "Work laptop")
+export async function renameSession(input: RenameSessionInput, userId: number): Promise<boolean> {
+  try {
+    const existing = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, input.id),
+        eq(sessionsTable.user_id, userId)
+      ))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Session not found' });
+    }
+
+    const result = await db.update(sessionsTable)
+      .set({ name: input.name })
+      .where(eq(sessionsTable.id, input.id))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'session',
+      entity_id: input.id,
+      before: auditSnapshot(existing[0]),
+      after: auditSnapshot(result[0])
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Session rename failed:', error);
+    throw error;
+  }
+}
+
+// Handler for signing one of the user's sessions out remotely
+export async function revokeSession(input: RevokeSessionInput, userId: number): Promise<boolean> {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, input.id),
+        eq(sessionsTable.user_id, userId)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Session not found' });
+    }
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'delete',
+      entity_type: 'session',
+      entity_id: input.id,
+      reason: 'session_revoked',
+      before: auditSnapshot(result[0])
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for signing out everywhere except the session making the request
+export async function revokeAllOtherSessions(userId: number, currentToken: string | null): Promise<number> {
+  try {
+    const conditions = [eq(sessionsTable.user_id, userId)];
+    if (currentToken) {
+      conditions.push(ne(sessionsTable.token_hash, hashToken(currentToken)));
+    }
+
+    const result = await db.delete(sessionsTable)
+      .where(and(...conditions))
+      .returning()
+      .execute();
+
+    for (const session of result) {
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'delete',
+        entity_type: 'session',
+        entity_id: session.id,
+        reason: 'session_revoked',
+        before: auditSnapshot(session)
+      });
+    }
+
+    return result.length;
+  } catch (error) {
+    console.error('Revoking other sessions failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,318 @@
+import { db } from '../db';
+import { goldTransactionsTable } from '../db/schema';
+import {
+  type ImportMapping,
+  type ImportPreview,
+  type ImportPreviewRow,
+  type ImportCommitResult,
+  type ImportCommitRow,
+  type TransactionImportInput,
+  type TransactionImportCommitInput
+} from '../schema';
+import { and, gte, lt } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { requireHouseholdRole, portfolioCondition } from './households';
+import { recordAuditEvent } from './audit';
+import { getReportingCurrency } from './fx_rates';
+import { getPortfolioLedger, lockPortfolio, toTransactionValues, toLedgerEntry, describeShortfall, assertConvertible } from './transactions';
+import { parseCsv, type CsvRecord } from '../services/csv';
+import { readImportRow, duplicateKey, type ImportColumns } from '../services/transaction_import';
+import { findLedgerShortfall } from '../services/holdings_ledger';
+import { startOfUtcDay } from '../services/fx_rates';
+
+// Rows beyond this are better split into several files
+const MAX_IMPORT_ROWS = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A file has to have these; the other mapped columns are read as not given when the file lacks them
+const REQUIRED_FIELDS: Array<keyof ImportMapping> = ['type', 'weight_grams', 'price_per_gram', 'transaction_date'];
+
+// Helper function to find the record position of every mapped column
+function resolveColumns(mapping: ImportMapping, header: string[] | null): ImportColumns {
+  const columns: ImportColumns = {};
+  const names = header?.map(name => name.trim().toLowerCase()) ?? null;
+
+  for (const [field, column] of Object.entries(mapping) as Array<[keyof ImportMapping, ImportMapping[keyof ImportMapping]]>) {
+    if (column === undefined) {
+      continue;
+    }
+    if (typeof column === 'number') {
+      columns[field] = column;
+      continue;
+    }
+    if (names === null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Columns can only be mapped by name when the file has a header row' });
+    }
+
+    const index = names.indexOf(column.toLowerCase());
+    if (index === -1 && !REQUIRED_FIELDS.includes(field)) {
+      continue;
+    }
+    if (index === -1) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Column "${column}" is not in the header row` });
+    }
+    columns[field] = index;
+  }
+
+  return columns;
+}
+
+// Helper function to parse the file into records, leaving out the header row
+function readRecords(input: TransactionImportInput): { header: string[] | null; records: CsvRecord[] } {
+  let records: CsvRecord[];
+  try {
+    records = parseCsv(input.csv, input.delimiter);
+  } catch (error) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: (error as Error).message });
+  }
+
+  const header = input.has_header ? records.shift()?.fields ?? null : null;
+
+  if (records.length === 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'The file has no rows to import' });
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `A file can hold at most ${MAX_IMPORT_ROWS} rows` });
+  }
+
+  return { header, records };
+}
+
+// Helper function to load the portfolio's transactions on the days the file covers, keyed for duplicate matching
+async function getExistingKeys(userId: number, householdId: number | null, dates: Date[]): Promise<Map<string, number>> {
+  const keys = new Map<string, number>();
+  if (dates.length === 0) {
+    return keys;
+  }
+
+  const times = dates.map(date => date.getTime());
+  const rows = await db.select({
+    id: goldTransactionsTable.id,
+    type: goldTransactionsTable.type,
+    transaction_date: goldTransactionsTable.transaction_date,
+    weight_grams: goldTransactionsTable.weight_grams,
+    price_per_gram: goldTransactionsTable.price_per_gram
+  })
+    .from(goldTransactionsTable)
+    .where(and(
+      portfolioCondition(goldTransactionsTable, userId, householdId),
+      gte(goldTransactionsTable.transaction_date, startOfUtcDay(new Date(Math.min(...times)))),
+      lt(goldTransactionsTable.transaction_date, new Date(startOfUtcDay(new Date(Math.max(...times))).getTime() + DAY_MS))
+    ))
+    .execute();
+
+  for (const row of rows) {
+    const key = duplicateKey({
+      ...row,
+      weight_grams: parseFloat(row.weight_grams),
+      price_per_gram: parseFloat(row.price_per_gram)
+    });
+    if (!keys.has(key)) {
+      keys.set(key, row.id);
+    }
+  }
+
+  return keys;
+}
+
+// Helper function to read and check every row of an import: parse errors and values the create path would
+// refuse make a row invalid, and rows matching an existing transaction or an earlier row are flagged
+async function previewRows(input: TransactionImportInput, userId: number): Promise<ImportPreviewRow[]> {
+  // Importing into a household needs edit access there
+  if (input.household_id !== undefined) {
+    await requireHouseholdRole(input.household_id, userId, 'editor');
+  }
+
+  const householdId = input.household_id ?? null;
+  const { header, records } = readRecords(input);
+  const columns = resolveColumns(input.mapping, header);
+  const reportingCurrency = await getReportingCurrency(userId);
+
+  const rows: ImportPreviewRow[] = records.map(record => {
+    const { transaction, errors } = readImportRow(record.fields, columns, input);
+
+    // Purity given twice, or costs larger than the sale, are only caught when the row is worked out
+    if (transaction !== null) {
+      try {
+        toTransactionValues(transaction, userId, reportingCurrency);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+
+    return {
+      row_number: record.row_number,
+      status: errors.length > 0 ? 'invalid' : 'valid',
+      errors,
+      duplicate_of_transaction_id: null,
+      duplicate_of_row: null,
+      transaction: errors.length > 0 ? null : transaction
+    };
+  });
+
+  // Amounts in a currency without a rate at the row's date could not be valued later, as createTransaction refuses them
+  const conversionErrors = new Map<string, string | null>();
+  for (const row of rows) {
+    if (row.transaction === null || row.transaction.currency === undefined) {
+      continue;
+    }
+
+    const { currency, transaction_date: date } = row.transaction;
+    const key = `${currency}:${date.toISOString().slice(0, 10)}`;
+    if (!conversionErrors.has(key)) {
+      try {
+        await assertConvertible(currency, reportingCurrency, date);
+        conversionErrors.set(key, null);
+      } catch (error) {
+        if (!(error instanceof TRPCError)) {
+          throw error;
+        }
+        conversionErrors.set(key, error.message);
+      }
+    }
+
+    const conversionError = conversionErrors.get(key);
+    if (conversionError) {
+      row.status = 'invalid';
+      row.errors.push(conversionError);
+      row.transaction = null;
+    }
+  }
+
+  const dates = rows.flatMap(row => row.transaction ? [row.transaction.transaction_date] : []);
+  const existing = await getExistingKeys(userId, householdId, dates);
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    if (row.transaction === null) {
+      continue;
+    }
+
+    const key = duplicateKey(row.transaction);
+    const existingId = existing.get(key);
+    const earlierRow = seen.get(key);
+    if (existingId !== undefined || earlierRow !== undefined) {
+      row.status = 'duplicate';
+      row.duplicate_of_transaction_id = existingId ?? null;
+      row.duplicate_of_row = earlierRow ?? null;
+    }
+    if (earlierRow === undefined) {
+      seen.set(key, row.row_number);
+    }
+  }
+
+  // Sales in the file have to be covered by what is held, counting the purchases before them in the file.
+  // Each uncovered sale is marked and left out of the replay, which runs again until every remaining sale is covered
+  const ledger = await getPortfolioLedger(userId, householdId);
+  const valid = rows.filter(row => row.status === 'valid');
+  const firstId = Number.MAX_SAFE_INTEGER - valid.length;
+  let entries = [
+    ...ledger,
+    ...valid.map((row, index) => toLedgerEntry(toTransactionValues(row.transaction!, userId, reportingCurrency), firstId + index))
+  ];
+
+  for (let shortfall = findLedgerShortfall(entries); shortfall !== null; shortfall = findLedgerShortfall(entries)) {
+    const { entry } = shortfall;
+    const uncovered = valid[entry.id - firstId];
+    if (uncovered !== undefined) {
+      uncovered.status = 'invalid';
+      uncovered.errors.push(describeShortfall(shortfall));
+      uncovered.transaction = null;
+    }
+    entries = entries.filter(other => other !== entry);
+  }
+
+  return rows;
+}
+
+// Handler for checking a CSV file before importing it; nothing is stored
+export async function previewTransactionImport(input: TransactionImportInput, userId: number): Promise<ImportPreview> {
+  try {
+    const rows = await previewRows(input, userId);
+
+    return {
+      rows,
+      valid: rows.filter(row => row.status === 'valid').length,
+      invalid: rows.filter(row => row.status === 'invalid').length,
+      duplicates: rows.filter(row => row.status === 'duplicate').length
+    };
+  } catch (error) {
+    console.error('Transaction import preview failed:', error);
+    throw error;
+  }
+}
+
+// Handler for importing a CSV file: valid rows, and flagged duplicates the user chose to keep, are inserted
+// together or not at all; invalid rows are skipped and reported
+export async function commitTransactionImport(input: TransactionImportCommitInput, userId: number): Promise<ImportCommitResult> {
+  try {
+    const rows = await previewRows(input, userId);
+    const reportingCurrency = await getReportingCurrency(userId);
+    const included = new Set(input.include_duplicate_rows);
+
+    const accepted = rows.filter(row => row.status === 'valid' || (row.status === 'duplicate' && included.has(row.row_number)));
+    const values = accepted.map(row => toTransactionValues(row.transaction!, userId, reportingCurrency));
+
+    const importedIds = await db.transaction(async (tx) => {
+      // Duplicates kept on top of the preview's valid rows can change what is held, so check the whole batch again
+      await lockPortfolio(tx, userId, input.household_id ?? null);
+      const ledger = await getPortfolioLedger(userId, input.household_id ?? null, tx);
+      const firstId = Number.MAX_SAFE_INTEGER - values.length;
+      const shortfall = findLedgerShortfall([...ledger, ...values.map((row, index) => toLedgerEntry(row, firstId + index))]);
+      if (shortfall !== null) {
+        const row = accepted[shortfall.entry.id - firstId];
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: row ? `Row ${row.row_number}: ${describeShortfall(shortfall)}` : describeShortfall(shortfall)
+        });
+      }
+
+      const ids = new Map<number, number>();
+
+      for (const [index, row] of accepted.entries()) {
+        const result = await tx.insert(goldTransactionsTable)
+          .values(values[index])
+          .returning()
+          .execute();
+
+        const transaction = result[0];
+        ids.set(row.row_number, transaction.id);
+
+        await recordAuditEvent({
+          user_id: userId,
+          action: 'create',
+          entity_type: 'transaction',
+          entity_id: transaction.id,
+          reason: 'import',
+          after: transaction
+        }, tx);
+      }
+
+      return ids;
+    });
+
+    const report: ImportCommitRow[] = rows.map(row => {
+      const transactionId = importedIds.get(row.row_number);
+      if (transactionId !== undefined) {
+        return { row_number: row.row_number, status: 'imported', transaction_id: transactionId, reason: null };
+      }
+
+      return {
+        row_number: row.row_number,
+        status: 'skipped',
+        transaction_id: null,
+        reason: row.status === 'duplicate' ? 'Looks like a duplicate' : row.errors.join('; ')
+      };
+    });
+
+    return {
+      rows: report,
+      imported: importedIds.size,
+      skipped: report.length - importedIds.size
+    };
+  } catch (error) {
+    console.error('Transaction import failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
@@ -1,36 +1,252 @@
 import { db } from '../db';
-import { goldTransactionsTable, usersTable } from '../db/schema';
-import { type CreateTransactionInput, type UpdateTransactionInput, type GoldTransaction } from '../schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { goldTransactionsTable, usersTable, householdsTable, type NewGoldTransaction } from '../db/schema';
+import {
+  type CreateTransactionInput,
+  type UpdateTransactionInput,
+  type GoldTransaction,
+  type HouseholdRole,
+  type ListTransactionsInput,
+  type TransactionPage,
+  type TransactionSortField,
+  type CostComponent
+} from '../schema';
+import { eq, and, or, gt, gte, lt, lte, asc, desc, count, sum, sql, isNull, isNotNull, type SQL } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { assertPortfolioAccess } from './ownership';
+import { requireHouseholdRole, portfolioCondition } from './households';
+import { recordAuditEvent } from './audit';
+import { findLedgerShortfall, type LedgerEntry, type LedgerShortfall } from '../services/holdings_ledger';
+import { karatToFineness, fineWeightGrams, PURE_FINENESS } from '../services/purity';
+import { convertAmount, getReportingCurrency } from './fx_rates';
+import { computeTotalPrice } from '../services/transaction_costs';
+
+// Helper function to load a transaction the user may access (NOT_FOUND / FORBIDDEN otherwise);
+// household transactions need at least the given role in the household. Trashed transactions count
+// as missing unless inTrash is set, which looks only in the trash
+export async function getOwnedTransaction(transactionId: number, userId: number, minimum: HouseholdRole = 'viewer', inTrash: boolean = false) {
+  const transactions = await db.select()
+    .from(goldTransactionsTable)
+    .where(and(
+      eq(goldTransactionsTable.id, transactionId),
+      inTrash ? isNotNull(goldTransactionsTable.deleted_at) : isNull(goldTransactionsTable.deleted_at)
+    ))
+    .execute();
+
+  return assertPortfolioAccess(transactions, userId, 'Transaction', transactionId, minimum);
+}
+
+// Helper function to load every buy and sell in a portfolio for replaying its running balance
+export async function getPortfolioLedger(userId: number, householdId: number | null, executor: Pick<typeof db, 'select'> = db): Promise<LedgerEntry[]> {
+  const rows = await executor.select({
+    id: goldTransactionsTable.id,
+    type: goldTransactionsTable.type,
+    fine_weight_grams: goldTransactionsTable.fine_weight_grams,
+    transaction_date: goldTransactionsTable.transaction_date
+  })
+    .from(goldTransactionsTable)
+    .where(portfolioCondition(goldTransactionsTable, userId, householdId))
+    .execute();
+
+  return rows.map(row => ({
+    ...row,
+    fine_weight_grams: parseFloat(row.fine_weight_grams)
+  }));
+}
+
+// Helper function to serialise the writes that can take a portfolio's holdings down, for the rest of the surrounding
+// database transaction: the owning household's or user's row is locked, so two such writes cannot both pass the
+// ledger check on the same balance
+export async function lockPortfolio(tx: Pick<typeof db, 'select'>, userId: number, householdId: number | null): Promise<void> {
+  if (householdId !== null) {
+    await tx.select({ id: householdsTable.id })
+      .from(householdsTable)
+      .where(eq(householdsTable.id, householdId))
+      .for('no key update')
+      .execute();
+    return;
+  }
+
+  await tx.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .for('no key update')
+    .execute();
+}
+
+// Helper function to explain why a sell cannot go through
+export function describeShortfall(shortfall: LedgerShortfall): string {
+  const date = shortfall.entry.transaction_date.toISOString().slice(0, 10);
+  return `Not enough gold for the sale on ${date}: it sells ${shortfall.entry.fine_weight_grams} g of fine gold but only ${shortfall.held_grams} g is held at that date`;
+}
+
+// Helper function to reject a ledger in which some sell is larger than the gold held at its date
+function assertLedgerCoversSells(entries: LedgerEntry[]): void {
+  const shortfall = findLedgerShortfall(entries);
+  if (shortfall !== null) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: describeShortfall(shortfall) });
+  }
+}
+
+// Helper function to make sure a transaction's amounts can be valued: reads convert them into the reporting
+// currency at the transaction's date, and one without a rate would break every total of its portfolio
+export async function assertConvertible(currency: string, reportingCurrency: string, date: Date): Promise<void> {
+  try {
+    await convertAmount(1, currency, reportingCurrency, date);
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+    }
+    throw error;
+  }
+}
+
+// Helper function to read the purity given as karat or fineness, undefined when neither is given
+function resolveFineness(karat: number | undefined, fineness: number | undefined): number | undefined {
+  if (karat !== undefined && fineness !== undefined) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Give the purity as karat or fineness, not both' });
+  }
+  return karat !== undefined ? karatToFineness(karat) : fineness;
+}
+
+// Helper function to settle total_price: what was actually paid when given, otherwise the metal cost with the
+// cost components added (or, for a sale, taken off)
+function resolveTotalPrice(type: 'buy' | 'sell', weightGrams: number, pricePerGram: number, components: CostComponent[], asPaid: number | null): number {
+  const metalCost = Math.round((weightGrams * pricePerGram) * 100) / 100;
+  const totalPrice = asPaid ?? computeTotalPrice(type, metalCost, components);
+
+  if (totalPrice <= 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'The costs of this sale come to more than the gold brings in' });
+  }
+
+  return totalPrice;
+}
+
+// Helper function to turn create input into the row to insert, with purity and total price settled
+export function toTransactionValues(input: CreateTransactionInput, userId: number, defaultCurrency: string) {
+  const fineness = resolveFineness(input.karat, input.fineness) ?? PURE_FINENESS;
+  const costComponents = input.cost_components ?? [];
+  const totalPrice = resolveTotalPrice(input.type, input.weight_grams, input.price_per_gram, costComponents, input.total_price ?? null);
+
+  return {
+    user_id: userId,
+    household_id: input.household_id ?? null,
+    type: input.type,
+    weight_grams: input.weight_grams.toString(),
+    fineness: fineness.toString(),
+    price_per_gram: input.price_per_gram.toString(),
+    cost_components: costComponents,
+    total_price: totalPrice.toString(),
+    total_price_as_paid: input.total_price !== undefined,
+    currency: input.currency ?? defaultCurrency,
+    item_form: input.item_form ?? null,
+    brand: input.brand ?? null,
+    transaction_date: input.transaction_date,
+    description: input.description || null
+  } satisfies NewGoldTransaction;
+}
+
+// Helper function to place a row that is not stored yet in the ledger
+export function toLedgerEntry(values: ReturnType<typeof toTransactionValues>, id: number): LedgerEntry {
+  return {
+    id,
+    type: values.type,
+    fine_weight_grams: fineWeightGrams(parseFloat(values.weight_grams), parseFloat(values.fineness)),
+    transaction_date: values.transaction_date
+  };
+}
+
+// Columns the transaction list can be sorted by; id breaks ties so paging is stable
+const SORT_COLUMNS = {
+  transaction_date: goldTransactionsTable.transaction_date,
+  weight_grams: goldTransactionsTable.weight_grams,
+  price_per_gram: goldTransactionsTable.price_per_gram,
+  total_price: goldTransactionsTable.total_price
+};
+
+// Position in a sorted list: the sort value and id of the last row on the previous page
+interface TransactionCursor {
+  sort_by: TransactionSortField;
+  direction: 'asc' | 'desc';
+  value: string;
+  id: number;
+}
+
+// Helper function to encode the position after a row as an opaque cursor
+function encodeCursor(cursor: TransactionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Helper function to read a cursor back, rejecting one made for a different sort order or whose position
+// is not a value of the sort column
+function decodeCursor(raw: string, sortBy: TransactionSortField, direction: 'asc' | 'desc'): TransactionCursor {
+  let cursor: Partial<TransactionCursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+
+  if (cursor === null || typeof cursor !== 'object'
+    || cursor.sort_by !== sortBy || cursor.direction !== direction
+    || typeof cursor.value !== 'string' || !Number.isInteger(cursor.id)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+
+  const validValue = sortBy === 'transaction_date'
+    ? !Number.isNaN(new Date(cursor.value).getTime())
+    : /^-?\d+(\.\d+)?$/.test(cursor.value);
+  if (!validValue) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+
+  return cursor as TransactionCursor;
+}
 
 // Handler for creating a new gold transaction
-export async function createTransaction(input: CreateTransactionInput): Promise<GoldTransaction> {
+export async function createTransaction(input: CreateTransactionInput, userId: number): Promise<GoldTransaction> {
   try {
+    // Recording into a household needs edit access there
+    if (input.household_id !== undefined) {
+      await requireHouseholdRole(input.household_id, userId, 'editor');
+    }
 
-    // Calculate total price with proper precision handling
-    const totalPrice = Math.round((input.weight_grams * input.price_per_gram) * 100) / 100;
-
-    // Insert new transaction
-    const result = await db.insert(goldTransactionsTable)
-      .values({
-        user_id: input.user_id,
-        type: input.type,
-        weight_grams: input.weight_grams.toString(),
-        price_per_gram: input.price_per_gram.toString(),
-        total_price: totalPrice.toString(),
-        transaction_date: input.transaction_date,
-        description: input.description || null
-      })
-      .returning()
-      .execute();
+    const reportingCurrency = await getReportingCurrency(userId);
+    const values = toTransactionValues(input, userId, reportingCurrency);
+    await assertConvertible(values.currency, reportingCurrency, values.transaction_date);
+
+    const transaction = await db.transaction(async (tx) => {
+      // A sale has to be covered by what the portfolio holds at its date; a new row sorts after existing ones on the same instant
+      if (input.type === 'sell') {
+        await lockPortfolio(tx, userId, values.household_id);
+        const ledger = await getPortfolioLedger(userId, values.household_id, tx);
+        assertLedgerCoversSells([...ledger, toLedgerEntry(values, Number.MAX_SAFE_INTEGER)]);
+      }
+
+      // Insert new transaction
+      const result = await tx.insert(goldTransactionsTable)
+        .values(values)
+        .returning()
+        .execute();
 
-    const transaction = result[0];
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'create',
+        entity_type: 'transaction',
+        entity_id: result[0].id,
+        after: result[0]
+      }, tx);
+
+      return result[0];
+    });
 
     // Convert numeric fields back to numbers
     return {
       ...transaction,
       weight_grams: parseFloat(transaction.weight_grams),
+      fineness: parseFloat(transaction.fineness),
+      fine_weight_grams: parseFloat(transaction.fine_weight_grams),
       price_per_gram: parseFloat(transaction.price_per_gram),
+      metal_cost: parseFloat(transaction.metal_cost),
       total_price: parseFloat(transaction.total_price)
     };
   } catch (error) {
@@ -40,65 +256,129 @@ export async function createTransaction(input: CreateTransactionInput): Promise<
 }
 
 // Handler for updating an existing gold transaction
-export async function updateTransaction(input: UpdateTransactionInput): Promise<GoldTransaction> {
+export async function updateTransaction(input: UpdateTransactionInput, userId: number): Promise<GoldTransaction> {
   try {
-    // First, get the existing transaction
-    const existingTransactions = await db.select()
-      .from(goldTransactionsTable)
-      .where(eq(goldTransactionsTable.id, input.id))
-      .execute();
+    // First, get the existing transaction and make sure the user may edit it
+    const ownedTransaction = await getOwnedTransaction(input.id, userId, 'editor');
 
-    if (existingTransactions.length === 0) {
-      throw new Error('Transaction not found');
+    if (input.currency !== undefined || input.transaction_date !== undefined) {
+      await assertConvertible(
+        input.currency ?? ownedTransaction.currency,
+        await getReportingCurrency(userId),
+        input.transaction_date ?? ownedTransaction.transaction_date
+      );
     }
 
-    const existingTransaction = existingTransactions[0];
+    const updatedTransaction = await db.transaction(async (tx) => {
+      // Read the row again under the portfolio lock, so the edit is checked against what it actually changes
+      await lockPortfolio(tx, ownedTransaction.user_id, ownedTransaction.household_id);
+      const current = await tx.select()
+        .from(goldTransactionsTable)
+        .where(and(eq(goldTransactionsTable.id, input.id), isNull(goldTransactionsTable.deleted_at)))
+        .execute();
 
-    // Prepare update values
-    const updateValues: any = {
-      updated_at: new Date()
-    };
+      if (current.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Transaction with id ${input.id} not found` });
+      }
+      const existingTransaction = current[0];
 
-    // Only include fields that are provided
-    if (input.type !== undefined) {
-      updateValues.type = input.type;
-    }
-    if (input.weight_grams !== undefined) {
-      updateValues.weight_grams = input.weight_grams.toString();
-    }
-    if (input.price_per_gram !== undefined) {
-      updateValues.price_per_gram = input.price_per_gram.toString();
-    }
-    if (input.transaction_date !== undefined) {
-      updateValues.transaction_date = input.transaction_date;
-    }
-    if (input.description !== undefined) {
-      updateValues.description = input.description;
-    }
+      // Prepare update values
+      const updateValues: any = {
+        updated_at: new Date()
+      };
 
-    // Recalculate total_price if weight or price changed
-    const finalWeightGrams = input.weight_grams !== undefined ? input.weight_grams : parseFloat(existingTransaction.weight_grams);
-    const finalPricePerGram = input.price_per_gram !== undefined ? input.price_per_gram : parseFloat(existingTransaction.price_per_gram);
-    
-    if (input.weight_grams !== undefined || input.price_per_gram !== undefined) {
-      const recalculatedTotal = Math.round((finalWeightGrams * finalPricePerGram) * 100) / 100;
-      updateValues.total_price = recalculatedTotal.toString();
-    }
+      // Only include fields that are provided
+      if (input.type !== undefined) {
+        updateValues.type = input.type;
+      }
+      if (input.weight_grams !== undefined) {
+        updateValues.weight_grams = input.weight_grams.toString();
+      }
+      if (input.price_per_gram !== undefined) {
+        updateValues.price_per_gram = input.price_per_gram.toString();
+      }
+      const newFineness = resolveFineness(input.karat, input.fineness);
+      if (newFineness !== undefined) {
+        updateValues.fineness = newFineness.toString();
+      }
+      if (input.currency !== undefined) {
+        updateValues.currency = input.currency;
+      }
+      if (input.item_form !== undefined) {
+        updateValues.item_form = input.item_form;
+      }
+      if (input.brand !== undefined) {
+        updateValues.brand = input.brand;
+      }
+      if (input.transaction_date !== undefined) {
+        updateValues.transaction_date = input.transaction_date;
+      }
+      if (input.description !== undefined) {
+        updateValues.description = input.description;
+      }
 
-    // Update the transaction
-    const result = await db.update(goldTransactionsTable)
-      .set(updateValues)
-      .where(eq(goldTransactionsTable.id, input.id))
-      .returning()
-      .execute();
+      if (input.cost_components !== undefined) {
+        updateValues.cost_components = input.cost_components;
+      }
 
-    const updatedTransaction = result[0];
+      // Recalculate total_price from the parts, unless it was entered as paid and is not being reset
+      const finalWeightGrams = input.weight_grams !== undefined ? input.weight_grams : parseFloat(existingTransaction.weight_grams);
+      const finalPricePerGram = input.price_per_gram !== undefined ? input.price_per_gram : parseFloat(existingTransaction.price_per_gram);
+      const asPaid = input.total_price !== undefined
+        ? input.total_price
+        : existingTransaction.total_price_as_paid ? parseFloat(existingTransaction.total_price) : null;
+
+      if (input.type !== undefined || input.weight_grams !== undefined || input.price_per_gram !== undefined
+        || input.cost_components !== undefined || input.total_price !== undefined) {
+        updateValues.total_price = resolveTotalPrice(
+          input.type ?? existingTransaction.type,
+          finalWeightGrams,
+          finalPricePerGram,
+          input.cost_components ?? existingTransaction.cost_components,
+          asPaid
+        ).toString();
+        updateValues.total_price_as_paid = asPaid !== null;
+      }
+
+      // Changing what moved or when can uncover a later sale, so replay the portfolio with the edit applied
+      if (input.type !== undefined || input.weight_grams !== undefined || newFineness !== undefined || input.transaction_date !== undefined) {
+        const finalFineness = newFineness ?? parseFloat(existingTransaction.fineness);
+        const ledger = await getPortfolioLedger(existingTransaction.user_id, existingTransaction.household_id, tx);
+        assertLedgerCoversSells(ledger.map(entry => entry.id !== input.id ? entry : {
+          id: entry.id,
+          type: input.type ?? existingTransaction.type,
+          fine_weight_grams: fineWeightGrams(finalWeightGrams, finalFineness),
+          transaction_date: input.transaction_date ?? existingTransaction.transaction_date
+        }));
+      }
+
+      // Update the transaction
+      const result = await tx.update(goldTransactionsTable)
+        .set(updateValues)
+        .where(eq(goldTransactionsTable.id, input.id))
+        .returning()
+        .execute();
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'transaction',
+        entity_id: result[0].id,
+        before: existingTransaction,
+        after: result[0]
+      }, tx);
+
+      return result[0];
+    });
 
     // Convert numeric fields back to numbers
     return {
       ...updatedTransaction,
       weight_grams: parseFloat(updatedTransaction.weight_grams),
+      fineness: parseFloat(updatedTransaction.fineness),
+      fine_weight_grams: parseFloat(updatedTransaction.fine_weight_grams),
       price_per_gram: parseFloat(updatedTransaction.price_per_gram),
+      metal_cost: parseFloat(updatedTransaction.metal_cost),
       total_price: parseFloat(updatedTransaction.total_price)
     };
   } catch (error) {
@@ -107,32 +387,114 @@ export async function updateTransaction(input: UpdateTransactionInput): Promise<
   }
 }
 
-// Handler for deleting a gold transaction
+// Handler for deleting a gold transaction: it moves to the trash, where it can be restored until purged
 export async function deleteTransaction(transactionId: number, userId: number): Promise<boolean> {
   try {
-    // Delete the transaction, ensuring it belongs to the user
-    const result = await db.delete(goldTransactionsTable)
-      .where(and(
-        eq(goldTransactionsTable.id, transactionId),
-        eq(goldTransactionsTable.user_id, userId)
-      ))
-      .returning()
-      .execute();
+    const existingTransaction = await getOwnedTransaction(transactionId, userId, 'editor');
+
+    return await db.transaction(async (tx) => {
+      // Removing a purchase can leave later sales uncovered
+      if (existingTransaction.type === 'buy') {
+        await lockPortfolio(tx, existingTransaction.user_id, existingTransaction.household_id);
+        const ledger = await getPortfolioLedger(existingTransaction.user_id, existingTransaction.household_id, tx);
+        assertLedgerCoversSells(ledger.filter(entry => entry.id !== transactionId));
+      }
+
+      // Trash the transaction, now that access has been checked; its attachments stay until it is purged
+      const result = await tx.update(goldTransactionsTable)
+        .set({ deleted_at: new Date() })
+        .where(and(eq(goldTransactionsTable.id, transactionId), isNull(goldTransactionsTable.deleted_at)))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAuditEvent({
+          user_id: userId,
+          action: 'delete',
+          entity_type: 'transaction',
+          entity_id: transactionId,
+          reason: 'trashed',
+          before: existingTransaction
+        }, tx);
+      }
 
-    return result.length > 0;
+      return result.length > 0;
+    });
   } catch (error) {
     console.error('Transaction deletion failed:', error);
     throw error;
   }
 }
 
-// Handler for getting user's gold transactions
-export async function getUserTransactions(userId: number): Promise<GoldTransaction[]> {
+// Handler for taking a transaction back out of the trash
+export async function restoreTransaction(transactionId: number, userId: number): Promise<GoldTransaction> {
   try {
-    // Fetch all transactions for the user, ordered by transaction_date descending
+    const trashedTransaction = await getOwnedTransaction(transactionId, userId, 'editor', true);
+
+    const transaction = await db.transaction(async (tx) => {
+      // A sale may only come back if the gold it sells is still held at its date
+      if (trashedTransaction.type === 'sell') {
+        await lockPortfolio(tx, trashedTransaction.user_id, trashedTransaction.household_id);
+        const ledger = await getPortfolioLedger(trashedTransaction.user_id, trashedTransaction.household_id, tx);
+        assertLedgerCoversSells([...ledger, {
+          id: trashedTransaction.id,
+          type: trashedTransaction.type,
+          fine_weight_grams: parseFloat(trashedTransaction.fine_weight_grams),
+          transaction_date: trashedTransaction.transaction_date
+        }]);
+      }
+
+      // Only a row still in the trash comes back; a concurrent restore or purge wins otherwise
+      const result = await tx.update(goldTransactionsTable)
+        .set({ deleted_at: null })
+        .where(and(eq(goldTransactionsTable.id, transactionId), isNotNull(goldTransactionsTable.deleted_at)))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Transaction with id ${transactionId} not found` });
+      }
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'transaction',
+        entity_id: transactionId,
+        reason: 'restored',
+        before: trashedTransaction,
+        after: result[0]
+      }, tx);
+
+      return result[0];
+    });
+
+    // Convert numeric fields back to numbers
+    return {
+      ...transaction,
+      weight_grams: parseFloat(transaction.weight_grams),
+      fineness: parseFloat(transaction.fineness),
+      fine_weight_grams: parseFloat(transaction.fine_weight_grams),
+      price_per_gram: parseFloat(transaction.price_per_gram),
+      metal_cost: parseFloat(transaction.metal_cost),
+      total_price: parseFloat(transaction.total_price)
+    };
+  } catch (error) {
+    console.error('Transaction restore failed:', error);
+    throw error;
+  }
+}
+
+// Handler for getting the gold transactions in the user's personal portfolio or in one of their households
+export async function getUserTransactions(userId: number, householdId: number | null = null): Promise<GoldTransaction[]> {
+  try {
+    if (householdId !== null) {
+      await requireHouseholdRole(householdId, userId, 'viewer');
+    }
+
+    // Fetch all transactions in the portfolio, ordered by transaction_date descending
     const transactions = await db.select()
       .from(goldTransactionsTable)
-      .where(eq(goldTransactionsTable.user_id, userId))
+      .where(portfolioCondition(goldTransactionsTable, userId, householdId))
       .orderBy(desc(goldTransactionsTable.transaction_date))
       .execute();
 
@@ -140,7 +502,10 @@ export async function getUserTransactions(userId: number): Promise<GoldTransacti
     return transactions.map(transaction => ({
       ...transaction,
       weight_grams: parseFloat(transaction.weight_grams),
+      fineness: parseFloat(transaction.fineness),
+      fine_weight_grams: parseFloat(transaction.fine_weight_grams),
       price_per_gram: parseFloat(transaction.price_per_gram),
+      metal_cost: parseFloat(transaction.metal_cost),
       total_price: parseFloat(transaction.total_price)
     }));
   } catch (error) {
@@ -149,29 +514,159 @@ export async function getUserTransactions(userId: number): Promise<GoldTransacti
   }
 }
 
-// Handler for getting a specific transaction by ID
-export async function getTransactionById(transactionId: number, userId: number): Promise<GoldTransaction | null> {
+// Handler for one page of a portfolio's transactions, filtered and sorted, with totals for the whole filtered set
+export async function listTransactions(userId: number, input: ListTransactionsInput): Promise<TransactionPage> {
   try {
-    // Find the transaction by ID and verify it belongs to the user
-    const transactions = await db.select()
+    const householdId = input.household_id ?? null;
+    if (householdId !== null) {
+      await requireHouseholdRole(householdId, userId, 'viewer');
+    }
+
+    const conditions: SQL[] = [portfolioCondition(goldTransactionsTable, userId, householdId)];
+
+    if (input.type !== undefined) {
+      conditions.push(eq(goldTransactionsTable.type, input.type));
+    }
+    if (input.item_form !== undefined) {
+      conditions.push(eq(goldTransactionsTable.item_form, input.item_form));
+    }
+    if (input.date_from !== undefined) {
+      conditions.push(gte(goldTransactionsTable.transaction_date, input.date_from));
+    }
+    if (input.date_to !== undefined) {
+      conditions.push(lte(goldTransactionsTable.transaction_date, input.date_to));
+    }
+    if (input.min_weight_grams !== undefined) {
+      conditions.push(gte(goldTransactionsTable.weight_grams, input.min_weight_grams.toString()));
+    }
+    if (input.max_weight_grams !== undefined) {
+      conditions.push(lte(goldTransactionsTable.weight_grams, input.max_weight_grams.toString()));
+    }
+    if (input.min_price_per_gram !== undefined) {
+      conditions.push(gte(goldTransactionsTable.price_per_gram, input.min_price_per_gram.toString()));
+    }
+    if (input.max_price_per_gram !== undefined) {
+      conditions.push(lte(goldTransactionsTable.price_per_gram, input.max_price_per_gram.toString()));
+    }
+    if (input.search !== undefined) {
+      // Same expression as gold_transactions_description_search_idx, so the index is used
+      conditions.push(sql`to_tsvector('simple', coalesce(${goldTransactionsTable.description}, '')) @@ websearch_to_tsquery('simple', ${input.search})`);
+    }
+
+    const totals = await db.select({
+      count: count(),
+      total_weight_grams: sum(goldTransactionsTable.weight_grams),
+      net_weight_grams: sql<string | null>`sum(case when ${goldTransactionsTable.type} = 'buy' then ${goldTransactionsTable.weight_grams} else -${goldTransactionsTable.weight_grams} end)`,
+      net_fine_weight_grams: sql<string | null>`sum(case when ${goldTransactionsTable.type} = 'buy' then ${goldTransactionsTable.fine_weight_grams} else -${goldTransactionsTable.fine_weight_grams} end)`
+    })
       .from(goldTransactionsTable)
-      .where(and(
-        eq(goldTransactionsTable.id, transactionId),
-        eq(goldTransactionsTable.user_id, userId)
-      ))
+      .where(and(...conditions))
       .execute();
 
-    if (transactions.length === 0) {
-      return null;
+    // Amounts are summed per type, currency and day, then converted at that day's rate into the reporting currency.
+    // Money paid and money received are kept apart, as adding them up would mean nothing
+    const reportingCurrency = await getReportingCurrency(userId);
+    const day = sql<Date>`date_trunc('day', ${goldTransactionsTable.transaction_date})`.mapWith(goldTransactionsTable.transaction_date);
+    const amounts = await db.select({
+      type: goldTransactionsTable.type,
+      currency: goldTransactionsTable.currency,
+      day,
+      amount: sum(goldTransactionsTable.total_price)
+    })
+      .from(goldTransactionsTable)
+      .where(and(...conditions))
+      .groupBy(goldTransactionsTable.type, goldTransactionsTable.currency, day)
+      .execute();
+
+    // One conversion factor per currency and day, as buys and sells on the same day share a rate
+    const factors = new Map<string, number>();
+    const totalAmounts = { buy: 0, sell: 0 };
+    for (const group of amounts) {
+      const key = `${group.currency}:${group.day.toISOString().slice(0, 10)}`;
+      let factor = factors.get(key);
+      if (factor === undefined) {
+        factor = await convertAmount(1, group.currency, reportingCurrency, group.day);
+        factors.set(key, factor);
+      }
+      totalAmounts[group.type] += parseFloat(group.amount ?? '0') * factor;
     }
 
-    const transaction = transactions[0];
+    // Keyset pagination: continue strictly after the last row of the previous page
+    const sortColumn = SORT_COLUMNS[input.sort_by];
+    const pageConditions = [...conditions];
+    if (input.cursor !== undefined) {
+      const cursor = decodeCursor(input.cursor, input.sort_by, input.sort_direction);
+      const value = input.sort_by === 'transaction_date' ? new Date(cursor.value) : cursor.value;
+      const after = input.sort_direction === 'desc' ? lt : gt;
+      pageConditions.push(or(
+        after(sortColumn, value),
+        and(eq(sortColumn, value), after(goldTransactionsTable.id, cursor.id))
+      )!);
+    }
+
+    const order = input.sort_direction === 'desc' ? desc : asc;
+    const rows = await db.select()
+      .from(goldTransactionsTable)
+      .where(and(...pageConditions))
+      .orderBy(order(sortColumn), order(goldTransactionsTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const page = rows.slice(0, input.limit);
+    let nextCursor: string | null = null;
+    if (rows.length > input.limit) {
+      const last = page[page.length - 1];
+      const lastValue = last[input.sort_by];
+      nextCursor = encodeCursor({
+        sort_by: input.sort_by,
+        direction: input.sort_direction,
+        value: lastValue instanceof Date ? lastValue.toISOString() : lastValue,
+        id: last.id
+      });
+    }
+
+    // Convert numeric fields back to numbers
+    return {
+      items: page.map(transaction => ({
+        ...transaction,
+        weight_grams: parseFloat(transaction.weight_grams),
+        fineness: parseFloat(transaction.fineness),
+        fine_weight_grams: parseFloat(transaction.fine_weight_grams),
+        price_per_gram: parseFloat(transaction.price_per_gram),
+        metal_cost: parseFloat(transaction.metal_cost),
+        total_price: parseFloat(transaction.total_price)
+      })),
+      next_cursor: nextCursor,
+      totals: {
+        count: totals[0].count,
+        total_weight_grams: totals[0].total_weight_grams ? parseFloat(totals[0].total_weight_grams) : 0,
+        net_weight_grams: totals[0].net_weight_grams ? parseFloat(totals[0].net_weight_grams) : 0,
+        net_fine_weight_grams: totals[0].net_fine_weight_grams ? parseFloat(totals[0].net_fine_weight_grams) : 0,
+        bought_amount: Math.round(totalAmounts.buy * 100) / 100,
+        sold_amount: Math.round(totalAmounts.sell * 100) / 100,
+        currency: reportingCurrency
+      }
+    };
+  } catch (error) {
+    console.error('Transaction listing failed:', error);
+    throw error;
+  }
+}
+
+// Handler for getting a specific transaction by ID
+export async function getTransactionById(transactionId: number, userId: number): Promise<GoldTransaction> {
+  try {
+    // Find the transaction by ID and verify the user may see it
+    const transaction = await getOwnedTransaction(transactionId, userId);
 
     // Convert numeric fields back to numbers
     return {
       ...transaction,
       weight_grams: parseFloat(transaction.weight_grams),
+      fineness: parseFloat(transaction.fineness),
+      fine_weight_grams: parseFloat(transaction.fine_weight_grams),
       price_per_gram: parseFloat(transaction.price_per_gram),
+      metal_cost: parseFloat(transaction.metal_cost),
       total_price: parseFloat(transaction.total_price)
     };
   } catch (error) {
@@ -0,0 +1,106 @@
+import { db } from '../db';
+import { goldTransactionsTable, goldGoalsTable } from '../db/schema';
+import { type Trash } from '../schema';
+import { lte, desc } from 'drizzle-orm';
+import { requireHouseholdRole, trashCondition } from './households';
+import { recordAuditEvent } from './audit';
+import { deleteTransactionAttachments, removeStoredFiles } from './attachments';
+
+// Trashed rows are purged for good a month after deletion unless configured otherwise
+const TRASH_RETENTION_DAYS = parseInt(process.env['TRASH_RETENTION_DAYS'] || '30', 10);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Handler for listing the deleted transactions and goals of a portfolio that can still be restored, newest first
+export async function listTrash(userId: number, householdId: number | null = null): Promise<Trash> {
+  try {
+    if (householdId !== null) {
+      await requireHouseholdRole(householdId, userId, 'viewer');
+    }
+
+    const transactions = await db.select()
+      .from(goldTransactionsTable)
+      .where(trashCondition(goldTransactionsTable, userId, householdId))
+      .orderBy(desc(goldTransactionsTable.deleted_at))
+      .execute();
+
+    const goals = await db.select()
+      .from(goldGoalsTable)
+      .where(trashCondition(goldGoalsTable, userId, householdId))
+      .orderBy(desc(goldGoalsTable.deleted_at))
+      .execute();
+
+    // Convert numeric fields back to numbers
+    return {
+      transactions: transactions.map(transaction => ({
+        ...transaction,
+        weight_grams: parseFloat(transaction.weight_grams),
+        fineness: parseFloat(transaction.fineness),
+        fine_weight_grams: parseFloat(transaction.fine_weight_grams),
+        price_per_gram: parseFloat(transaction.price_per_gram),
+        metal_cost: parseFloat(transaction.metal_cost),
+        total_price: parseFloat(transaction.total_price)
+      })),
+      goals: goals.map(goal => ({
+        ...goal,
+        target_weight_grams: parseFloat(goal.target_weight_grams)
+      })),
+      retention_days: TRASH_RETENTION_DAYS
+    };
+  } catch (error) {
+    console.error('Trash listing failed:', error);
+    throw error;
+  }
+}
+
+// Handler for purging every trashed transaction and goal whose retention period has ended (run periodically).
+// Transactions go together with their attachments
+export async function purgeExpiredTrash(): Promise<number> {
+  try {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * MS_PER_DAY);
+
+    const { purged, storedFiles } = await db.transaction(async (tx) => {
+      const expiredTransaction = lte(goldTransactionsTable.deleted_at, cutoff);
+      const storedFiles = await deleteTransactionAttachments(tx, expiredTransaction);
+
+      const transactions = await tx.delete(goldTransactionsTable)
+        .where(expiredTransaction)
+        .returning()
+        .execute();
+
+      const goals = await tx.delete(goldGoalsTable)
+        .where(lte(goldGoalsTable.deleted_at, cutoff))
+        .returning()
+        .execute();
+
+      for (const transaction of transactions) {
+        await recordAuditEvent({
+          user_id: transaction.user_id,
+          action: 'delete',
+          entity_type: 'transaction',
+          entity_id: transaction.id,
+          reason: 'purged',
+          before: transaction
+        }, tx);
+      }
+      for (const goal of goals) {
+        await recordAuditEvent({
+          user_id: goal.user_id,
+          action: 'delete',
+          entity_type: 'goal',
+          entity_id: goal.id,
+          reason: 'purged',
+          before: goal
+        }, tx);
+      }
+
+      return { purged: transactions.length + goals.length, storedFiles };
+    });
+
+    await removeStoredFiles(storedFiles);
+    return purged;
+  } catch (error) {
+    console.error('Trash purge failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,352 @@
+import { db } from '../db';
+import { usersTable, recoveryCodesTable, twoFactorChallengesTable, type User } from '../db/schema';
+import {
+  type TotpEnrollment,
+  type TwoFactorCodeInput,
+  type ReauthenticationInput,
+  type RecoveryCodes,
+  type TwoFactorChallenge,
+  type VerifyTwoFactorInput,
+  type PublicUser
+} from '../schema';
+import { eq, and, gt, lt, or, isNull, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { randomBytes } from 'node:crypto';
+import { generateToken, hashToken } from '../services/tokens';
+import { generateTotpSecret, matchTotpCode, totpProvisioningUri, base32Encode } from '../services/totp';
+import { toPublicUser } from './auth';
+import { recordAuditEvent } from './audit';
+import { assertSignInAllowed, recordFailedSignIn, clearFailedSignIns } from './login_throttle';
+import { verifyReauthentication } from './reauthentication';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// A signed-in password has five minutes and five tries to be followed by a code
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+// Helper function to load a user or fail
+async function getUser(userId: number): Promise<User> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with id ${userId} not found`);
+  }
+
+  return users[0];
+}
+
+// Helper function to canonicalise a recovery code as typed by the user (case, dashes, spaces)
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+// Helper function to replace a user's recovery codes, returning the new plaintext codes once
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(5));
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+
+  await db.transaction(async (tx) => {
+    await tx.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    await tx.insert(recoveryCodesTable)
+      .values(codes.map(code => ({
+        user_id: userId,
+        code_hash: hashToken(normalizeRecoveryCode(code))
+      })))
+      .execute();
+  });
+
+  return codes;
+}
+
+// Helper function to accept a TOTP code once per time step, rejecting replays
+async function acceptTotpCode(user: User, code: string): Promise<boolean> {
+  if (!user.totp_secret) {
+    return false;
+  }
+
+  const step = matchTotpCode(user.totp_secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  const claimed = await db.update(usersTable)
+    .set({ totp_last_used_step: step })
+    .where(and(
+      eq(usersTable.id, user.id),
+      or(isNull(usersTable.totp_last_used_step), lt(usersTable.totp_last_used_step, step))
+    ))
+    .returning()
+    .execute();
+
+  return claimed.length > 0;
+}
+
+// Helper function to redeem an unused recovery code
+async function acceptRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const redeemed = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(recoveryCodesTable.user_id, userId),
+      eq(recoveryCodesTable.code_hash, hashToken(normalizeRecoveryCode(code))),
+      isNull(recoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return redeemed.length > 0;
+}
+
+// Helper function to check a second factor: a TOTP code, or a recovery code when allowed
+export async function acceptSecondFactor(user: User, code: string, allowRecoveryCode: boolean): Promise<boolean> {
+  if (/^\s*\d{6}\s*$/.test(code)) {
+    return acceptTotpCode(user, code);
+  }
+  return allowRecoveryCode && acceptRecoveryCode(user.id, code);
+}
+
+// Handler for starting TOTP enrollment: returns the secret and the URI to show as a QR code
+export async function beginTotpEnrollment(userId: number): Promise<TotpEnrollment> {
+  try {
+    const user = await getUser(userId);
+
+    if (user.totp_enabled_at !== null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = generateTotpSecret();
+
+    await db.update(usersTable)
+      .set({
+        totp_secret: secret,
+        totp_last_used_step: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'two_factor_enrollment_started'
+    });
+
+    return {
+      secret,
+      provisioning_uri: totpProvisioningUri(secret, user.email)
+    };
+  } catch (error) {
+    console.error('TOTP enrollment start failed:', error);
+    throw error;
+  }
+}
+
+// Handler for confirming enrollment with a first code from the authenticator app
+export async function confirmTotpEnrollment(userId: number, input: TwoFactorCodeInput): Promise<RecoveryCodes> {
+  try {
+    const user = await getUser(userId);
+
+    if (user.totp_enabled_at !== null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Two-factor authentication is already enabled' });
+    }
+    if (!user.totp_secret) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Start two-factor enrollment first' });
+    }
+    if (!await acceptTotpCode(user, input.code)) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid authentication code' });
+    }
+
+    const updated = await db.update(usersTable)
+      .set({
+        totp_enabled_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'two_factor_enabled',
+      before: toPublicUser(user),
+      after: toPublicUser(updated[0])
+    });
+
+    return {
+      recovery_codes: await issueRecoveryCodes(userId)
+    };
+  } catch (error) {
+    console.error('TOTP enrollment confirmation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for turning two-factor off (requires re-authentication: the password or Google, plus a current code or a
+// recovery code)
+export async function disableTotp(userId: number, input: ReauthenticationInput): Promise<boolean> {
+  try {
+    if ((await getUser(userId)).totp_enabled_at === null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Two-factor authentication is not enabled' });
+    }
+    const user = await verifyReauthentication(userId, input);
+
+    await db.transaction(async (tx) => {
+      const updated = await tx.update(usersTable)
+        .set({
+          totp_secret: null,
+          totp_enabled_at: null,
+          totp_last_used_step: null,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'user',
+        entity_id: userId,
+        reason: 'two_factor_disabled',
+        before: toPublicUser(user),
+        after: toPublicUser(updated[0])
+      }, tx);
+
+      await tx.delete(recoveryCodesTable)
+        .where(eq(recoveryCodesTable.user_id, userId))
+        .execute();
+
+      await tx.delete(twoFactorChallengesTable)
+        .where(eq(twoFactorChallengesTable.user_id, userId))
+        .execute();
+    });
+
+    return true;
+  } catch (error) {
+    console.error('TOTP disable failed:', error);
+    throw error;
+  }
+}
+
+// Handler for replacing all recovery codes (requires re-authentication, the same as turning two-factor off)
+export async function regenerateRecoveryCodes(userId: number, input: ReauthenticationInput): Promise<RecoveryCodes> {
+  try {
+    if ((await getUser(userId)).totp_enabled_at === null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Two-factor authentication is not enabled' });
+    }
+    await verifyReauthentication(userId, input);
+
+    const codes = await issueRecoveryCodes(userId);
+
+    await recordAuditEvent({
+      user_id: userId,
+      action: 'update',
+      entity_type: 'user',
+      entity_id: userId,
+      reason: 'recovery_codes_regenerated'
+    });
+
+    return {
+      recovery_codes: codes
+    };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+// Handler for opening a pending two-factor challenge after the password was accepted
+export async function createTwoFactorChallenge(userId: number): Promise<TwoFactorChallenge> {
+  try {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+
+    await db.insert(twoFactorChallengesTable)
+      .values({
+        user_id: userId,
+        token_hash: hashToken(token),
+        expires_at: expiresAt
+      })
+      .execute();
+
+    return {
+      challenge_token: token,
+      expires_at: expiresAt
+    };
+  } catch (error) {
+    console.error('Two-factor challenge creation failed:', error);
+    throw error;
+  }
+}
+
+// Handler for completing a pending challenge with a TOTP or recovery code. Wrong codes count against the account
+// like wrong passwords, so opening fresh challenges does not give unlimited guesses
+export async function verifyTwoFactorChallenge(input: VerifyTwoFactorInput, ipAddress: string | null = null): Promise<PublicUser> {
+  try {
+    const challenges = await db.select()
+      .from(twoFactorChallengesTable)
+      .where(and(
+        eq(twoFactorChallengesTable.token_hash, hashToken(input.challenge_token)),
+        gt(twoFactorChallengesTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (challenges.length === 0) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid or expired two-factor challenge' });
+    }
+
+    const challenge = challenges[0];
+    const user = await getUser(challenge.user_id);
+    await assertSignInAllowed(user.email, ipAddress);
+
+    if (!await acceptSecondFactor(user, input.code, true)) {
+      await recordFailedSignIn(user.email, ipAddress);
+
+      const updated = await db.update(twoFactorChallengesTable)
+        .set({ attempts: sql`${twoFactorChallengesTable.attempts} + 1` })
+        .where(eq(twoFactorChallengesTable.id, challenge.id))
+        .returning()
+        .execute();
+
+      // Out of tries: the user has to start over with their password
+      if (updated.length > 0 && updated[0].attempts >= CHALLENGE_MAX_ATTEMPTS) {
+        await db.delete(twoFactorChallengesTable)
+          .where(eq(twoFactorChallengesTable.id, challenge.id))
+          .execute();
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Too many invalid codes, please sign in again' });
+      }
+
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid authentication code' });
+    }
+
+    // Consume the challenge; a concurrent request that already used it loses
+    const consumed = await db.delete(twoFactorChallengesTable)
+      .where(eq(twoFactorChallengesTable.id, challenge.id))
+      .returning()
+      .execute();
+
+    if (consumed.length === 0) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid or expired two-factor challenge' });
+    }
+
+    await clearFailedSignIns(user.email);
+
+    return toPublicUser(user);
+  } catch (error) {
+    console.error('Two-factor challenge verification failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
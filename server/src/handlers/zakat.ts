@@ -1,13 +1,33 @@
 import { db } from '../db';
 import { goldTransactionsTable, zakatRemindersTable, usersTable } from '../db/schema';
-import { type ZakatReminder } from '../schema';
+import { type ZakatReminder, type ItemForm } from '../schema';
 import { eq, sum, lte, desc, and, gte } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
+import { assertOwnership } from './ownership';
+import { recordAuditEvent } from './audit';
+import { portfolioCondition } from './households';
+import { convertAmount, getReportingCurrency } from './fx_rates';
 
 const NISAB_GRAMS = 85; // Minimum threshold for zakat eligibility
 const LUNAR_YEAR_DAYS = 354; // One lunar year in days
 const ZAKAT_RATE = 0.025; // 2.5% zakat rate
 
+// Share of each form's pure gold that counts towards nisab. Everything counts in full for now; a school that
+// exempts jewelry in personal use would lower it here. Transactions without a recorded form count in full
+const ZAKATABLE_SHARE_BY_FORM: Record<ItemForm, number> = {
+  bar: 1,
+  coin: 1,
+  jewelry: 1,
+  digital: 1,
+  granules: 1
+};
+
+// Helper function to get the weight of a transaction that counts towards nisab
+function zakatableWeight(transaction: { fine_weight_grams: string; item_form: ItemForm | null }): number {
+  const share = transaction.item_form === null ? 1 : ZAKATABLE_SHARE_BY_FORM[transaction.item_form];
+  return parseFloat(transaction.fine_weight_grams) * share;
+}
+
 // Handler for calculating and updating zakat eligibility for a user
 export async function updateZakatStatus(userId: number): Promise<ZakatReminder | null> {
   try {
@@ -67,6 +87,16 @@ export async function updateZakatStatus(userId: number): Promise<ZakatReminder |
         .execute();
       
       const updated = result[0];
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'zakat_reminder',
+        entity_id: updated.id,
+        before: existingReminder[0],
+        after: updated
+      });
+
       return {
         ...updated,
         gold_weight_grams: parseFloat(updated.gold_weight_grams)
@@ -85,6 +115,15 @@ export async function updateZakatStatus(userId: number): Promise<ZakatReminder |
         .execute();
       
       const created = result[0];
+
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'create',
+        entity_type: 'zakat_reminder',
+        entity_id: created.id,
+        after: created
+      });
+
       return {
         ...created,
         gold_weight_grams: parseFloat(created.gold_weight_grams)
@@ -122,8 +161,9 @@ export async function getZakatStatus(userId: number): Promise<ZakatReminder | nu
   }
 }
 
-// Handler for calculating zakat amount due
-export async function calculateZakatAmount(userId: number, currentGoldPricePerGram: number): Promise<number> {
+// Handler for calculating zakat amount due, in the user's reporting currency; the gold price may be quoted
+// in another currency, which is converted at today's rate
+export async function calculateZakatAmount(userId: number, currentGoldPricePerGram: number, priceCurrency: string | null = null): Promise<number> {
   try {
     // 1. Get user's current zakat status
     const zakatStatus = await getZakatStatus(userId);
@@ -133,7 +173,9 @@ export async function calculateZakatAmount(userId: number, currentGoldPricePerGr
     }
     
     // 2. Calculate 2.5% of total gold value as zakat amount
-    const totalGoldValue = zakatStatus.gold_weight_grams * currentGoldPricePerGram;
+    const reportingCurrency = await getReportingCurrency(userId);
+    const pricePerGram = await convertAmount(currentGoldPricePerGram, priceCurrency ?? reportingCurrency, reportingCurrency, new Date());
+    const totalGoldValue = zakatStatus.gold_weight_grams * pricePerGram;
     const zakatAmount = totalGoldValue * ZAKAT_RATE;
     
     return Math.round(zakatAmount * 100) / 100; // Round to 2 decimal places
@@ -171,38 +213,62 @@ export async function getUsersForZakatReminder(): Promise<ZakatReminder[]> {
 }
 
 // Handler for updating next reminder date after sending reminder
-export async function updateNextReminderDate(zakatReminderId: number, nextDate: Date): Promise<boolean> {
+export async function updateNextReminderDate(zakatReminderId: number, userId: number, nextDate: Date): Promise<boolean> {
   try {
+    const reminders = await db.select()
+      .from(zakatRemindersTable)
+      .where(eq(zakatRemindersTable.id, zakatReminderId))
+      .execute();
+
+    const existingReminder = assertOwnership(reminders, userId, 'Zakat reminder', zakatReminderId);
+
     const result = await db.update(zakatRemindersTable)
       .set({
         next_reminder_date: nextDate,
         updated_at: new Date()
       })
-      .where(eq(zakatRemindersTable.id, zakatReminderId))
+      .where(and(
+        eq(zakatRemindersTable.id, zakatReminderId),
+        eq(zakatRemindersTable.user_id, userId)
+      ))
+      .returning()
       .execute();
+
+    if (result.length > 0) {
+      await recordAuditEvent({
+        user_id: userId,
+        action: 'update',
+        entity_type: 'zakat_reminder',
+        entity_id: zakatReminderId,
+        reason: 'reminder_rescheduled',
+        before: existingReminder,
+        after: result[0]
+      });
+    }
     
-    return result.rowCount !== null && result.rowCount !== undefined && result.rowCount > 0;
+    return result.length > 0;
   } catch (error) {
     console.error('Update next reminder date failed:', error);
     throw error;
   }
 }
 
-// Helper function to calculate user's current gold holdings
+// Helper function to calculate the pure gold content held in the user's personal portfolio; nisab is a weight of pure gold
 async function calculateUserGoldHoldings(userId: number): Promise<number> {
-  // Get all transactions for the user
+  // Get all personal transactions for the user
   const transactions = await db.select({
     type: goldTransactionsTable.type,
-    weight_grams: goldTransactionsTable.weight_grams
+    fine_weight_grams: goldTransactionsTable.fine_weight_grams,
+    item_form: goldTransactionsTable.item_form
   })
     .from(goldTransactionsTable)
-    .where(eq(goldTransactionsTable.user_id, userId))
+    .where(portfolioCondition(goldTransactionsTable, userId, null))
     .execute();
   
   let totalHoldings = 0;
   
   for (const transaction of transactions) {
-    const weight = parseFloat(transaction.weight_grams);
+    const weight = zakatableWeight(transaction);
     
     if (transaction.type === 'buy') {
       totalHoldings += weight;
@@ -219,18 +285,19 @@ async function findFirstNisabExceedDate(userId: number): Promise<Date | null> {
   // Get all transactions sorted by date
   const transactions = await db.select({
     type: goldTransactionsTable.type,
-    weight_grams: goldTransactionsTable.weight_grams,
+    fine_weight_grams: goldTransactionsTable.fine_weight_grams,
+    item_form: goldTransactionsTable.item_form,
     transaction_date: goldTransactionsTable.transaction_date
   })
     .from(goldTransactionsTable)
-    .where(eq(goldTransactionsTable.user_id, userId))
+    .where(portfolioCondition(goldTransactionsTable, userId, null))
     .orderBy(goldTransactionsTable.transaction_date)
     .execute();
   
   let runningTotal = 0;
   
   for (const transaction of transactions) {
-    const weight = parseFloat(transaction.weight_grams);
+    const weight = zakatableWeight(transaction);
     
     if (transaction.type === 'buy') {
       runningTotal += weight;
@@ -0,0 +1,15 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
+import { type Context } from '../context';
+
+// Build a real request/response pair for calling routes directly through appRouter.createCaller
+export const createTestContext = (
+  user: Context['user'] = null,
+  sessionToken: string | null = null,
+  ipAddress: string | null = null,
+  apiToken: Context['apiToken'] = null
+): Context => {
+  const req = new IncomingMessage(new Socket());
+  const res = new ServerResponse(req);
+  return { req, res, ipAddress, sessionToken, apiToken, user };
+};
\ No newline at end of file
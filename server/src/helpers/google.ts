@@ -0,0 +1,46 @@
+import { generateKeyPairSync, sign, type KeyObject } from 'node:crypto';
+import { configureGoogleIdTokenVerifier, createStaticJwksProvider, type SigningKey } from '../services/google_id_token';
+
+// Local stand-in for Google's key set, so tests never reach the network
+export const TEST_GOOGLE_CLIENT_ID = 'emastrack-test.apps.googleusercontent.com';
+export const TEST_GOOGLE_KEY_ID = 'test-key';
+
+const trustedKeyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+// A key pair Google never published, for signature rejection tests
+export const untrustedGooglePrivateKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+
+// Public half of the trusted key, as it would appear in Google's JWKS
+export const testGoogleSigningKeys: SigningKey[] = [
+  { ...trustedKeyPair.publicKey.export({ format: 'jwk' }), kid: TEST_GOOGLE_KEY_ID, alg: 'RS256' }
+];
+
+export const useTestGoogleKeys = () => {
+  configureGoogleIdTokenVerifier({
+    jwksProvider: createStaticJwksProvider(testGoogleSigningKeys),
+    audience: TEST_GOOGLE_CLIENT_ID,
+    issuers: ['accounts.google.com', 'https://accounts.google.com']
+  });
+};
+
+export const signTestGoogleIdToken = (
+  claims: Record<string, unknown>,
+  options: { privateKey?: KeyObject; kid?: string } = {}
+): string => {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const header = { alg: 'RS256', typ: 'JWT', kid: options.kid || TEST_GOOGLE_KEY_ID };
+  const payload = {
+    iss: 'https://accounts.google.com',
+    aud: TEST_GOOGLE_CLIENT_ID,
+    iat: nowSeconds,
+    exp: nowSeconds + 3600,
+    email_verified: true,
+    ...claims
+  };
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = sign('RSA-SHA256', Buffer.from(signingInput), options.privateKey || trustedKeyPair.privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
\ No newline at end of file
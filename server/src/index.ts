@@ -1,4 +1,4 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
@@ -10,25 +10,126 @@ import {
   signUpInputSchema,
   signInInputSchema,
   googleAuthInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  verifyEmailInputSchema,
+  twoFactorCodeInputSchema,
+  verifyTwoFactorInputSchema,
+  renameSessionInputSchema,
+  revokeSessionInputSchema,
+  reauthenticationInputSchema,
+  changePasswordInputSchema,
+  setPasswordInputSchema,
+  changeEmailInputSchema,
+  createApiTokenInputSchema,
+  revokeApiTokenInputSchema,
+  listUsersInputSchema,
+  setUserRoleInputSchema,
+  listAuditEventsInputSchema,
+  portfolioScopeInputSchema,
+  holdingsBreakdownInputSchema,
+  currencyCodeSchema,
+  currencyInputSchema,
+  localeInputSchema,
+  createHouseholdInputSchema,
+  renameHouseholdInputSchema,
+  householdIdInputSchema,
+  inviteHouseholdMemberInputSchema,
+  revokeHouseholdInvitationInputSchema,
+  acceptHouseholdInvitationInputSchema,
+  updateHouseholdMemberInputSchema,
+  removeHouseholdMemberInputSchema,
   createTransactionInputSchema,
   updateTransactionInputSchema,
+  listTransactionsInputSchema,
+  transactionImportInputSchema,
+  transactionImportCommitInputSchema,
+  exportInputSchema,
+  uploadAttachmentInputSchema,
+  downloadAttachmentInputSchema,
   createGoalInputSchema,
-  updateGoalInputSchema
+  updateGoalInputSchema,
+  type PublicUser,
+  type AuthSession,
+  type SignInResult
 } from './schema';
+import { createContext, setSessionCookie, clearSessionCookie, type Context } from './context';
 
 // Import handlers
-import { signUp, signIn, googleAuth } from './handlers/auth';
+import { signUp, signIn, googleAuth, toPublicUser } from './handlers/auth';
+import {
+  createSession,
+  deleteSession,
+  listSessions,
+  renameSession,
+  revokeSession,
+  revokeAllOtherSessions,
+  deleteExpiredSessions
+} from './handlers/sessions';
+import {
+  exportAccountData,
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+  purgeDueAccountDeletions,
+  changePassword,
+  setPassword,
+  changeEmail,
+  unlinkGoogle,
+  setReportingCurrency,
+  setLocale
+} from './handlers/account';
+import { createApiToken, listApiTokens, revokeApiToken, deleteExpiredApiTokens } from './handlers/api_tokens';
+import {
+  listUsers,
+  getUserDetail,
+  recomputeUserZakat,
+  setUserRole,
+  promoteAdminsByEmail
+} from './handlers/admin';
+import { requestPasswordReset, resetPassword } from './handlers/password_reset';
+import { verifyEmail, resendVerificationEmail } from './handlers/email_verification';
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTotp,
+  regenerateRecoveryCodes,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge
+} from './handlers/two_factor';
+import { listAuditEvents } from './handlers/audit';
+import { requiresVerifiedEmail } from './services/email_verification_policy';
+import { apiTokenDenialReason } from './services/api_token_policy';
+import { runInRequestScope } from './services/request_scope';
+import {
+  createHousehold,
+  listHouseholds,
+  getHousehold,
+  renameHousehold,
+  deleteHousehold,
+  inviteHouseholdMember,
+  listHouseholdInvitations,
+  revokeHouseholdInvitation,
+  acceptHouseholdInvitation,
+  updateHouseholdMember,
+  removeHouseholdMember
+} from './handlers/households';
 import {
   createTransaction,
   updateTransaction,
   deleteTransaction,
-  getUserTransactions,
+  restoreTransaction,
+  listTransactions,
   getTransactionById
 } from './handlers/transactions';
+import { previewTransactionImport, commitTransactionImport } from './handlers/transaction_import';
+import { exportTransactionsCsv, exportGoalsCsv, exportZakatCsv, exportWorkbook } from './handlers/exports';
+import { uploadAttachment, listAttachments, downloadAttachment, deleteAttachment } from './handlers/attachments';
+import { listTrash, purgeExpiredTrash } from './handlers/trash';
 import {
   createGoal,
   updateGoal,
   deleteGoal,
+  restoreGoal,
   getUserGoals,
   getGoalById,
   markGoalCompleted
@@ -42,22 +143,74 @@ import {
 import {
   getDashboardData,
   calculateTotalGoldHoldings,
+  getHoldingsBreakdown,
+  getCostBasis,
   calculateGoalsProgress
 } from './handlers/dashboard';
 import {
   fetchCurrentGoldPrice,
   getCachedGoldPrice,
-  getGoldPriceWithRefresh
+  getGoldPriceWithRefresh,
+  getGoldPriceIn
 } from './handlers/gold_price';
+import { refreshFxRates } from './handlers/fx_rates';
 
-const t = initTRPC.create({
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
-const publicProcedure = t.procedure;
 const router = t.router;
 
-const appRouter = router({
+// Every procedure runs in a request scope so handlers can attribute audit events to the caller
+const publicProcedure = t.procedure.use(({ ctx, next }) => runInRequestScope({
+  actorUserId: ctx.user ? ctx.user.id : null,
+  ipAddress: ctx.ipAddress
+}, next));
+
+// Procedure for user-scoped routes: requires a valid session or API token and exposes ctx.user
+const protectedProcedure = publicProcedure.use(({ ctx, path, type, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  if (ctx.apiToken) {
+    const denial = apiTokenDenialReason(ctx.apiToken.scope, path, type);
+    if (denial) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: denial });
+    }
+  }
+  if (ctx.user.email_verified_at === null && requiresVerifiedEmail(path)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Please verify your email address to use this feature' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Procedure for operational routes: a signed-in user with the admin role
+const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'admin') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' });
+  }
+  return next();
+});
+
+// Issue a session for an authenticated user and hand it to the browser as a cookie
+async function startSession(ctx: Context, user: PublicUser): Promise<AuthSession> {
+  const session = await createSession(user.id, {
+    user_agent: ctx.req.headers['user-agent'] || null,
+    ip_address: ctx.ipAddress
+  });
+  setSessionCookie(ctx.res, session);
+  return { user, ...session };
+}
+
+// Finish a first-factor sign-in: accounts with two-factor get a pending challenge instead of a session
+async function completeSignIn(ctx: Context, user: PublicUser): Promise<SignInResult> {
+  if (user.two_factor_enabled) {
+    return { status: 'two_factor_required', ...await createTwoFactorChallenge(user.id) };
+  }
+  return { status: 'authenticated', ...await startSession(ctx, user) };
+}
+
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -67,98 +220,331 @@ const appRouter = router({
   auth: router({
     signUp: publicProcedure
       .input(signUpInputSchema)
-      .mutation(({ input }) => signUp(input)),
+      .mutation(async ({ input, ctx }) => startSession(ctx, await signUp(input))),
     
     signIn: publicProcedure
       .input(signInInputSchema)
-      .mutation(({ input }) => signIn(input)),
+      .mutation(async ({ input, ctx }) => {
+        const user = await signIn(input, ctx.ipAddress);
+        return user ? completeSignIn(ctx, user) : null;
+      }),
     
     googleAuth: publicProcedure
       .input(googleAuthInputSchema)
-      .mutation(({ input }) => googleAuth(input))
+      .mutation(async ({ input, ctx }) => completeSignIn(ctx, await googleAuth(input))),
+
+    verifyTwoFactor: publicProcedure
+      .input(verifyTwoFactorInputSchema)
+      .mutation(async ({ input, ctx }) => startSession(ctx, await verifyTwoFactorChallenge(input, ctx.ipAddress))),
+
+    beginTotpEnrollment: protectedProcedure
+      .mutation(({ ctx }) => beginTotpEnrollment(ctx.user.id)),
+
+    confirmTotpEnrollment: protectedProcedure
+      .input(twoFactorCodeInputSchema)
+      .mutation(({ input, ctx }) => confirmTotpEnrollment(ctx.user.id, input)),
+
+    disableTotp: protectedProcedure
+      .input(reauthenticationInputSchema)
+      .mutation(({ input, ctx }) => disableTotp(ctx.user.id, input)),
+
+    regenerateRecoveryCodes: protectedProcedure
+      .input(reauthenticationInputSchema)
+      .mutation(({ input, ctx }) => regenerateRecoveryCodes(ctx.user.id, input)),
+
+    requestPasswordReset: publicProcedure
+      .input(requestPasswordResetInputSchema)
+      .mutation(({ input }) => requestPasswordReset(input)),
+
+    resetPassword: publicProcedure
+      .input(resetPasswordInputSchema)
+      .mutation(({ input }) => resetPassword(input)),
+
+    verifyEmail: publicProcedure
+      .input(verifyEmailInputSchema)
+      .mutation(({ input }) => verifyEmail(input)),
+
+    resendVerification: protectedProcedure
+      .mutation(({ ctx }) => resendVerificationEmail(ctx.user.id)),
+
+    me: protectedProcedure
+      .query(({ ctx }) => toPublicUser(ctx.user)),
+
+    listSessions: protectedProcedure
+      .query(({ ctx }) => listSessions(ctx.user.id, ctx.sessionToken)),
+
+    renameSession: protectedProcedure
+      .input(renameSessionInputSchema)
+      .mutation(({ input, ctx }) => renameSession(input, ctx.user.id)),
+
+    revokeSession: protectedProcedure
+      .input(revokeSessionInputSchema)
+      .mutation(({ input, ctx }) => revokeSession(input, ctx.user.id)),
+
+    revokeAllOtherSessions: protectedProcedure
+      .mutation(({ ctx }) => revokeAllOtherSessions(ctx.user.id, ctx.sessionToken)),
+
+    signOut: protectedProcedure
+      .mutation(async ({ ctx }) => {
+        clearSessionCookie(ctx.res);
+        return ctx.sessionToken ? deleteSession(ctx.sessionToken) : false;
+      })
+  }),
+
+  // Account routes
+  account: router({
+    export: protectedProcedure
+      .query(({ ctx }) => exportAccountData(ctx.user.id)),
+
+    delete: protectedProcedure
+      .input(reauthenticationInputSchema)
+      .mutation(({ input, ctx }) => scheduleAccountDeletion(ctx.user.id, input)),
+
+    cancelDeletion: protectedProcedure
+      .mutation(({ ctx }) => cancelAccountDeletion(ctx.user.id)),
+
+    changePassword: protectedProcedure
+      .input(changePasswordInputSchema)
+      .mutation(({ input, ctx }) => changePassword(input, ctx.user.id, ctx.sessionToken)),
+
+    setPassword: protectedProcedure
+      .input(setPasswordInputSchema)
+      .mutation(({ input, ctx }) => setPassword(input, ctx.user.id)),
+
+    // Sends a confirmation link to the new address; auth.verifyEmail applies the change
+    changeEmail: protectedProcedure
+      .input(changeEmailInputSchema)
+      .mutation(({ input, ctx }) => changeEmail(input, ctx.user.id)),
+
+    unlinkGoogle: protectedProcedure
+      .input(reauthenticationInputSchema)
+      .mutation(({ input, ctx }) => unlinkGoogle(input, ctx.user.id)),
+
+    setReportingCurrency: protectedProcedure
+      .input(currencyInputSchema)
+      .mutation(({ input, ctx }) => setReportingCurrency(input, ctx.user.id)),
+
+    setLocale: protectedProcedure
+      .input(localeInputSchema)
+      .mutation(({ input, ctx }) => setLocale(input, ctx.user.id))
+  }),
+
+  // API token routes (personal access tokens for scripts; managed from a signed-in session only)
+  apiTokens: router({
+    create: protectedProcedure
+      .input(createApiTokenInputSchema)
+      .mutation(({ input, ctx }) => createApiToken(input, ctx.user.id)),
+
+    list: protectedProcedure
+      .query(({ ctx }) => listApiTokens(ctx.user.id)),
+
+    revoke: protectedProcedure
+      .input(revokeApiTokenInputSchema)
+      .mutation(({ input, ctx }) => revokeApiToken(input, ctx.user.id))
+  }),
+
+  // Audit log routes
+  audit: router({
+    list: protectedProcedure
+      .input(listAuditEventsInputSchema)
+      .query(({ input, ctx }) => listAuditEvents(ctx.user.id, input))
+  }),
+
+  // Households: portfolios shared between family members
+  households: router({
+    create: protectedProcedure
+      .input(createHouseholdInputSchema)
+      .mutation(({ input, ctx }) => createHousehold(input, ctx.user.id)),
+
+    list: protectedProcedure
+      .query(({ ctx }) => listHouseholds(ctx.user.id)),
+
+    get: protectedProcedure
+      .input(householdIdInputSchema)
+      .query(({ input, ctx }) => getHousehold(input.household_id, ctx.user.id)),
+
+    rename: protectedProcedure
+      .input(renameHouseholdInputSchema)
+      .mutation(({ input, ctx }) => renameHousehold(input, ctx.user.id)),
+
+    delete: protectedProcedure
+      .input(householdIdInputSchema)
+      .mutation(({ input, ctx }) => deleteHousehold(input.household_id, ctx.user.id)),
+
+    invite: protectedProcedure
+      .input(inviteHouseholdMemberInputSchema)
+      .mutation(({ input, ctx }) => inviteHouseholdMember(input, ctx.user.id)),
+
+    listInvitations: protectedProcedure
+      .input(householdIdInputSchema)
+      .query(({ input, ctx }) => listHouseholdInvitations(input.household_id, ctx.user.id)),
+
+    revokeInvitation: protectedProcedure
+      .input(revokeHouseholdInvitationInputSchema)
+      .mutation(({ input, ctx }) => revokeHouseholdInvitation(input, ctx.user.id)),
+
+    acceptInvitation: protectedProcedure
+      .input(acceptHouseholdInvitationInputSchema)
+      .mutation(({ input, ctx }) => acceptHouseholdInvitation(input, ctx.user.id)),
+
+    updateMember: protectedProcedure
+      .input(updateHouseholdMemberInputSchema)
+      .mutation(({ input, ctx }) => updateHouseholdMember(input, ctx.user.id)),
+
+    removeMember: protectedProcedure
+      .input(removeHouseholdMemberInputSchema)
+      .mutation(({ input, ctx }) => removeHouseholdMember(input, ctx.user.id))
   }),
 
   // Transaction routes
   transactions: router({
-    create: publicProcedure
+    create: protectedProcedure
       .input(createTransactionInputSchema)
-      .mutation(({ input }) => createTransaction(input)),
+      .mutation(({ input, ctx }) => createTransaction(input, ctx.user.id)),
     
-    update: publicProcedure
+    update: protectedProcedure
       .input(updateTransactionInputSchema)
-      .mutation(({ input }) => updateTransaction(input)),
+      .mutation(({ input, ctx }) => updateTransaction(input, ctx.user.id)),
     
-    delete: publicProcedure
-      .input(z.object({ transactionId: z.number(), userId: z.number() }))
-      .mutation(({ input }) => deleteTransaction(input.transactionId, input.userId)),
+    delete: protectedProcedure
+      .input(z.object({ transactionId: z.number() }))
+      .mutation(({ input, ctx }) => deleteTransaction(input.transactionId, ctx.user.id)),
     
-    getByUser: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getUserTransactions(input.userId)),
+    // One page at a time; pass next_cursor back as cursor for the following page
+    getByUser: protectedProcedure
+      .input(listTransactionsInputSchema.default({}))
+      .query(({ input, ctx }) => listTransactions(ctx.user.id, input)),
     
-    getById: publicProcedure
-      .input(z.object({ transactionId: z.number(), userId: z.number() }))
-      .query(({ input }) => getTransactionById(input.transactionId, input.userId))
+    getById: protectedProcedure
+      .input(z.object({ transactionId: z.number() }))
+      .query(({ input, ctx }) => getTransactionById(input.transactionId, ctx.user.id)),
+    
+    // Take a deleted transaction back out of the trash
+    restore: protectedProcedure
+      .input(z.object({ transactionId: z.number() }))
+      .mutation(({ input, ctx }) => restoreTransaction(input.transactionId, ctx.user.id)),
+    
+    // A mutation although nothing is stored, so the file travels in the request body
+    importPreview: protectedProcedure
+      .input(transactionImportInputSchema)
+      .mutation(({ input, ctx }) => previewTransactionImport(input, ctx.user.id)),
+    
+    importCommit: protectedProcedure
+      .input(transactionImportCommitInputSchema)
+      .mutation(({ input, ctx }) => commitTransactionImport(input, ctx.user.id))
+  }),
+
+  // Deleted transactions and goals, restorable until purged after the retention period
+  trash: router({
+    list: protectedProcedure
+      .input(portfolioScopeInputSchema.optional())
+      .query(({ input, ctx }) => listTrash(ctx.user.id, input?.household_id ?? null))
+  }),
+
+  // Receipts and certificates attached to transactions; file contents travel as base64
+  attachments: router({
+    upload: protectedProcedure
+      .input(uploadAttachmentInputSchema)
+      .mutation(({ input, ctx }) => uploadAttachment(input, ctx.user.id)),
+
+    list: protectedProcedure
+      .input(z.object({ transactionId: z.number() }))
+      .query(({ input, ctx }) => listAttachments(input.transactionId, ctx.user.id)),
+
+    download: protectedProcedure
+      .input(downloadAttachmentInputSchema)
+      .query(({ input, ctx }) => downloadAttachment(input, ctx.user.id)),
+
+    delete: protectedProcedure
+      .input(z.object({ attachmentId: z.number() }))
+      .mutation(({ input, ctx }) => deleteAttachment(input.attachmentId, ctx.user.id))
+  }),
+
+  // File exports, streamed as the rows are read (use httpBatchStreamLink). CSV chunks are text to append;
+  // workbook chunks are base64 pieces of one XLSX file to join and decode
+  exports: router({
+    transactionsCsv: protectedProcedure
+      .input(exportInputSchema.default({}))
+      .query(({ input, ctx }) => exportTransactionsCsv(ctx.user.id, input)),
+
+    goalsCsv: protectedProcedure
+      .input(portfolioScopeInputSchema.optional())
+      .query(({ input, ctx }) => exportGoalsCsv(ctx.user.id, input?.household_id ?? null)),
+
+    zakatCsv: protectedProcedure
+      .query(({ ctx }) => exportZakatCsv(ctx.user.id)),
+
+    workbook: protectedProcedure
+      .input(exportInputSchema.default({}))
+      .query(({ input, ctx }) => exportWorkbook(ctx.user.id, input))
   }),
 
   // Goals routes
   goals: router({
-    create: publicProcedure
+    create: protectedProcedure
       .input(createGoalInputSchema)
-      .mutation(({ input }) => createGoal(input)),
+      .mutation(({ input, ctx }) => createGoal(input, ctx.user.id)),
     
-    update: publicProcedure
+    update: protectedProcedure
       .input(updateGoalInputSchema)
-      .mutation(({ input }) => updateGoal(input)),
+      .mutation(({ input, ctx }) => updateGoal(input, ctx.user.id)),
     
-    delete: publicProcedure
-      .input(z.object({ goalId: z.number(), userId: z.number() }))
-      .mutation(({ input }) => deleteGoal(input.goalId, input.userId)),
+    delete: protectedProcedure
+      .input(z.object({ goalId: z.number() }))
+      .mutation(({ input, ctx }) => deleteGoal(input.goalId, ctx.user.id)),
     
-    getByUser: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getUserGoals(input.userId)),
+    getByUser: protectedProcedure
+      .input(portfolioScopeInputSchema.optional())
+      .query(({ input, ctx }) => getUserGoals(ctx.user.id, input?.household_id ?? null)),
     
-    getById: publicProcedure
-      .input(z.object({ goalId: z.number(), userId: z.number() }))
-      .query(({ input }) => getGoalById(input.goalId, input.userId)),
+    getById: protectedProcedure
+      .input(z.object({ goalId: z.number() }))
+      .query(({ input, ctx }) => getGoalById(input.goalId, ctx.user.id)),
     
-    markCompleted: publicProcedure
-      .input(z.object({ goalId: z.number(), userId: z.number() }))
-      .mutation(({ input }) => markGoalCompleted(input.goalId, input.userId))
+    restore: protectedProcedure
+      .input(z.object({ goalId: z.number() }))
+      .mutation(({ input, ctx }) => restoreGoal(input.goalId, ctx.user.id)),
+    
+    markCompleted: protectedProcedure
+      .input(z.object({ goalId: z.number() }))
+      .mutation(({ input, ctx }) => markGoalCompleted(input.goalId, ctx.user.id))
   }),
 
   // Zakat routes
   zakat: router({
-    updateStatus: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .mutation(({ input }) => updateZakatStatus(input.userId)),
+    updateStatus: protectedProcedure
+      .mutation(({ ctx }) => updateZakatStatus(ctx.user.id)),
     
-    getStatus: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getZakatStatus(input.userId)),
+    getStatus: protectedProcedure
+      .query(({ ctx }) => getZakatStatus(ctx.user.id)),
     
-    calculateAmount: publicProcedure
-      .input(z.object({ userId: z.number(), goldPricePerGram: z.number() }))
-      .query(({ input }) => calculateZakatAmount(input.userId, input.goldPricePerGram)),
-    
-    getPendingReminders: publicProcedure
-      .query(() => getUsersForZakatReminder())
+    // The price is taken to be in the reporting currency unless its currency is given
+    calculateAmount: protectedProcedure
+      .input(z.object({ goldPricePerGram: z.number(), currency: currencyCodeSchema.optional() }))
+      .query(({ input, ctx }) => calculateZakatAmount(ctx.user.id, input.goldPricePerGram, input.currency ?? null))
   }),
 
   // Dashboard routes
   dashboard: router({
-    getData: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getDashboardData(input.userId)),
+    getData: protectedProcedure
+      .input(portfolioScopeInputSchema.optional())
+      .query(({ input, ctx }) => getDashboardData(ctx.user.id, input?.household_id ?? null)),
     
-    getTotalHoldings: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => calculateTotalGoldHoldings(input.userId)),
+    getTotalHoldings: protectedProcedure
+      .input(portfolioScopeInputSchema.optional())
+      .query(({ input, ctx }) => calculateTotalGoldHoldings(ctx.user.id, input?.household_id ?? null)),
     
-    getGoalsProgress: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => calculateGoalsProgress(input.userId))
+    getGoalsProgress: protectedProcedure
+      .input(portfolioScopeInputSchema.optional())
+      .query(({ input, ctx }) => calculateGoalsProgress(ctx.user.id, input?.household_id ?? null)),
+
+    getCostBasis: protectedProcedure
+      .input(portfolioScopeInputSchema.optional())
+      .query(({ input, ctx }) => getCostBasis(ctx.user.id, input?.household_id ?? null)),
+
+    getHoldingsBreakdown: protectedProcedure
+      .input(holdingsBreakdownInputSchema)
+      .query(({ input, ctx }) => getHoldingsBreakdown(ctx.user.id, input.household_id ?? null, input.group_by))
   }),
 
   // Gold price routes
@@ -168,14 +554,64 @@ const appRouter = router({
     
     getCached: publicProcedure
       .query(() => getCachedGoldPrice()),
-    
-    fetchFresh: publicProcedure
-      .query(() => fetchCurrentGoldPrice())
+
+    getInCurrency: publicProcedure
+      .input(currencyInputSchema)
+      .query(({ input }) => getGoldPriceIn(input.currency))
+  }),
+
+  // Admin routes (operational endpoints and user support)
+  admin: router({
+    listUsers: adminProcedure
+      .input(listUsersInputSchema)
+      .query(({ input }) => listUsers(input)),
+
+    getUser: adminProcedure
+      .input(z.object({ userId: z.number() }))
+      .query(({ input }) => getUserDetail(input.userId)),
+
+    setUserRole: adminProcedure
+      .input(setUserRoleInputSchema)
+      .mutation(({ input, ctx }) => setUserRole(input, ctx.user.id)),
+
+    listAuditEvents: adminProcedure
+      .input(listAuditEventsInputSchema.extend({ userId: z.number() }))
+      .query(({ input: { userId, ...filters } }) => listAuditEvents(userId, filters)),
+
+    recomputeZakat: adminProcedure
+      .input(z.object({ userId: z.number() }))
+      .mutation(({ input }) => recomputeUserZakat(input.userId)),
+
+    getPendingZakatReminders: adminProcedure
+      .query(() => getUsersForZakatReminder()),
+
+    fetchFreshGoldPrice: adminProcedure
+      .query(() => fetchCurrentGoldPrice()),
+
+    // Pulls the rate provider's rates for a day (today by default) into fx_rates
+    refreshFxRates: adminProcedure
+      .input(z.object({ date: z.coerce.date().optional() }).optional())
+      .mutation(({ input }) => refreshFxRates(input?.date))
   })
 });
 
 export type AppRouter = typeof appRouter;
 
+// Hourly housekeeping: drop expired sessions and API tokens, purge accounts whose deletion grace period ended
+// and empty trashed rows past their retention
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+
+async function runMaintenance() {
+  try {
+    await deleteExpiredSessions();
+    await deleteExpiredApiTokens();
+    await purgeDueAccountDeletions();
+    await purgeExpiredTrash();
+  } catch (error) {
+    console.error('Maintenance run failed:', error);
+  }
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
@@ -183,12 +619,20 @@ async function start() {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
+  // Promote configured admins once at startup (ADMIN_EMAILS=alice@example.com,bob@example.com)
+  const adminEmails = (process.env['ADMIN_EMAILS'] || '').split(',').map(email => email.trim()).filter(Boolean);
+  await promoteAdminsByEmail(adminEmails);
+
   server.listen(port);
   console.log(`EmasTrack TRPC server listening at port: ${port}`);
+
+  runMaintenance();
+  setInterval(runMaintenance, MAINTENANCE_INTERVAL_MS);
 }
 
-start();
\ No newline at end of file
+// Only listen when run directly, so tests can import the router
+if (import.meta.main) {
+  start();
+}
\ No newline at end of file
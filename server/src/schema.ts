@@ -1,5 +1,13 @@
 import { z } from 'zod';
 
+// User role schema
+export const userRoleSchema = z.enum(['user', 'admin']);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+// ISO 4217 currency code, e.g. IDR or MYR
+export const currencyCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Use a three-letter ISO 4217 currency code');
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -7,12 +15,42 @@ export const userSchema = z.object({
   password_hash: z.string(),
   name: z.string(),
   google_id: z.string().nullable(),
+  role: userRoleSchema,
+  email_verified_at: z.coerce.date().nullable(),
+  totp_secret: z.string().nullable(),
+  totp_enabled_at: z.coerce.date().nullable(),
+  totp_last_used_step: z.number().int().nullable(),
+  deletion_scheduled_for: z.coerce.date().nullable(),
+  reporting_currency: z.string(),
+  locale: z.string(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// Sign-in methods linked to an account
+export const authProviderSchema = z.enum(['password', 'google']);
+
+export type AuthProvider = z.infer<typeof authProviderSchema>;
+
+// Public user profile returned to the browser (never includes password_hash)
+export const publicUserSchema = z.object({
+  id: z.number(),
+  email: z.string().email(),
+  name: z.string(),
+  role: userRoleSchema,
+  providers: z.array(authProviderSchema),
+  email_verified: z.boolean(),
+  two_factor_enabled: z.boolean(),
+  deletion_scheduled_for: z.coerce.date().nullable(),
+  reporting_currency: z.string(), // Currency valuations are shown in
+  locale: z.string(), // How exports write numbers and dates
+  created_at: z.coerce.date()
+});
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
 // Auth schemas
 export const signUpInputSchema = z.object({
   email: z.string().email(),
@@ -29,37 +67,217 @@ export const signInInputSchema = z.object({
 
 export type SignInInput = z.infer<typeof signInInputSchema>;
 
+// Google sign-in: the signed ID token from Google Identity Services, verified server-side
 export const googleAuthInputSchema = z.object({
-  google_id: z.string(),
-  email: z.string().email(),
-  name: z.string()
+  id_token: z.string().min(1)
 });
 
 export type GoogleAuthInput = z.infer<typeof googleAuthInputSchema>;
 
+// Password reset schemas
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+// Email verification schemas
+export const verifyEmailInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailInputSchema>;
+
+// Session issued after a successful sign-in
+export const authSessionSchema = z.object({
+  user: publicUserSchema,
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// A signed-in device as shown to its owner (never includes the token)
+export const sessionInfoSchema = z.object({
+  id: z.number(),
+  name: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  created_at: z.coerce.date(),
+  last_seen_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+  current: z.boolean()
+});
+
+export type SessionInfo = z.infer<typeof sessionInfoSchema>;
+
+export const renameSessionInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).max(100)
+});
+
+export type RenameSessionInput = z.infer<typeof renameSessionInputSchema>;
+
+export const revokeSessionInputSchema = z.object({
+  id: z.number()
+});
+
+export type RevokeSessionInput = z.infer<typeof revokeSessionInputSchema>;
+
+// Personal access token schemas (read tokens may only call queries)
+export const apiTokenScopeSchema = z.enum(['read', 'write']);
+
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
+// A token as shown to its owner (never includes the token itself)
+export const apiTokenInfoSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  token_prefix: z.string(),
+  scope: apiTokenScopeSchema,
+  expires_at: z.coerce.date(),
+  last_used_at: z.coerce.date().nullable(),
+  last_used_ip: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiTokenInfo = z.infer<typeof apiTokenInfoSchema>;
+
+// Returned once at creation; the raw token cannot be retrieved again
+export const issuedApiTokenSchema = apiTokenInfoSchema.extend({
+  token: z.string()
+});
+
+export type IssuedApiToken = z.infer<typeof issuedApiTokenSchema>;
+
+export const createApiTokenInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scope: apiTokenScopeSchema.default('read'),
+  expires_in_days: z.number().int().min(1).max(365).default(90)
+});
+
+export type CreateApiTokenInput = z.infer<typeof createApiTokenInputSchema>;
+
+export const revokeApiTokenInputSchema = z.object({
+  id: z.number()
+});
+
+export type RevokeApiTokenInput = z.infer<typeof revokeApiTokenInputSchema>;
+
+// Two-factor (TOTP) schemas
+export const totpEnrollmentSchema = z.object({
+  secret: z.string(),
+  provisioning_uri: z.string()
+});
+
+export type TotpEnrollment = z.infer<typeof totpEnrollmentSchema>;
+
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(6) // Six-digit TOTP code or a recovery code
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const recoveryCodesSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+
+export const twoFactorChallengeSchema = z.object({
+  challenge_token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+
+export const verifyTwoFactorInputSchema = z.object({
+  challenge_token: z.string().min(1),
+  code: z.string().min(6)
+});
+
+export type VerifyTwoFactorInput = z.infer<typeof verifyTwoFactorInputSchema>;
+
+// Sign-in either completes or stops at a pending two-factor challenge
+export const signInResultSchema = z.discriminatedUnion('status', [
+  authSessionSchema.extend({ status: z.literal('authenticated') }),
+  twoFactorChallengeSchema.extend({ status: z.literal('two_factor_required') })
+]);
+
+export type SignInResult = z.infer<typeof signInResultSchema>;
+
+// Which portfolio a read covers: a household the caller belongs to, or their personal one
+export const portfolioScopeInputSchema = z.object({
+  household_id: z.number().optional()
+});
+
+export type PortfolioScopeInput = z.infer<typeof portfolioScopeInputSchema>;
+
+// Form gold is held in: minted bars, coins, jewelry, digital/savings-account gold or granules
+export const itemFormSchema = z.enum(['bar', 'coin', 'jewelry', 'digital', 'granules']);
+
+export type ItemForm = z.infer<typeof itemFormSchema>;
+
+// Costs on top of the metal itself: making charges on jewelry, dealer premiums, VAT/PPh, shipping and fees
+export const costKindSchema = z.enum(['making_charge', 'premium', 'tax', 'shipping', 'fee', 'other']);
+
+export type CostKind = z.infer<typeof costKindSchema>;
+
+export const costComponentSchema = z.object({
+  kind: costKindSchema,
+  label: z.string().trim().min(1).max(100).nullable().optional(), // e.g. 'PPh 22'
+  amount: z.number().positive() // In the transaction's currency
+});
+
+export type CostComponent = z.infer<typeof costComponentSchema>;
+
 // Gold transaction schema
 export const goldTransactionSchema = z.object({
   id: z.number(),
   user_id: z.number(),
+  household_id: z.number().nullable(),
   type: z.enum(['buy', 'sell']),
-  weight_grams: z.number().positive(),
+  weight_grams: z.number().positive(), // Gross weight
+  fineness: z.number().positive(), // Millesimal, 1000 is pure gold
+  fine_weight_grams: z.number().positive(), // Pure gold content
   price_per_gram: z.number().positive(),
-  total_price: z.number().positive(),
+  metal_cost: z.number().positive(), // weight_grams * price_per_gram
+  cost_components: z.array(costComponentSchema),
+  total_price: z.number().positive(), // Metal cost plus components (less them for sales), unless entered as paid
+  total_price_as_paid: z.boolean(), // Whether total_price was entered rather than computed
+  currency: z.string(), // Of every amount on the transaction
+  item_form: itemFormSchema.nullable(),
+  brand: z.string().nullable(),
   transaction_date: z.coerce.date(),
   description: z.string().nullable(),
   created_at: z.coerce.date(),
-  updated_at: z.coerce.date()
+  updated_at: z.coerce.date(),
+  deleted_at: z.coerce.date().nullable() // Set while the transaction is in the trash
 });
 
 export type GoldTransaction = z.infer<typeof goldTransactionSchema>;
 
 export const createTransactionInputSchema = z.object({
-  user_id: z.number(),
   type: z.enum(['buy', 'sell']),
   weight_grams: z.number().positive(),
   price_per_gram: z.number().positive(),
   transaction_date: z.coerce.date(),
-  description: z.string().nullable().optional()
+  karat: z.number().positive().max(24).optional(), // Give karat or fineness, not both; pure gold when neither is given
+  fineness: z.number().positive().max(1000).optional(),
+  cost_components: z.array(costComponentSchema).max(20).optional(),
+  total_price: z.number().positive().optional(), // What was actually paid or received; computed when omitted
+  currency: currencyCodeSchema.optional(), // Defaults to the user's reporting currency
+  item_form: itemFormSchema.nullable().optional(),
+  brand: z.string().trim().min(1).max(100).nullable().optional(), // Brand or mint
+  description: z.string().nullable().optional(),
+  household_id: z.number().optional() // Omit to record in the personal portfolio
 });
 
 export type CreateTransactionInput = z.infer<typeof createTransactionInputSchema>;
@@ -69,33 +287,233 @@ export const updateTransactionInputSchema = z.object({
   type: z.enum(['buy', 'sell']).optional(),
   weight_grams: z.number().positive().optional(),
   price_per_gram: z.number().positive().optional(),
+  karat: z.number().positive().max(24).optional(),
+  fineness: z.number().positive().max(1000).optional(),
+  cost_components: z.array(costComponentSchema).max(20).optional(), // Replaces the existing components
+  total_price: z.number().positive().nullable().optional(), // Null goes back to computing it
+  currency: currencyCodeSchema.optional(),
+  item_form: itemFormSchema.nullable().optional(),
+  brand: z.string().trim().min(1).max(100).nullable().optional(),
   transaction_date: z.coerce.date().optional(),
   description: z.string().nullable().optional()
 });
 
 export type UpdateTransactionInput = z.infer<typeof updateTransactionInputSchema>;
 
+// Transaction list schemas: keyset pagination over the filtered, sorted set
+export const transactionSortFieldSchema = z.enum(['transaction_date', 'weight_grams', 'price_per_gram', 'total_price']);
+
+export type TransactionSortField = z.infer<typeof transactionSortFieldSchema>;
+
+export const listTransactionsInputSchema = z.object({
+  household_id: z.number().optional(), // Omit for the personal portfolio
+  cursor: z.string().optional(), // next_cursor from the previous page
+  limit: z.number().int().min(1).max(100).default(25),
+  type: z.enum(['buy', 'sell']).optional(),
+  item_form: itemFormSchema.optional(),
+  date_from: z.coerce.date().optional(),
+  date_to: z.coerce.date().optional(),
+  min_weight_grams: z.number().nonnegative().optional(),
+  max_weight_grams: z.number().nonnegative().optional(),
+  min_price_per_gram: z.number().nonnegative().optional(),
+  max_price_per_gram: z.number().nonnegative().optional(),
+  search: z.string().trim().min(1).max(200).optional(), // Full-text search on the description
+  sort_by: transactionSortFieldSchema.default('transaction_date'),
+  sort_direction: z.enum(['asc', 'desc']).default('desc')
+});
+
+export type ListTransactionsInput = z.infer<typeof listTransactionsInputSchema>;
+
+// Aggregates cover the whole filtered set, not just the current page
+export const transactionTotalsSchema = z.object({
+  count: z.number().int(),
+  total_weight_grams: z.number(),
+  net_weight_grams: z.number(), // Bought minus sold
+  net_fine_weight_grams: z.number(), // Bought minus sold, pure gold content
+  bought_amount: z.number(), // Paid for purchases, converted at each transaction's date
+  sold_amount: z.number(), // Received for sales, converted the same way
+  currency: z.string() // The user's reporting currency
+});
+
+export type TransactionTotals = z.infer<typeof transactionTotalsSchema>;
+
+export const transactionPageSchema = z.object({
+  items: z.array(goldTransactionSchema),
+  next_cursor: z.string().nullable(),
+  totals: transactionTotalsSchema
+});
+
+export type TransactionPage = z.infer<typeof transactionPageSchema>;
+
+// CSV import schemas: the file is parsed and checked by importPreview, then sent again to importCommit
+export const importColumnSchema = z.union([
+  z.string().trim().min(1), // Header name, matched case-insensitively
+  z.number().int().nonnegative() // Zero-based position, for files without a header row
+]);
+
+export type ImportColumn = z.infer<typeof importColumnSchema>;
+
+export const importMappingSchema = z.object({
+  type: importColumnSchema,
+  weight_grams: importColumnSchema,
+  price_per_gram: importColumnSchema,
+  transaction_date: importColumnSchema,
+  karat: importColumnSchema.optional(),
+  fineness: importColumnSchema.optional(),
+  total_price: importColumnSchema.optional(),
+  currency: importColumnSchema.optional(),
+  item_form: importColumnSchema.optional(),
+  brand: importColumnSchema.optional(),
+  description: importColumnSchema.optional()
+});
+
+export type ImportMapping = z.infer<typeof importMappingSchema>;
+
+export const importDateFormatSchema = z.enum(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY']);
+
+export type ImportDateFormat = z.infer<typeof importDateFormatSchema>;
+
+export const transactionImportInputSchema = z.object({
+  csv: z.string().min(1).max(2_000_000),
+  household_id: z.number().optional(), // Omit to import into the personal portfolio
+  mapping: importMappingSchema,
+  has_header: z.boolean().default(true),
+  delimiter: z.enum([',', ';', '\t']).default(','),
+  date_format: importDateFormatSchema.default('YYYY-MM-DD'),
+  decimal_separator: z.enum(['.', ',']).default('.'), // The other one is read as a thousands separator
+  type_aliases: z.record(z.string(), z.enum(['buy', 'sell'])).default({}) // e.g. { "Beli": "buy", "Jual": "sell" }
+});
+
+export type TransactionImportInput = z.infer<typeof transactionImportInputSchema>;
+
+export const transactionImportCommitInputSchema = transactionImportInputSchema.extend({
+  include_duplicate_rows: z.array(z.number().int()).default([]) // Rows flagged as duplicates to import anyway
+});
+
+export type TransactionImportCommitInput = z.infer<typeof transactionImportCommitInputSchema>;
+
+export const importPreviewRowSchema = z.object({
+  row_number: z.number().int(), // Row in the file, counting the header
+  status: z.enum(['valid', 'invalid', 'duplicate']),
+  errors: z.array(z.string()),
+  duplicate_of_transaction_id: z.number().nullable(), // An existing transaction this row looks like
+  duplicate_of_row: z.number().int().nullable(), // An earlier row in the same file this row looks like
+  transaction: createTransactionInputSchema.nullable()
+});
+
+export type ImportPreviewRow = z.infer<typeof importPreviewRowSchema>;
+
+export const importPreviewSchema = z.object({
+  rows: z.array(importPreviewRowSchema),
+  valid: z.number().int(),
+  invalid: z.number().int(),
+  duplicates: z.number().int()
+});
+
+export type ImportPreview = z.infer<typeof importPreviewSchema>;
+
+export const importCommitRowSchema = z.object({
+  row_number: z.number().int(),
+  status: z.enum(['imported', 'skipped']),
+  transaction_id: z.number().nullable(),
+  reason: z.string().nullable() // Why a row was skipped
+});
+
+export type ImportCommitRow = z.infer<typeof importCommitRowSchema>;
+
+export const importCommitResultSchema = z.object({
+  rows: z.array(importCommitRowSchema),
+  imported: z.number().int(),
+  skipped: z.number().int()
+});
+
+export type ImportCommitResult = z.infer<typeof importCommitResultSchema>;
+
+// Export schemas: files are streamed in chunks rather than returned whole
+export const exportInputSchema = portfolioScopeInputSchema.extend({
+  date_from: z.coerce.date().optional(), // The date range only limits transactions
+  date_to: z.coerce.date().optional()
+});
+
+export type ExportInput = z.infer<typeof exportInputSchema>;
+
+// Transaction attachment schemas: files travel base64-encoded inside the JSON body
+export const attachmentKindSchema = z.enum(['invoice', 'certificate', 'other']);
+
+export type AttachmentKind = z.infer<typeof attachmentKindSchema>;
+
+export const transactionAttachmentSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  uploaded_by: z.number(),
+  kind: attachmentKindSchema,
+  file_name: z.string(),
+  content_type: z.string(),
+  size_bytes: z.number().int(),
+  sha256: z.string(),
+  has_thumbnail: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type TransactionAttachment = z.infer<typeof transactionAttachmentSchema>;
+
+// Largest attachment accepted: ATTACHMENT_MAX_BYTES as set at startup, else 10 MB
+export const MAX_ATTACHMENT_BYTES = (() => {
+  const configured = parseInt(process.env['ATTACHMENT_MAX_BYTES'] || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : 10 * 1024 * 1024;
+})();
+
+export const uploadAttachmentInputSchema = z.object({
+  transaction_id: z.number(),
+  kind: attachmentKindSchema.default('other'),
+  file_name: z.string().trim().min(1).max(255),
+  data: z.string()
+    .min(1)
+    .max(Math.ceil(MAX_ATTACHMENT_BYTES / 3) * 4, 'The file is larger than attachments can be') // Base64 of the largest file
+    .regex(/^[A-Za-z0-9+/]*={0,2}$/, 'File data must be base64') // Exact size is checked once decoded
+});
+
+export type UploadAttachmentInput = z.infer<typeof uploadAttachmentInputSchema>;
+
+export const downloadAttachmentInputSchema = z.object({
+  attachment_id: z.number(),
+  variant: z.enum(['original', 'thumbnail']).default('original')
+});
+
+export type DownloadAttachmentInput = z.infer<typeof downloadAttachmentInputSchema>;
+
+export const attachmentFileSchema = z.object({
+  file_name: z.string(),
+  content_type: z.string(),
+  size_bytes: z.number().int(),
+  data: z.string() // Base64
+});
+
+export type AttachmentFile = z.infer<typeof attachmentFileSchema>;
+
 // Gold purchase goal schema
 export const goldGoalSchema = z.object({
   id: z.number(),
   user_id: z.number(),
+  household_id: z.number().nullable(),
   target_weight_grams: z.number().positive(),
   deadline: z.coerce.date(),
   title: z.string(),
   description: z.string().nullable(),
   is_completed: z.boolean(),
   created_at: z.coerce.date(),
-  updated_at: z.coerce.date()
+  updated_at: z.coerce.date(),
+  deleted_at: z.coerce.date().nullable() // Set while the goal is in the trash
 });
 
 export type GoldGoal = z.infer<typeof goldGoalSchema>;
 
 export const createGoalInputSchema = z.object({
-  user_id: z.number(),
   target_weight_grams: z.number().positive(),
   deadline: z.coerce.date(),
   title: z.string().min(1),
-  description: z.string().nullable().optional()
+  description: z.string().nullable().optional(),
+  household_id: z.number().optional() // Omit for a personal goal
 });
 
 export type CreateGoalInput = z.infer<typeof createGoalInputSchema>;
@@ -111,6 +529,116 @@ export const updateGoalInputSchema = z.object({
 
 export type UpdateGoalInput = z.infer<typeof updateGoalInputSchema>;
 
+// Trash: deleted transactions and goals, kept for retention_days after deletion before they are purged
+export const trashSchema = z.object({
+  transactions: z.array(goldTransactionSchema),
+  goals: z.array(goldGoalSchema),
+  retention_days: z.number().int()
+});
+
+export type Trash = z.infer<typeof trashSchema>;
+
+// Household schemas
+export const householdRoleSchema = z.enum(['viewer', 'editor', 'owner']);
+
+export type HouseholdRole = z.infer<typeof householdRoleSchema>;
+
+// A household as seen by one of its members
+export const householdSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  role: householdRoleSchema, // The caller's role
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Household = z.infer<typeof householdSchema>;
+
+export const householdMemberSchema = z.object({
+  user_id: z.number(),
+  name: z.string(),
+  email: z.string().email(),
+  role: householdRoleSchema,
+  joined_at: z.coerce.date()
+});
+
+export type HouseholdMember = z.infer<typeof householdMemberSchema>;
+
+export const householdDetailSchema = householdSchema.extend({
+  members: z.array(householdMemberSchema)
+});
+
+export type HouseholdDetail = z.infer<typeof householdDetailSchema>;
+
+// Pending or accepted invitation (never includes the token)
+export const householdInvitationSchema = z.object({
+  id: z.number(),
+  household_id: z.number(),
+  email: z.string().email(),
+  role: householdRoleSchema,
+  expires_at: z.coerce.date(),
+  accepted_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type HouseholdInvitation = z.infer<typeof householdInvitationSchema>;
+
+export const createHouseholdInputSchema = z.object({
+  name: z.string().trim().min(1).max(100)
+});
+
+export type CreateHouseholdInput = z.infer<typeof createHouseholdInputSchema>;
+
+export const renameHouseholdInputSchema = z.object({
+  household_id: z.number(),
+  name: z.string().trim().min(1).max(100)
+});
+
+export type RenameHouseholdInput = z.infer<typeof renameHouseholdInputSchema>;
+
+export const householdIdInputSchema = z.object({
+  household_id: z.number()
+});
+
+export type HouseholdIdInput = z.infer<typeof householdIdInputSchema>;
+
+// Ownership is granted to existing members, never by invitation
+export const inviteHouseholdMemberInputSchema = z.object({
+  household_id: z.number(),
+  email: z.string().email(),
+  role: z.enum(['viewer', 'editor']).default('viewer')
+});
+
+export type InviteHouseholdMemberInput = z.infer<typeof inviteHouseholdMemberInputSchema>;
+
+export const revokeHouseholdInvitationInputSchema = z.object({
+  invitation_id: z.number()
+});
+
+export type RevokeHouseholdInvitationInput = z.infer<typeof revokeHouseholdInvitationInputSchema>;
+
+export const acceptHouseholdInvitationInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type AcceptHouseholdInvitationInput = z.infer<typeof acceptHouseholdInvitationInputSchema>;
+
+export const updateHouseholdMemberInputSchema = z.object({
+  household_id: z.number(),
+  user_id: z.number(),
+  role: householdRoleSchema
+});
+
+export type UpdateHouseholdMemberInput = z.infer<typeof updateHouseholdMemberInputSchema>;
+
+// Owners can remove anyone; any member can remove themselves (leave)
+export const removeHouseholdMemberInputSchema = z.object({
+  household_id: z.number(),
+  user_id: z.number()
+});
+
+export type RemoveHouseholdMemberInput = z.infer<typeof removeHouseholdMemberInputSchema>;
+
 // Zakat reminder schema
 export const zakatReminderSchema = z.object({
   id: z.number(),
@@ -125,16 +653,52 @@ export const zakatReminderSchema = z.object({
 
 export type ZakatReminder = z.infer<typeof zakatReminderSchema>;
 
+// What a portfolio holds of one item form or brand; null collects transactions without one
+export const holdingsBreakdownEntrySchema = z.object({
+  key: z.string().nullable(),
+  fine_weight_grams: z.number(),
+  gross_weight_grams: z.number(),
+  estimated_value: z.number() // In the user's reporting currency
+});
+
+export type HoldingsBreakdownEntry = z.infer<typeof holdingsBreakdownEntrySchema>;
+
+// Where the money went, in the user's reporting currency; remaining holdings are valued at average cost
+export const costBasisSchema = z.object({
+  currency: z.string(),
+  bought_fine_weight_grams: z.number(),
+  metal_cost: z.number(),
+  overheads: z.record(z.enum([...costKindSchema.options, 'unitemized']), z.number()),
+  total_cost: z.number(),
+  average_cost_per_fine_gram: z.number(),
+  sold_fine_weight_grams: z.number(),
+  sale_proceeds: z.number(),
+  remaining_fine_weight_grams: z.number(),
+  remaining_cost_basis: z.number()
+});
+
+export type CostBasis = z.infer<typeof costBasisSchema>;
+
+export const holdingsBreakdownInputSchema = portfolioScopeInputSchema.extend({
+  group_by: z.enum(['item_form', 'brand'])
+});
+
+export type HoldingsBreakdownInput = z.infer<typeof holdingsBreakdownInputSchema>;
+
 // Dashboard data schema
 export const dashboardDataSchema = z.object({
-  total_gold_grams: z.number(),
+  total_gold_grams: z.number(), // Pure gold content, which the value, goals and zakat are based on
+  total_gross_weight_grams: z.number(), // What the items weigh, including alloy
+  currency: z.string(), // Reporting currency of every value below
   estimated_total_value: z.number(),
   current_gold_price: z.number(),
+  holdings_by_form: z.array(holdingsBreakdownEntrySchema),
   goals_progress: z.array(z.object({
     id: z.number(),
     title: z.string(),
     target_weight_grams: z.number(),
     current_progress_percentage: z.number(),
+    remaining_value: z.number(), // What the missing grams cost at today's price
     deadline: z.coerce.date(),
     is_completed: z.boolean()
   })),
@@ -155,4 +719,142 @@ export const goldPriceSchema = z.object({
   timestamp: z.coerce.date()
 });
 
-export type GoldPrice = z.infer<typeof goldPriceSchema>;
\ No newline at end of file
+export type GoldPrice = z.infer<typeof goldPriceSchema>;
+
+// Gold price converted into another currency at today's rate
+export const localGoldPriceSchema = goldPriceSchema.extend({
+  currency: z.string(),
+  price_per_gram: z.number().positive()
+});
+
+export type LocalGoldPrice = z.infer<typeof localGoldPriceSchema>;
+
+export const currencyInputSchema = z.object({
+  currency: currencyCodeSchema
+});
+
+export type CurrencyInput = z.infer<typeof currencyInputSchema>;
+
+export const localeInputSchema = z.object({
+  locale: z.string().trim().min(2).max(35) // BCP 47 tag such as 'en-US' or 'id-ID'
+});
+
+export type LocaleInput = z.infer<typeof localeInputSchema>;
+
+// Proof of identity for sensitive account changes: the password (or a fresh Google ID token
+// for Google-only accounts), plus a TOTP or recovery code when two-factor is enabled
+export const reauthenticationInputSchema = z.object({
+  password: z.string().optional(),
+  id_token: z.string().min(1).optional(),
+  code: z.string().optional()
+});
+
+export type ReauthenticationInput = z.infer<typeof reauthenticationInputSchema>;
+
+// Personal data archive
+export const accountExportSchema = z.object({
+  format_version: z.literal(1),
+  exported_at: z.coerce.date(),
+  profile: publicUserSchema,
+  gold_transactions: z.array(goldTransactionSchema),
+  gold_goals: z.array(goldGoalSchema),
+  zakat_reminders: z.array(zakatReminderSchema)
+});
+
+export type AccountExport = z.infer<typeof accountExportSchema>;
+
+export const accountDeletionSchema = z.object({
+  scheduled_for: z.coerce.date()
+});
+
+export type AccountDeletion = z.infer<typeof accountDeletionSchema>;
+
+// Credential changes: each carries the same proof of identity as other sensitive changes
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string().min(8),
+  code: z.string().optional()
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// Google-only accounts prove themselves with a fresh ID token before choosing a first password
+export const setPasswordInputSchema = reauthenticationInputSchema.extend({
+  new_password: z.string().min(8)
+});
+
+export type SetPasswordInput = z.infer<typeof setPasswordInputSchema>;
+
+export const changeEmailInputSchema = reauthenticationInputSchema.extend({
+  new_email: z.string().email()
+});
+
+export type ChangeEmailInput = z.infer<typeof changeEmailInputSchema>;
+
+// Admin schemas
+export const listUsersInputSchema = z.object({
+  search: z.string().trim().min(1).optional(), // Matches email or name
+  limit: z.number().int().min(1).max(100).default(50),
+  offset: z.number().int().min(0).default(0)
+});
+
+export type ListUsersInput = z.infer<typeof listUsersInputSchema>;
+
+export const adminUserListSchema = z.object({
+  users: z.array(publicUserSchema),
+  total: z.number().int()
+});
+
+export type AdminUserList = z.infer<typeof adminUserListSchema>;
+
+export const adminUserDetailSchema = publicUserSchema.extend({
+  updated_at: z.coerce.date(),
+  transaction_count: z.number().int(),
+  goal_count: z.number().int(),
+  zakat_status: zakatReminderSchema.nullable()
+});
+
+export type AdminUserDetail = z.infer<typeof adminUserDetailSchema>;
+
+export const setUserRoleInputSchema = z.object({
+  userId: z.number(),
+  role: userRoleSchema
+});
+
+export type SetUserRoleInput = z.infer<typeof setUserRoleInputSchema>;
+
+// Audit log schemas
+export const auditActionSchema = z.enum(['create', 'update', 'delete']);
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+export const auditEntityTypeSchema = z.enum(['transaction', 'goal', 'zakat_reminder', 'user', 'session', 'api_token', 'household', 'attachment']);
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+export const auditEventSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  actor_user_id: z.number().nullable(),
+  action: auditActionSchema,
+  entity_type: auditEntityTypeSchema,
+  entity_id: z.number().nullable(),
+  reason: z.string().nullable(),
+  before: z.unknown().nullable(),
+  after: z.unknown().nullable(),
+  ip_address: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+export const listAuditEventsInputSchema = z.object({
+  entity_type: auditEntityTypeSchema.optional(),
+  entity_id: z.number().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(200).default(50),
+  offset: z.number().int().min(0).default(0)
+});
+
+export type ListAuditEventsInput = z.infer<typeof listAuditEventsInputSchema>;
\ No newline at end of file
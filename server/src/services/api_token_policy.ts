@@ -0,0 +1,18 @@
+import { type ApiTokenScope } from '../schema';
+
+// Routers that manage credentials, the account or who shares a household stay behind an interactive session
+const SESSION_ONLY_ROUTERS = ['auth.', 'account.', 'apiTokens.', 'admin.', 'households.'];
+
+// Routes inside those routers that scripts may still call; listing households gives them ids to filter portfolios by
+const API_TOKEN_EXCEPTIONS = ['auth.me', 'households.list'];
+
+// Explain why a personal access token may not call a procedure, or null if it may; read tokens are limited to queries
+export function apiTokenDenialReason(scope: ApiTokenScope, path: string, type: string): string | null {
+  if (!API_TOKEN_EXCEPTIONS.includes(path) && SESSION_ONLY_ROUTERS.some(prefix => path.startsWith(prefix))) {
+    return 'API tokens cannot be used for this route, please sign in';
+  }
+  if (scope === 'read' && type !== 'query') {
+    return 'This API token is read-only';
+  }
+  return null;
+}
\ No newline at end of file
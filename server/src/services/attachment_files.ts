@@ -0,0 +1,57 @@
+import sharp, { type FormatEnum } from 'sharp';
+
+export const ATTACHMENT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'] as const;
+
+export type AttachmentContentType = typeof ATTACHMENT_CONTENT_TYPES[number];
+
+// Longest side of a generated thumbnail, in pixels
+export const THUMBNAIL_SIZE = 256;
+
+// Larger images are stored without a thumbnail rather than decoded; this still covers a 24 megapixel camera photo
+const MAX_DECODED_PIXELS = 25_000_000;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const THUMBNAIL_FORMATS: Partial<Record<AttachmentContentType, keyof FormatEnum>> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+// Work out what a file is from its first bytes; the name and declared type are not trusted
+export function detectContentType(data: Buffer): AttachmentContentType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+  if (data.length >= 12 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (data.toString('latin1', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  return null;
+}
+
+// Make a small preview of an image in the image's own format, turned the way its EXIF orientation says.
+// Decoding happens on libvips' worker threads, not the request thread. PDFs, and images that cannot be read
+// or are too large, get no thumbnail
+export async function createThumbnail(data: Buffer, contentType: AttachmentContentType): Promise<{ data: Buffer; content_type: AttachmentContentType } | null> {
+  const format = THUMBNAIL_FORMATS[contentType];
+  if (format === undefined) {
+    return null;
+  }
+
+  try {
+    const thumbnail = await sharp(data, { limitInputPixels: MAX_DECODED_PIXELS })
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .toFormat(format)
+      .toBuffer();
+    return { data: thumbnail, content_type: contentType };
+  } catch {
+    return null; // Malformed, truncated or over the pixel limit
+  }
+}
\ No newline at end of file
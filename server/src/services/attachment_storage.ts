@@ -0,0 +1,140 @@
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, NoSuchKey } from '@aws-sdk/client-s3';
+import { mkdir, readFile, writeFile, rm } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+// Anywhere attachment files can be kept; keys are generated by the server, e.g. 'transactions/12/3f9c0a7e.pdf'
+export interface AttachmentStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // Null when nothing is stored under the key
+  delete(key: string): Promise<void>; // Deleting a missing file is not an error
+}
+
+// Storage that keeps files in memory (tests and local development)
+export interface MemoryAttachmentStorage extends AttachmentStorage {
+  files: Map<string, { data: Buffer; content_type: string }>;
+}
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://s3.eu-central-1.amazonaws.com or a MinIO URL; buckets are addressed by path
+  bucket: string;
+  region: string;
+  access_key_id: string;
+  secret_access_key: string;
+}
+
+// Helper function to refuse keys that could reach outside the storage root
+function assertStorageKey(key: string): void {
+  if (!/^[a-z0-9][a-z0-9._-]*(\/[a-z0-9][a-z0-9._-]*)*$/.test(key) || key.split('/').includes('..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+// Keeps files under a local directory, one file per key
+export function createLocalAttachmentStorage(rootDir: string): AttachmentStorage {
+  const pathFor = (key: string) => {
+    assertStorageKey(key);
+    return join(rootDir, ...key.split('/'));
+  };
+
+  return {
+    async put(key, data) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(pathFor(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    }
+  };
+}
+
+export function createMemoryAttachmentStorage(): MemoryAttachmentStorage {
+  const files = new Map<string, { data: Buffer; content_type: string }>();
+
+  return {
+    files,
+    async put(key, data, contentType) {
+      assertStorageKey(key);
+      files.set(key, { data: Buffer.from(data), content_type: contentType });
+    },
+    async get(key) {
+      return files.get(key)?.data ?? null;
+    },
+    async delete(key) {
+      files.delete(key);
+    }
+  };
+}
+
+// Keeps files in an S3-compatible bucket
+export function createS3AttachmentStorage(config: S3StorageConfig): AttachmentStorage {
+  const client = new S3Client({
+    endpoint: config.endpoint,
+    region: config.region,
+    forcePathStyle: true,
+    credentials: {
+      accessKeyId: config.access_key_id,
+      secretAccessKey: config.secret_access_key
+    }
+  });
+
+  return {
+    async put(key, data, contentType) {
+      assertStorageKey(key);
+      await client.send(new PutObjectCommand({ Bucket: config.bucket, Key: key, Body: data, ContentType: contentType }));
+    },
+    async get(key) {
+      assertStorageKey(key);
+      try {
+        const response = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+        return response.Body ? Buffer.from(await response.Body.transformToByteArray()) : Buffer.alloc(0);
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      assertStorageKey(key);
+      await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+    }
+  };
+}
+
+let storage: AttachmentStorage | null = null;
+
+// Override the active storage (tests install an in-memory one)
+export function setAttachmentStorage(override: AttachmentStorage | null): void {
+  storage = override;
+}
+
+// Helper function to pick the storage from the environment: an S3 bucket when S3_BUCKET is set,
+// else the ATTACHMENTS_DIR directory
+export function getAttachmentStorage(): AttachmentStorage {
+  if (storage) {
+    return storage;
+  }
+
+  const bucket = process.env['S3_BUCKET'];
+  storage = bucket
+    ? createS3AttachmentStorage({
+      endpoint: process.env['S3_ENDPOINT'] || `https://s3.${process.env['S3_REGION'] || 'us-east-1'}.amazonaws.com`,
+      bucket,
+      region: process.env['S3_REGION'] || 'us-east-1',
+      access_key_id: process.env['S3_ACCESS_KEY_ID'] || '',
+      secret_access_key: process.env['S3_SECRET_ACCESS_KEY'] || ''
+    })
+    : createLocalAttachmentStorage(process.env['ATTACHMENTS_DIR'] || './attachments');
+  return storage;
+}
\ No newline at end of file
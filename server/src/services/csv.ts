@@ -0,0 +1,77 @@
+// One parsed record with its 1-based position in the file, so messages can point at the spreadsheet row
+export interface CsvRecord {
+  row_number: number;
+  fields: string[];
+}
+
+// Split CSV text into records (RFC 4180): quoted fields may hold the delimiter, line breaks and doubled quotes.
+// A leading byte-order mark is dropped and rows with nothing in them are skipped
+export function parseCsv(text: string, delimiter: string = ','): CsvRecord[] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: CsvRecord[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let rowNumber = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) {
+      records.push({ row_number: rowNumber, fields });
+    }
+    fields = [];
+    field = '';
+    rowNumber++;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRecord();
+    } else if (char === '\r') {
+      if (source[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field in row ${rowNumber}`);
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+// Write one record as a CSV line, quoting fields that hold the delimiter, quotes, line breaks or edge spaces
+export function formatCsvRow(fields: string[], delimiter: string = ','): string {
+  return fields
+    .map(field => {
+      const needsQuotes = field.includes(delimiter) || /["\r\n]/.test(field) || field.trim() !== field;
+      return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+    })
+    .join(delimiter) + '\r\n';
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+// Routes that need a verified email address, as tRPC paths; a trailing '.*' covers a whole router
+const DEFAULT_VERIFIED_EMAIL_ROUTES = ['zakat.updateStatus', 'account.export', 'exports.*'];
+
+// Helper function to read the policy from VERIFIED_EMAIL_ROUTES (comma separated), else the defaults
+export function getVerifiedEmailRoutes(): string[] {
+  const configured = process.env['VERIFIED_EMAIL_ROUTES'];
+  if (configured === undefined) {
+    return DEFAULT_VERIFIED_EMAIL_ROUTES;
+  }
+
+  return configured.split(',')
+    .map(route => route.trim())
+    .filter(route => route.length > 0);
+}
+
+// Check whether a procedure path is covered by the verified-email policy
+export function requiresVerifiedEmail(path: string, routes: string[] = getVerifiedEmailRoutes()): boolean {
+  return routes.some(route => {
+    if (route === '*') {
+      return true;
+    }
+    if (route.endsWith('.*')) {
+      return path.startsWith(route.slice(0, -1));
+    }
+    return path === route;
+  });
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { readFile } from 'node:fs/promises';
+
+// Rates in effect on one day, as units of each currency per USD
+export interface FxRateQuote {
+  rate_date: Date;
+  rates: Record<string, number>;
+}
+
+// Anything that can supply exchange rates against USD
+export interface FxRateProvider {
+  name: string;
+  // The latest rates on or before the given day, or null when there are none that early
+  getRates(date: Date): Promise<FxRateQuote | null>;
+}
+
+// Rates keyed by day (YYYY-MM-DD), then by ISO 4217 code, e.g. { "2024-01-15": { "IDR": 15600, "MYR": 4.68 } }
+export type FxRateTable = Record<string, Record<string, number>>;
+
+// Helper function to truncate a timestamp to midnight UTC, the granularity rates are kept at
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Helper function to pick the latest day on or before the requested one
+function lookupRates(table: FxRateTable, date: Date): FxRateQuote | null {
+  const wanted = startOfUtcDay(date).toISOString().slice(0, 10);
+  const day = Object.keys(table)
+    .filter(key => key <= wanted)
+    .sort()
+    .pop();
+
+  if (day === undefined) {
+    return null;
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(table[day])) {
+    rates[currency.toUpperCase()] = rate;
+  }
+  return { rate_date: new Date(`${day}T00:00:00Z`), rates };
+}
+
+// Serves rates from a fixed table (tests and seeding)
+export function createStaticFxRateProvider(table: FxRateTable, name: string = 'static'): FxRateProvider {
+  return {
+    name,
+    async getRates(date) {
+      return lookupRates(table, date);
+    }
+  };
+}
+
+// Reads rates from a JSON file in the FxRateTable shape, so local setups need no API key.
+// The file is read on each call, so it can be updated without a restart
+export function createFileFxRateProvider(path: string): FxRateProvider {
+  return {
+    name: 'file',
+    async getRates(date) {
+      let table: FxRateTable;
+      try {
+        table = JSON.parse(await readFile(path, 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+      return lookupRates(table, date);
+    }
+  };
+}
+
+let provider: FxRateProvider | null = null;
+
+// Override the active rate provider (tests install a static table)
+export function setFxRateProvider(override: FxRateProvider | null): void {
+  provider = override;
+}
+
+// Helper function to pick the rate provider: a JSON file at FX_RATES_FILE, else ./fx-rates.json
+export function getFxRateProvider(): FxRateProvider {
+  if (provider) {
+    return provider;
+  }
+
+  provider = createFileFxRateProvider(process.env['FX_RATES_FILE'] || './fx-rates.json');
+  return provider;
+}
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { createPublicKey, verify, type JsonWebKey } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+// Google's published signing keys and accepted issuers
+const DEFAULT_GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+
+// Fallback key cache lifetime when the JWKS response has no max-age (1 hour)
+const DEFAULT_JWKS_CACHE_MS = 60 * 60 * 1000;
+
+// Allowed clock difference between us and Google when checking exp/iat
+const CLOCK_SKEW_SECONDS = 60;
+
+// Shortest gap between key set refreshes forced by an unknown kid (1 minute), so forged kids cannot make us hammer Google
+const FORCED_REFRESH_INTERVAL_MS = 60 * 1000;
+
+export interface SigningKey extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+}
+
+// Source of the key set used to verify ID token signatures
+export interface JwksProvider {
+  getKeys(options?: { forceRefresh?: boolean }): Promise<SigningKey[]>;
+}
+
+export interface GoogleIdTokenVerifierConfig {
+  jwksProvider: JwksProvider;
+  audience: string;
+  issuers: string[];
+}
+
+export interface GoogleIdTokenClaims {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string | null;
+  iss: string;
+  aud: string;
+  exp: number;
+  iat: number;
+}
+
+export class GoogleIdTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GoogleIdTokenError';
+  }
+}
+
+// Key set fetched over HTTPS and cached per the response's Cache-Control
+export function createRemoteJwksProvider(url: string): JwksProvider {
+  let cachedKeys: SigningKey[] | null = null;
+  let expiresAt = 0;
+
+  return {
+    async getKeys(options = {}) {
+      if (cachedKeys && !options.forceRefresh && Date.now() < expiresAt) {
+        return cachedKeys;
+      }
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch JWKS from ${url}: ${response.status}`);
+      }
+
+      const body = await response.json() as { keys?: SigningKey[] };
+      const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+
+      cachedKeys = body.keys || [];
+      expiresAt = Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : DEFAULT_JWKS_CACHE_MS);
+      return cachedKeys;
+    }
+  };
+}
+
+// Key set read once from a local JSON file (for offline development)
+export function createFileJwksProvider(path: string): JwksProvider {
+  let cachedKeys: SigningKey[] | null = null;
+
+  return {
+    async getKeys(options = {}) {
+      if (!cachedKeys || options.forceRefresh) {
+        const body = JSON.parse(await readFile(path, 'utf8')) as { keys?: SigningKey[] };
+        cachedKeys = body.keys || [];
+      }
+      return cachedKeys;
+    }
+  };
+}
+
+// Fixed in-memory key set (used by tests)
+export function createStaticJwksProvider(keys: SigningKey[]): JwksProvider {
+  return {
+    async getKeys() {
+      return keys;
+    }
+  };
+}
+
+let verifierConfig: GoogleIdTokenVerifierConfig | null = null;
+
+// When each provider last had a refresh forced, so a replaced configuration starts afresh
+const lastForcedRefreshAt = new WeakMap<JwksProvider, number>();
+
+// Override the verifier configuration (tests install a local stand-in key set)
+export function configureGoogleIdTokenVerifier(config: GoogleIdTokenVerifierConfig | null): void {
+  verifierConfig = config;
+}
+
+// Helper function to build the verifier configuration from the environment
+function getVerifierConfig(): GoogleIdTokenVerifierConfig {
+  if (verifierConfig) {
+    return verifierConfig;
+  }
+
+  const audience = process.env['GOOGLE_CLIENT_ID'];
+  if (!audience) {
+    throw new GoogleIdTokenError('Google sign-in is not configured');
+  }
+
+  const jwksPath = process.env['GOOGLE_JWKS_PATH'];
+  verifierConfig = {
+    jwksProvider: jwksPath
+      ? createFileJwksProvider(jwksPath)
+      : createRemoteJwksProvider(process.env['GOOGLE_JWKS_URL'] || DEFAULT_GOOGLE_JWKS_URL),
+    audience,
+    issuers: GOOGLE_ISSUERS
+  };
+  return verifierConfig;
+}
+
+// Helper function to decode one base64url JWT segment as JSON
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new GoogleIdTokenError('Malformed ID token');
+  }
+}
+
+// Verify a Google ID token's signature, issuer, audience and expiry
+export async function verifyGoogleIdToken(idToken: string): Promise<GoogleIdTokenClaims> {
+  const config = getVerifierConfig();
+
+  const segments = idToken.split('.');
+  if (segments.length !== 3) {
+    throw new GoogleIdTokenError('Malformed ID token');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  const header = decodeSegment(encodedHeader);
+  if (header['alg'] !== 'RS256') {
+    throw new GoogleIdTokenError('Unsupported ID token algorithm');
+  }
+
+  // Look the key up by kid, refreshing in case Google rotated its keys unless a refresh was forced within the last minute
+  const kid = header['kid'];
+  let keys = await config.jwksProvider.getKeys();
+  let jwk = keys.find(key => key.kid === kid);
+  const lastRefreshAt = lastForcedRefreshAt.get(config.jwksProvider);
+  if (!jwk && (lastRefreshAt === undefined || Date.now() - lastRefreshAt >= FORCED_REFRESH_INTERVAL_MS)) {
+    lastForcedRefreshAt.set(config.jwksProvider, Date.now());
+    keys = await config.jwksProvider.getKeys({ forceRefresh: true });
+    jwk = keys.find(key => key.kid === kid);
+  }
+  if (!jwk) {
+    throw new GoogleIdTokenError('ID token signed with an unknown key');
+  }
+
+  const isValidSignature = verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!isValidSignature) {
+    throw new GoogleIdTokenError('Invalid ID token signature');
+  }
+
+  const payload = decodeSegment(encodedPayload);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  if (typeof payload['iss'] !== 'string' || !config.issuers.includes(payload['iss'])) {
+    throw new GoogleIdTokenError('Invalid ID token issuer');
+  }
+  const audiences = Array.isArray(payload['aud']) ? payload['aud'] : [payload['aud']];
+  if (!audiences.includes(config.audience)) {
+    throw new GoogleIdTokenError('Invalid ID token audience');
+  }
+  if (typeof payload['exp'] !== 'number' || payload['exp'] + CLOCK_SKEW_SECONDS < nowSeconds) {
+    throw new GoogleIdTokenError('ID token has expired');
+  }
+  if (typeof payload['iat'] !== 'number' || payload['iat'] - CLOCK_SKEW_SECONDS > nowSeconds) {
+    throw new GoogleIdTokenError('ID token issued in the future');
+  }
+  if (typeof payload['sub'] !== 'string' || typeof payload['email'] !== 'string') {
+    throw new GoogleIdTokenError('ID token is missing subject or email');
+  }
+
+  return {
+    sub: payload['sub'],
+    email: payload['email'],
+    email_verified: payload['email_verified'] === true || payload['email_verified'] === 'true',
+    name: typeof payload['name'] === 'string' ? payload['name'] : null,
+    iss: payload['iss'],
+    aud: config.audience,
+    exp: payload['exp'],
+    iat: payload['iat']
+  };
+}
\ No newline at end of file
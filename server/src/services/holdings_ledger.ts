@@ -0,0 +1,41 @@
+// One buy or sell as far as the running balance is concerned
+export interface LedgerEntry {
+  id: number;
+  type: 'buy' | 'sell';
+  fine_weight_grams: number; // Pure gold content, so items of different purity add up
+  transaction_date: Date;
+}
+
+// The first sell the holdings cannot cover, with what was held just before it
+export interface LedgerShortfall {
+  entry: LedgerEntry;
+  held_grams: number;
+}
+
+// Weights are stored with three decimals, so the replay counts whole milligrams to avoid float drift
+const toMilligrams = (grams: number) => Math.round(grams * 1000);
+
+// Replay entries in date order and return the first sell that would take the balance below zero, or null.
+// Buys on the same instant count before sells, and id keeps the order stable otherwise
+export function findLedgerShortfall(entries: LedgerEntry[]): LedgerShortfall | null {
+  const ordered = [...entries].sort((a, b) =>
+    a.transaction_date.getTime() - b.transaction_date.getTime()
+    || (a.type === b.type ? 0 : a.type === 'buy' ? -1 : 1)
+    || a.id - b.id
+  );
+
+  let balance = 0;
+  for (const entry of ordered) {
+    const weight = toMilligrams(entry.fine_weight_grams);
+    if (entry.type === 'buy') {
+      balance += weight;
+      continue;
+    }
+    if (weight > balance) {
+      return { entry, held_grams: balance / 1000 };
+    }
+    balance -= weight;
+  }
+
+  return null;
+}
\ No newline at end of file
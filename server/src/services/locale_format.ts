@@ -0,0 +1,88 @@
+// How one locale writes numbers and dates, as text for CSV files and as number formats for spreadsheets.
+// Digits are always Latin so the files stay machine-readable
+export interface LocaleFormat {
+  locale: string;
+  // Where the decimal separator is a comma, spreadsheet programs expect fields split by semicolons
+  csvDelimiter: ',' | ';';
+  formatNumber(value: number, fractionDigits: number): string;
+  // An amount with the currency's usual number of decimals; the currency itself goes in its own column
+  formatAmount(value: number, currency: string): string;
+  formatDate(date: Date): string;
+  spreadsheetDateFormat: string;
+  spreadsheetAmountFormat(currency: string): string;
+}
+
+// Helper function to get the number of decimals a currency is written with, e.g. 2 for USD and 0 for JPY
+export function currencyDigits(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+// Right-to-left locales put invisible direction marks between date parts
+const DIRECTION_MARKS = /[\u200E\u200F\u061C]/g;
+
+// Helper function to quote text so a spreadsheet number format shows it as is
+function quoteFormatText(text: string): string {
+  const visible = text.replace(DIRECTION_MARKS, '');
+  return visible === '' ? '' : `"${visible.replace(/"/g, '')}"`;
+}
+
+// Work out a locale's conventions from Intl
+export function createLocaleFormat(locale: string): LocaleFormat {
+  const sampleDate = new Date(Date.UTC(2024, 0, 15));
+  const dateFormat = new Intl.DateTimeFormat(locale, {
+    timeZone: 'UTC',
+    numberingSystem: 'latn',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+
+  const decimal = new Intl.NumberFormat(locale, { numberingSystem: 'latn' })
+    .formatToParts(1.5)
+    .find(part => part.type === 'decimal')?.value ?? '.';
+
+  // Spreadsheet formats always use '.' and ',' and show them in the reader's own separators
+  const spreadsheetDateFormat = dateFormat.formatToParts(sampleDate)
+    .map(part => {
+      switch (part.type) {
+        case 'year': return 'yyyy';
+        case 'month': return 'mm';
+        case 'day': return 'dd';
+        default: return quoteFormatText(part.value);
+      }
+    })
+    .join('');
+
+  const formatNumber = (value: number, fractionDigits: number) => new Intl.NumberFormat(locale, {
+    numberingSystem: 'latn',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+    useGrouping: false
+  }).format(value);
+
+  return {
+    locale,
+    csvDelimiter: decimal === ',' ? ';' : ',',
+    formatNumber,
+    formatAmount: (value, currency) => formatNumber(value, currencyDigits(currency)),
+    formatDate: date => dateFormat.format(date).replace(DIRECTION_MARKS, ''),
+    spreadsheetDateFormat,
+    spreadsheetAmountFormat(currency) {
+      const digits = currencyDigits(currency);
+      const number = digits > 0 ? `#,##0.${'0'.repeat(digits)}` : '#,##0';
+
+      // Keep the symbol, and the space next to it, on the side the locale puts it
+      const parts = new Intl.NumberFormat(locale, { style: 'currency', currency, numberingSystem: 'latn' }).formatToParts(1);
+      const symbolAt = parts.findIndex(part => part.type === 'currency');
+      const numberAt = parts.findIndex(part => part.type === 'integer');
+      const before = parts.slice(0, numberAt).map(part => part.value).join('');
+      const after = parts.slice(parts.findLastIndex(part => part.type === 'integer' || part.type === 'fraction') + 1)
+        .map(part => part.value)
+        .join('');
+
+      return symbolAt < numberAt
+        ? `${quoteFormatText(before)}${number}`
+        : `${number}${quoteFormatText(after)}`;
+    }
+  };
+}
\ No newline at end of file
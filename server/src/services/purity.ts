@@ -0,0 +1,13 @@
+// Millesimal fineness of pure gold, also assumed when a transaction states no purity
+export const PURE_FINENESS = 1000;
+
+// Convert a karat rating to millesimal fineness, e.g. 18K is 750; rounded to the one decimal the column keeps.
+// Hallmarks often round down (22K is stamped 916), so users who know the stamp can give fineness directly
+export function karatToFineness(karat: number): number {
+  return Math.round((karat / 24) * PURE_FINENESS * 10) / 10;
+}
+
+// Pure gold content of an item, to the milligram like the fine_weight_grams column
+export function fineWeightGrams(weightGrams: number, fineness: number): number {
+  return Math.round((weightGrams * fineness / PURE_FINENESS) * 1000) / 1000;
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Who is making the current request, available to handlers without threading it through every call
+export interface RequestScope {
+  actorUserId: number | null;
+  ipAddress: string | null;
+}
+
+const storage = new AsyncLocalStorage<RequestScope>();
+
+export function runInRequestScope<T>(scope: RequestScope, fn: () => T): T {
+  return storage.run(scope, fn);
+}
+
+// Outside a request (jobs, tests calling handlers directly) there is no scope
+export function getRequestScope(): RequestScope | null {
+  return storage.getStore() ?? null;
+}
\ No newline at end of file
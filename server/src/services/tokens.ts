@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+// Generate an unguessable URL-safe token (sessions, reset links, verification links)
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// Hash a raw token before it touches the database, so a leaked table cannot be replayed
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
\ No newline at end of file
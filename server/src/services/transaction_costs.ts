@@ -0,0 +1,88 @@
+import { type CostComponent, type CostKind } from '../schema';
+
+export const COST_KINDS: CostKind[] = ['making_charge', 'premium', 'tax', 'shipping', 'fee', 'other'];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Helper function to add up a transaction's cost components
+export function sumCostComponents(components: CostComponent[]): number {
+  return roundCents(components.reduce((total, component) => total + component.amount, 0));
+}
+
+// What a transaction comes to from its parts: costs are paid on top of the metal when buying
+// and come out of the proceeds when selling
+export function computeTotalPrice(type: 'buy' | 'sell', metalCost: number, components: CostComponent[]): number {
+  const costs = sumCostComponents(components);
+  return roundCents(type === 'buy' ? metalCost + costs : metalCost - costs);
+}
+
+// One transaction as the cost-basis report sees it, amounts already in the reporting currency
+export interface CostBasisEntry {
+  type: 'buy' | 'sell';
+  fine_weight_grams: number;
+  metal_cost: number;
+  total_price: number;
+  cost_components: CostComponent[];
+}
+
+export interface CostBasisSummary {
+  bought_fine_weight_grams: number;
+  metal_cost: number;
+  overheads: Record<CostKind | 'unitemized', number>;
+  total_cost: number;
+  average_cost_per_fine_gram: number;
+  sold_fine_weight_grams: number;
+  sale_proceeds: number;
+  remaining_fine_weight_grams: number;
+  remaining_cost_basis: number;
+}
+
+// Split what was paid for purchases into metal and overheads, and value what is left at average cost.
+// When a total was entered as actually paid, whatever its components do not explain counts as unitemized
+export function summarizeCostBasis(entries: CostBasisEntry[]): CostBasisSummary {
+  const overheads = { unitemized: 0 } as CostBasisSummary['overheads'];
+  for (const kind of COST_KINDS) {
+    overheads[kind] = 0;
+  }
+
+  let boughtFine = 0;
+  let metalCost = 0;
+  let totalCost = 0;
+  let soldFine = 0;
+  let proceeds = 0;
+
+  for (const entry of entries) {
+    if (entry.type === 'sell') {
+      soldFine += entry.fine_weight_grams;
+      proceeds += entry.total_price;
+      continue;
+    }
+
+    boughtFine += entry.fine_weight_grams;
+    metalCost += entry.metal_cost;
+    totalCost += entry.total_price;
+    for (const component of entry.cost_components) {
+      overheads[component.kind] += component.amount;
+    }
+    overheads.unitemized += entry.total_price - entry.metal_cost - sumCostComponents(entry.cost_components);
+  }
+
+  for (const key of Object.keys(overheads) as Array<keyof typeof overheads>) {
+    overheads[key] = roundCents(overheads[key]);
+  }
+
+  const averageCost = boughtFine > 0 ? totalCost / boughtFine : 0;
+  const remainingFine = Math.max(0, Math.round((boughtFine - soldFine) * 1000) / 1000);
+
+  return {
+    bought_fine_weight_grams: Math.round(boughtFine * 1000) / 1000,
+    metal_cost: roundCents(metalCost),
+    overheads,
+    total_cost: roundCents(totalCost),
+    average_cost_per_fine_gram: roundCents(averageCost),
+    sold_fine_weight_grams: Math.round(soldFine * 1000) / 1000,
+    sale_proceeds: roundCents(proceeds),
+    remaining_fine_weight_grams: remainingFine,
+    remaining_cost_basis: roundCents(remainingFine * averageCost)
+  };
+}
\ No newline at end of file
@@ -0,0 +1,144 @@
+import {
+  createTransactionInputSchema,
+  type CreateTransactionInput,
+  type ImportDateFormat,
+  type ImportMapping,
+  type TransactionImportInput
+} from '../schema';
+
+// Where each mapped field sits in a record
+export type ImportColumns = Partial<Record<keyof ImportMapping, number>>;
+
+// How cells are read: everything about the file except its content and mapping
+export type ImportOptions = Pick<TransactionImportInput, 'date_format' | 'decimal_separator' | 'type_aliases' | 'household_id'>;
+
+export interface ImportRowResult {
+  transaction: CreateTransactionInput | null; // Null when the row has errors
+  errors: string[];
+}
+
+const NUMBER_FIELDS = ['weight_grams', 'price_per_gram', 'karat', 'fineness', 'total_price'] as const;
+const TEXT_FIELDS = ['currency', 'brand', 'description'] as const;
+
+// Read a calendar date written in the given format as midnight UTC, or null when it does not match or does not exist
+export function parseImportDate(value: string, format: ImportDateFormat): Date | null {
+  const separator = format[format.search(/[-/.]/)];
+  const order = format.split(separator);
+  const parts = value.trim().split(separator);
+
+  if (parts.length !== 3 || parts.some(part => !/^\d{1,4}$/.test(part))) {
+    return null;
+  }
+
+  const part = (token: string) => parts[order.indexOf(token)];
+  if (part('YYYY').length !== 4 || part('MM').length > 2 || part('DD').length > 2) {
+    return null;
+  }
+
+  const year = parseInt(part('YYYY'), 10);
+  const month = parseInt(part('MM'), 10);
+  const day = parseInt(part('DD'), 10);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Date.UTC rolls 31/02 over into March, so check nothing moved
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+// Read a decimal number such as "1,234.5" or "1.234,5"; the separator that is not the decimal one and
+// spaces are taken as digit grouping. Null when the text is not a number
+export function parseImportNumber(value: string, decimalSeparator: '.' | ','): number | null {
+  const groupSeparator = decimalSeparator === '.' ? ',' : '.';
+  const compact = value.trim().replace(/[\s']/g, '').split(groupSeparator).join('');
+  const normalized = decimalSeparator === ',' ? compact.replace(',', '.') : compact;
+
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) {
+    return null;
+  }
+  return parseFloat(normalized);
+}
+
+// Rows that agree on these look like the same purchase or sale entered twice
+export function duplicateKey(row: { type: 'buy' | 'sell'; transaction_date: Date; weight_grams: number; price_per_gram: number }): string {
+  const day = row.transaction_date.toISOString().slice(0, 10);
+  return `${row.type}|${day}|${row.weight_grams.toFixed(3)}|${row.price_per_gram.toFixed(2)}`;
+}
+
+// Turn one CSV record into transaction input and check it the way createTransaction's input is checked.
+// Cells that are empty count as not given
+export function readImportRow(fields: string[], columns: ImportColumns, options: ImportOptions): ImportRowResult {
+  const errors: string[] = [];
+  const candidate: Record<string, unknown> = {};
+
+  const cell = (field: keyof ImportMapping) => {
+    const index = columns[field];
+    return index === undefined ? '' : (fields[index] ?? '').trim();
+  };
+
+  const aliases: Record<string, string> = { buy: 'buy', sell: 'sell' };
+  for (const [alias, type] of Object.entries(options.type_aliases)) {
+    aliases[alias.trim().toLowerCase()] = type;
+  }
+
+  const type = cell('type').toLowerCase();
+  if (type !== '') {
+    candidate['type'] = aliases[type] ?? type;
+  }
+
+  for (const field of NUMBER_FIELDS) {
+    const value = cell(field);
+    if (value === '') {
+      continue;
+    }
+    const number = parseImportNumber(value, options.decimal_separator);
+    if (number === null) {
+      errors.push(`${field}: "${value}" is not a number`);
+    } else {
+      candidate[field] = number;
+    }
+  }
+
+  const date = cell('transaction_date');
+  if (date !== '') {
+    const parsed = parseImportDate(date, options.date_format);
+    if (parsed === null) {
+      errors.push(`transaction_date: "${date}" is not a ${options.date_format} date`);
+    } else {
+      candidate['transaction_date'] = parsed;
+    }
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const value = cell(field);
+    if (value !== '') {
+      candidate[field] = value;
+    }
+  }
+
+  const itemForm = cell('item_form').toLowerCase();
+  if (itemForm !== '') {
+    candidate['item_form'] = itemForm;
+  }
+
+  if (options.household_id !== undefined) {
+    candidate['household_id'] = options.household_id;
+  }
+
+  const result = createTransactionInputSchema.safeParse(candidate);
+  if (!result.success) {
+    // A cell that could not be read is already reported; the schema would only add "Required"
+    for (const issue of result.error.issues) {
+      const field = issue.path.join('.');
+      if (!errors.some(error => error.startsWith(`${field}:`))) {
+        errors.push(`${field}: ${issue.message}`);
+      }
+    }
+  }
+
+  if (errors.length > 0 || !result.success) {
+    return { transaction: null, errors };
+  }
+  return { transaction: result.data, errors: [] };
+}
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { createZip } from './zip';
+
+// A cell: text, a plain number, a yes/no flag, or a number or date shown with a spreadsheet number format
+// such as '0.000' or 'dd/mm/yyyy'. Null leaves the cell empty
+export type XlsxCell = string | number | boolean | null | { value: number | Date; format: string };
+
+export interface XlsxSheet {
+  name: string; // Up to 31 characters, none of []:*?/\
+  header: string[];
+  rows: XlsxCell[][];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH_OFFSET_DAYS = 25569; // Days from 1899-12-30 to 1970-01-01
+const FIRST_CUSTOM_FORMAT_ID = 164; // Lower ids are built into spreadsheet programs
+
+// Helper function to escape text for XML, dropping control characters XML cannot hold
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Helper function to get a column's letters: 0 is A, 26 is AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Helper function to write one cell; styleFor maps a number format to its style index
+function cellXml(cell: XlsxCell, ref: string, styleFor: (format: string) => number): string {
+  if (cell === null) {
+    return '';
+  }
+  if (typeof cell === 'string') {
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+  }
+  if (typeof cell === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+  }
+  if (typeof cell === 'number') {
+    return `<c r="${ref}"><v>${cell}</v></c>`;
+  }
+
+  const value = cell.value instanceof Date
+    ? cell.value.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS
+    : cell.value;
+  return `<c r="${ref}" s="${styleFor(cell.format)}"><v>${value}</v></c>`;
+}
+
+// Helper function to write a worksheet with its header row in bold and frozen in place
+function sheetXml(sheet: XlsxSheet, styleFor: (format: string) => number): string {
+  const header = sheet.header
+    .map((title, column) => `<c r="${columnName(column)}1" t="inlineStr" s="1"><is><t>${escapeXml(title)}</t></is></c>`)
+    .join('');
+
+  const rows = sheet.rows
+    .map((row, index) => {
+      const line = index + 2;
+      const cells = row.map((cell, column) => cellXml(cell, `${columnName(column)}${line}`, styleFor)).join('');
+      return `<row r="${line}">${cells}</row>`;
+    })
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData><row r="1">${header}</row>${rows}</sheetData>`
+    + '</worksheet>';
+}
+
+// Helper function to write the style sheet: style 0 is the default, 1 the bold header, then one per number format
+function stylesXml(formats: string[]): string {
+  const numberFormats = formats
+    .map((format, index) => `<numFmt numFmtId="${FIRST_CUSTOM_FORMAT_ID + index}" formatCode="${escapeXml(format)}"/>`)
+    .join('');
+  const formatStyles = formats
+    .map((_, index) => `<xf numFmtId="${FIRST_CUSTOM_FORMAT_ID + index}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`)
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + (formats.length > 0 ? `<numFmts count="${formats.length}">${numberFormats}</numFmts>` : '')
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + `<cellXfs count="${formats.length + 2}">`
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+    + `${formatStyles}</cellXfs>`
+    + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+    + '</styleSheet>';
+}
+
+// Build an XLSX workbook with one worksheet per sheet, in order
+export function buildXlsx(sheets: XlsxSheet[]): Buffer {
+  const formats: string[] = [];
+  const styleFor = (format: string) => {
+    let index = formats.indexOf(format);
+    if (index === -1) {
+      index = formats.push(format) - 1;
+    }
+    return index + 2;
+  };
+
+  // Worksheets go first so every number format they use is known when the style sheet is written
+  const worksheets = sheets.map((sheet, index) => ({
+    name: `xl/worksheets/sheet${index + 1}.xml`,
+    data: sheetXml(sheet, styleFor)
+  }));
+
+  const overrides = sheets
+    .map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+    .join('');
+  const sheetEntries = sheets
+    .map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+    .join('');
+  const sheetRelations = sheets
+    .map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`)
+    .join('');
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + `${overrides}</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets>${sheetEntries}</sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + `${sheetRelations}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+        + '</Relationships>'
+    },
+    { name: 'xl/styles.xml', data: stylesXml(formats) },
+    ...worksheets
+  ]);
+}
\ No newline at end of file
@@ -0,0 +1,474 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  sessionsTable,
+  recoveryCodesTable,
+  goldTransactionsTable,
+  goldGoalsTable,
+  zakatRemindersTable
+} from '../db/schema';
+import {
+  exportAccountData,
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+  purgeAccount,
+  purgeDueAccountDeletions,
+  changePassword,
+  setPassword,
+  changeEmail,
+  unlinkGoogle,
+  setReportingCurrency,
+  setLocale
+} from '../handlers/account';
+import { signUp, signIn, googleAuth } from '../handlers/auth';
+import { verifyEmail } from '../handlers/email_verification';
+import { createSession, getSessionUser } from '../handlers/sessions';
+import { createApiToken, getApiTokenGrant } from '../handlers/api_tokens';
+import { createApiTokenInputSchema } from '../schema';
+import { beginTotpEnrollment, confirmTotpEnrollment } from '../handlers/two_factor';
+import { createMemoryMailer, setMailer } from '../services/mailer';
+import { createStaticFxRateProvider, setFxRateProvider } from '../services/fx_rates';
+import { generateTotpCode, totpTimeStep } from '../services/totp';
+import { useTestGoogleKeys, signTestGoogleIdToken } from '../helpers/google';
+import { eq } from 'drizzle-orm';
+
+const mailer = createMemoryMailer();
+
+// Pull the raw token out of the link in the most recent email
+const lastEmailToken = (): string => {
+  const match = /token=([^\s]+)/.exec(mailer.outbox[mailer.outbox.length - 1].text);
+  return decodeURIComponent(match![1]);
+};
+
+describe('Account Handlers', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    useTestGoogleKeys();
+    mailer.clear();
+    setMailer(mailer);
+
+    userId = (await signUp({ email: 'account@example.com', password: 'password123', name: 'Account User' })).id;
+    otherUserId = (await signUp({ email: 'other@example.com', password: 'password123', name: 'Other User' })).id;
+
+    for (const id of [userId, otherUserId]) {
+      await db.insert(goldTransactionsTable)
+        .values({
+          user_id: id,
+          type: 'buy',
+          weight_grams: '10.500',
+          price_per_gram: '65.25',
+          total_price: '685.13',
+          transaction_date: new Date('2024-01-15')
+        })
+        .execute();
+
+      await db.insert(goldGoalsTable)
+        .values({
+          user_id: id,
+          target_weight_grams: '100.000',
+          deadline: new Date('2025-12-31'),
+          title: 'Savings goal'
+        })
+        .execute();
+
+      await db.insert(zakatRemindersTable)
+        .values({
+          user_id: id,
+          gold_weight_grams: '10.500',
+          holding_start_date: new Date('2024-01-15')
+        })
+        .execute();
+    }
+
+    mailer.clear();
+  });
+
+  afterEach(resetDB);
+
+  describe('exportAccountData', () => {
+    it('should include the profile and all of the user\'s records', async () => {
+      const result = await exportAccountData(userId);
+
+      expect(result.format_version).toEqual(1);
+      expect(result.exported_at).toBeInstanceOf(Date);
+      expect(result.profile.email).toEqual('account@example.com');
+      expect(result.gold_transactions).toHaveLength(1);
+      expect(result.gold_goals).toHaveLength(1);
+      expect(result.zakat_reminders).toHaveLength(1);
+    });
+
+    it('should convert numeric fields to numbers', async () => {
+      const result = await exportAccountData(userId);
+
+      expect(result.gold_transactions[0].weight_grams).toEqual(10.5);
+      expect(typeof result.gold_transactions[0].price_per_gram).toBe('number');
+      expect(result.gold_goals[0].target_weight_grams).toEqual(100);
+      expect(result.zakat_reminders[0].gold_weight_grams).toEqual(10.5);
+    });
+
+    it('should only contain the user\'s own data', async () => {
+      const result = await exportAccountData(userId);
+
+      expect(result.gold_transactions.every(transaction => transaction.user_id === userId)).toBe(true);
+      expect(result.gold_goals.every(goal => goal.user_id === userId)).toBe(true);
+      expect(result.zakat_reminders.every(reminder => reminder.user_id === userId)).toBe(true);
+    });
+
+    it('should not leak credentials', async () => {
+      const result = await exportAccountData(userId);
+
+      expect(JSON.stringify(result)).not.toMatch(/password_hash|totp_secret|\$argon2/);
+    });
+  });
+
+  describe('scheduleAccountDeletion', () => {
+    it('should schedule deletion after the grace period and email a notice', async () => {
+      const result = await scheduleAccountDeletion(userId, { password: 'password123' });
+
+      const daysAhead = (result.scheduled_for.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+      expect(daysAhead).toBeGreaterThan(13.9);
+      expect(daysAhead).toBeLessThanOrEqual(14);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].deletion_scheduled_for).toBeInstanceOf(Date);
+
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].to).toEqual('account@example.com');
+      expect(mailer.outbox[0].text).toContain('cancel');
+    });
+
+    it('should keep the data during the grace period', async () => {
+      await scheduleAccountDeletion(userId, { password: 'password123' });
+
+      const transactions = await db.select().from(goldTransactionsTable)
+        .where(eq(goldTransactionsTable.user_id, userId))
+        .execute();
+      expect(transactions).toHaveLength(1);
+    });
+
+    it('should require the password', async () => {
+      await expect(scheduleAccountDeletion(userId, {})).rejects.toThrow(/confirm your password/i);
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(scheduleAccountDeletion(userId, { password: 'wrongpassword' })).rejects.toThrow(/re-authentication failed/i);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].deletion_scheduled_for).toBeNull();
+    });
+
+    it('should lock re-authentication after repeated wrong passwords', async () => {
+      for (let i = 0; i < 5; i++) {
+        await expect(scheduleAccountDeletion(userId, { password: 'wrongpassword' })).rejects.toThrow(/re-authentication failed/i);
+      }
+
+      await expect(scheduleAccountDeletion(userId, { password: 'password123' })).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+      await expect(signIn({ email: 'account@example.com', password: 'password123' })).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should require a code when two-factor is enabled', async () => {
+      const { secret } = await beginTotpEnrollment(userId);
+      await confirmTotpEnrollment(userId, { code: generateTotpCode(secret, totpTimeStep() - 1) });
+
+      await expect(scheduleAccountDeletion(userId, { password: 'password123' })).rejects.toThrow(/authentication code/i);
+
+      const result = await scheduleAccountDeletion(userId, { password: 'password123', code: generateTotpCode(secret) });
+      expect(result.scheduled_for).toBeInstanceOf(Date);
+    });
+
+    it('should accept a fresh Google ID token for a Google-only account', async () => {
+      const googleUser = await googleAuth({
+        id_token: signTestGoogleIdToken({ sub: 'google_delete', email: 'googledelete@gmail.com', name: 'Google User' })
+      });
+
+      await expect(scheduleAccountDeletion(googleUser.id, {})).rejects.toThrow(/google account/i);
+      await expect(scheduleAccountDeletion(googleUser.id, {
+        id_token: signTestGoogleIdToken({ sub: 'someone_else', email: 'googledelete@gmail.com' })
+      })).rejects.toThrow(/re-authentication failed/i);
+
+      const result = await scheduleAccountDeletion(googleUser.id, {
+        id_token: signTestGoogleIdToken({ sub: 'google_delete', email: 'googledelete@gmail.com' })
+      });
+      expect(result.scheduled_for).toBeInstanceOf(Date);
+    });
+
+    it('should reject a stale Google ID token', async () => {
+      const googleUser = await googleAuth({
+        id_token: signTestGoogleIdToken({ sub: 'google_delete', email: 'googledelete@gmail.com', name: 'Google User' })
+      });
+      const issuedAt = Math.floor(Date.now() / 1000) - 30 * 60;
+
+      await expect(scheduleAccountDeletion(googleUser.id, {
+        id_token: signTestGoogleIdToken({ sub: 'google_delete', email: 'googledelete@gmail.com', iat: issuedAt })
+      })).rejects.toThrow(/re-authentication failed/i);
+    });
+
+    it('should refuse to schedule twice', async () => {
+      await scheduleAccountDeletion(userId, { password: 'password123' });
+
+      await expect(scheduleAccountDeletion(userId, { password: 'password123' })).rejects.toThrow(/already scheduled/i);
+    });
+  });
+
+  describe('cancelAccountDeletion', () => {
+    it('should clear a pending deletion', async () => {
+      await scheduleAccountDeletion(userId, { password: 'password123' });
+
+      const result = await cancelAccountDeletion(userId);
+
+      expect(result).toBe(true);
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].deletion_scheduled_for).toBeNull();
+    });
+
+    it('should fail when nothing is scheduled', async () => {
+      await expect(cancelAccountDeletion(userId)).rejects.toThrow(/not scheduled/i);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should replace the password, sign out other sessions and revoke API tokens', async () => {
+      const current = await createSession(userId);
+      const other = await createSession(userId);
+      const apiToken = await createApiToken(createApiTokenInputSchema.parse({ name: 'Script' }), userId);
+
+      const result = await changePassword({ current_password: 'password123', new_password: 'newpassword456' }, userId, current.token);
+
+      expect(result).toBe(true);
+      expect(await signIn({ email: 'account@example.com', password: 'password123' })).toBeNull();
+      expect(await signIn({ email: 'account@example.com', password: 'newpassword456' })).not.toBeNull();
+      expect(await getSessionUser(current.token)).not.toBeNull();
+      expect(await getSessionUser(other.token)).toBeNull();
+      expect(await getApiTokenGrant(apiToken.token)).toBeNull();
+      expect(mailer.outbox[0].subject).toContain('password was changed');
+    });
+
+    it('should reject a wrong current password', async () => {
+      await expect(changePassword({ current_password: 'wrongpassword', new_password: 'newpassword456' }, userId, null))
+        .rejects.toThrow(/re-authentication failed/i);
+
+      expect(await signIn({ email: 'account@example.com', password: 'password123' })).not.toBeNull();
+    });
+
+    it('should point Google-only accounts to setPassword', async () => {
+      const googleUser = await googleAuth({
+        id_token: signTestGoogleIdToken({ sub: 'google_change', email: 'googlechange@gmail.com', name: 'Google User' })
+      });
+
+      await expect(changePassword({ current_password: 'google_oauth_user', new_password: 'newpassword456' }, googleUser.id, null))
+        .rejects.toThrow(/no password yet/i);
+    });
+  });
+
+  describe('setPassword', () => {
+    it('should let a Google-only account sign in with a password', async () => {
+      const googleUser = await googleAuth({
+        id_token: signTestGoogleIdToken({ sub: 'google_set', email: 'googleset@gmail.com', name: 'Google User' })
+      });
+
+      const result = await setPassword({
+        id_token: signTestGoogleIdToken({ sub: 'google_set', email: 'googleset@gmail.com' }),
+        new_password: 'firstpassword1'
+      }, googleUser.id);
+
+      expect(result.providers).toEqual(['password', 'google']);
+      expect(await signIn({ email: 'googleset@gmail.com', password: 'firstpassword1' })).not.toBeNull();
+    });
+
+    it('should require a fresh Google ID token', async () => {
+      const googleUser = await googleAuth({
+        id_token: signTestGoogleIdToken({ sub: 'google_set', email: 'googleset@gmail.com', name: 'Google User' })
+      });
+
+      await expect(setPassword({ new_password: 'firstpassword1' }, googleUser.id)).rejects.toThrow(/google account/i);
+    });
+
+    it('should refuse accounts that already have a password', async () => {
+      await expect(setPassword({ password: 'password123', new_password: 'newpassword456' }, userId))
+        .rejects.toThrow(/already has a password/i);
+    });
+  });
+
+  describe('changeEmail', () => {
+    it('should only switch addresses once the new one is confirmed', async () => {
+      const result = await changeEmail({ password: 'password123', new_email: 'moved@example.com' }, userId);
+
+      expect(result).toBe(true);
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].to).toEqual('moved@example.com');
+
+      let users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].email).toEqual('account@example.com');
+
+      const confirmed = await verifyEmail({ token: lastEmailToken() });
+
+      expect(confirmed.email).toEqual('moved@example.com');
+      expect(confirmed.email_verified).toBe(true);
+      users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].email).toEqual('moved@example.com');
+
+      // The old address is told about the change
+      expect(mailer.outbox[1].to).toEqual('account@example.com');
+      expect(mailer.outbox[1].text).toContain('moved@example.com');
+    });
+
+    it('should reject an address that is already in use', async () => {
+      await expect(changeEmail({ password: 'password123', new_email: 'other@example.com' }, userId))
+        .rejects.toMatchObject({ code: 'CONFLICT' });
+      await expect(changeEmail({ password: 'password123', new_email: 'Other@Example.com' }, userId))
+        .rejects.toMatchObject({ code: 'CONFLICT' });
+      expect(mailer.outbox).toHaveLength(0);
+    });
+
+    it('should let users change only the case of their own address', async () => {
+      await changeEmail({ password: 'password123', new_email: 'Account@example.com' }, userId);
+
+      expect((await verifyEmail({ token: lastEmailToken() })).email).toEqual('Account@example.com');
+    });
+
+    it('should not apply the change if the address was taken before confirming', async () => {
+      await changeEmail({ password: 'password123', new_email: 'moved@example.com' }, userId);
+      const token = lastEmailToken();
+      await signUp({ email: 'Moved@example.com', password: 'password123', name: 'Quick User' });
+
+      await expect(verifyEmail({ token })).rejects.toMatchObject({ code: 'CONFLICT' });
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].email).toEqual('account@example.com');
+    });
+
+    it('should require re-authentication', async () => {
+      await expect(changeEmail({ password: 'wrongpassword', new_email: 'moved@example.com' }, userId))
+        .rejects.toThrow(/re-authentication failed/i);
+    });
+  });
+
+  describe('unlinkGoogle', () => {
+    it('should unlink Google from an account with a password', async () => {
+      // Linking keeps the password only on an account whose address was confirmed
+      await db.update(usersTable).set({ email_verified_at: new Date() }).where(eq(usersTable.id, userId)).execute();
+      await googleAuth({
+        id_token: signTestGoogleIdToken({ sub: 'google_linked', email: 'account@example.com', name: 'Account User' })
+      });
+
+      const result = await unlinkGoogle({ password: 'password123' }, userId);
+
+      expect(result.providers).toEqual(['password']);
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].google_id).toBeNull();
+    });
+
+    it('should refuse to leave an account without a way to sign in', async () => {
+      const googleUser = await googleAuth({
+        id_token: signTestGoogleIdToken({ sub: 'google_only', email: 'googleonly@gmail.com', name: 'Google User' })
+      });
+
+      await expect(unlinkGoogle({
+        id_token: signTestGoogleIdToken({ sub: 'google_only', email: 'googleonly@gmail.com' })
+      }, googleUser.id)).rejects.toThrow(/set a password/i);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, googleUser.id)).execute();
+      expect(users[0].google_id).toEqual('google_only');
+    });
+
+    it('should fail when Google is not linked', async () => {
+      await expect(unlinkGoogle({ password: 'password123' }, userId)).rejects.toThrow(/no google account/i);
+    });
+  });
+
+  describe('setReportingCurrency', () => {
+    afterEach(() => {
+      setFxRateProvider(null);
+    });
+
+    it('should switch the currency values are shown in', async () => {
+      setFxRateProvider(createStaticFxRateProvider({ '2024-01-01': { IDR: 15500 } }));
+
+      const result = await setReportingCurrency({ currency: 'IDR' }, userId);
+
+      expect(result.reporting_currency).toEqual('IDR');
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].reporting_currency).toEqual('IDR');
+    });
+
+    it('should reject currencies without an exchange rate', async () => {
+      setFxRateProvider(createStaticFxRateProvider({}));
+
+      await expect(setReportingCurrency({ currency: 'XAU' }, userId)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+
+  describe('setLocale', () => {
+    it('should store the canonical form of the tag', async () => {
+      const result = await setLocale({ locale: 'id-id' }, userId);
+
+      expect(result.locale).toEqual('id-ID');
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].locale).toEqual('id-ID');
+    });
+
+    it('should reject malformed tags', async () => {
+      await expect(setLocale({ locale: 'not a locale' }, userId)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+
+  describe('purgeAccount', () => {
+    it('should remove the user and every dependent row', async () => {
+      const session = await createSession(userId);
+      const { secret } = await beginTotpEnrollment(userId);
+      await confirmTotpEnrollment(userId, { code: generateTotpCode(secret) });
+
+      const result = await purgeAccount(userId);
+
+      expect(result).toBe(true);
+      expect(await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute()).toHaveLength(0);
+      expect(await db.select().from(goldTransactionsTable).where(eq(goldTransactionsTable.user_id, userId)).execute()).toHaveLength(0);
+      expect(await db.select().from(goldGoalsTable).where(eq(goldGoalsTable.user_id, userId)).execute()).toHaveLength(0);
+      expect(await db.select().from(zakatRemindersTable).where(eq(zakatRemindersTable.user_id, userId)).execute()).toHaveLength(0);
+      expect(await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, userId)).execute()).toHaveLength(0);
+      expect(await db.select().from(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute()).toHaveLength(0);
+      expect(await getSessionUser(session.token)).toBeNull();
+    });
+
+    it('should leave other users untouched', async () => {
+      await purgeAccount(userId);
+
+      expect(await db.select().from(usersTable).where(eq(usersTable.id, otherUserId)).execute()).toHaveLength(1);
+      expect(await db.select().from(goldTransactionsTable).where(eq(goldTransactionsTable.user_id, otherUserId)).execute()).toHaveLength(1);
+      expect(await db.select().from(goldGoalsTable).where(eq(goldGoalsTable.user_id, otherUserId)).execute()).toHaveLength(1);
+      expect(await db.select().from(zakatRemindersTable).where(eq(zakatRemindersTable.user_id, otherUserId)).execute()).toHaveLength(1);
+    });
+  });
+
+  describe('purgeDueAccountDeletions', () => {
+    it('should purge only accounts whose grace period has ended', async () => {
+      await scheduleAccountDeletion(userId, { password: 'password123' });
+      await scheduleAccountDeletion(otherUserId, { password: 'password123' });
+      await db.update(usersTable)
+        .set({ deletion_scheduled_for: new Date(Date.now() - 1000) })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const purged = await purgeDueAccountDeletions();
+
+      expect(purged).toEqual(1);
+      expect(await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute()).toHaveLength(0);
+      expect(await db.select().from(usersTable).where(eq(usersTable.id, otherUserId)).execute()).toHaveLength(1);
+    });
+
+    it('should not purge a cancelled deletion', async () => {
+      await scheduleAccountDeletion(userId, { password: 'password123' });
+      await cancelAccountDeletion(userId);
+
+      const purged = await purgeDueAccountDeletions();
+
+      expect(purged).toEqual(0);
+      expect(await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute()).toHaveLength(1);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createTestContext } from '../helpers/context';
+import { db } from '../db';
+import { usersTable, goldTransactionsTable, type User } from '../db/schema';
+import { listUsers, getUserDetail, recomputeUserZakat, setUserRole, promoteAdminsByEmail } from '../handlers/admin';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+describe('Admin Handlers', () => {
+  let admin: User;
+  let member: User;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const adminResult = await db.insert(usersTable)
+      .values({
+        email: 'admin@example.com',
+        password_hash: 'hashed_password',
+        name: 'Admin User',
+        role: 'admin',
+        email_verified_at: new Date()
+      })
+      .returning()
+      .execute();
+    admin = adminResult[0];
+
+    const memberResult = await db.insert(usersTable)
+      .values({
+        email: 'member@example.com',
+        password_hash: 'hashed_password',
+        name: 'Member User',
+        email_verified_at: new Date()
+      })
+      .returning()
+      .execute();
+    member = memberResult[0];
+  });
+
+  afterEach(resetDB);
+
+  describe('adminProcedure', () => {
+    it('should reject unauthenticated callers', async () => {
+      const caller = appRouter.createCaller(createTestContext());
+
+      await expect(caller.admin.listUsers({})).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should reject users without the admin role', async () => {
+      const caller = appRouter.createCaller(createTestContext(member));
+
+      await expect(caller.admin.listUsers({})).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.admin.getPendingZakatReminders()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.admin.fetchFreshGoldPrice()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should let admins through', async () => {
+      const caller = appRouter.createCaller(createTestContext(admin));
+
+      const result = await caller.admin.listUsers({});
+
+      expect(result.total).toEqual(2);
+    });
+
+    it('should expose the role on the public profile', async () => {
+      const caller = appRouter.createCaller(createTestContext(member));
+
+      const result = await caller.auth.me();
+
+      expect(result.role).toEqual('user');
+    });
+  });
+
+  describe('listUsers', () => {
+    it('should page through users in id order', async () => {
+      const firstPage = await listUsers({ limit: 1, offset: 0 });
+      const secondPage = await listUsers({ limit: 1, offset: 1 });
+
+      expect(firstPage.total).toEqual(2);
+      expect(firstPage.users).toHaveLength(1);
+      expect(firstPage.users[0].email).toEqual('admin@example.com');
+      expect(secondPage.users[0].email).toEqual('member@example.com');
+    });
+
+    it('should filter by email or name', async () => {
+      const byEmail = await listUsers({ search: 'MEMBER@', limit: 50, offset: 0 });
+      const byName = await listUsers({ search: 'admin user', limit: 50, offset: 0 });
+
+      expect(byEmail.total).toEqual(1);
+      expect(byEmail.users[0].id).toEqual(member.id);
+      expect(byName.users[0].id).toEqual(admin.id);
+    });
+
+    it('should treat LIKE wildcards in the search literally', async () => {
+      const result = await listUsers({ search: '%', limit: 50, offset: 0 });
+
+      expect(result.total).toEqual(0);
+    });
+
+    it('should not expose password hashes', async () => {
+      const result = await listUsers({ limit: 50, offset: 0 });
+
+      expect(result.users[0]).not.toHaveProperty('password_hash');
+    });
+  });
+
+  describe('getUserDetail', () => {
+    it('should summarise the user\'s data', async () => {
+      await db.insert(goldTransactionsTable)
+        .values({
+          user_id: member.id,
+          type: 'buy',
+          weight_grams: '100.000',
+          price_per_gram: '60.00',
+          total_price: '6000.00',
+          transaction_date: new Date('2023-01-01')
+        })
+        .execute();
+
+      const result = await getUserDetail(member.id);
+
+      expect(result.email).toEqual('member@example.com');
+      expect(result.transaction_count).toEqual(1);
+      expect(result.goal_count).toEqual(0);
+      expect(result.zakat_status).toBeNull();
+    });
+
+    it('should return NOT_FOUND for an unknown user', async () => {
+      await expect(getUserDetail(99999)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('recomputeUserZakat', () => {
+    it('should update the user\'s zakat status', async () => {
+      await db.insert(goldTransactionsTable)
+        .values({
+          user_id: member.id,
+          type: 'buy',
+          weight_grams: '100.000',
+          price_per_gram: '60.00',
+          total_price: '6000.00',
+          transaction_date: new Date('2023-01-01')
+        })
+        .execute();
+
+      const result = await recomputeUserZakat(member.id);
+
+      expect(result).not.toBeNull();
+      expect(result!.user_id).toEqual(member.id);
+      expect(result!.gold_weight_grams).toEqual(100);
+    });
+
+    it('should return NOT_FOUND for an unknown user', async () => {
+      await expect(recomputeUserZakat(99999)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('setUserRole', () => {
+    it('should grant the admin role', async () => {
+      const result = await setUserRole({ userId: member.id, role: 'admin' }, admin.id);
+
+      expect(result.role).toEqual('admin');
+    });
+
+    it('should not let an admin demote themselves', async () => {
+      await expect(setUserRole({ userId: admin.id, role: 'user' }, admin.id)).rejects.toThrow(/your own admin role/i);
+    });
+  });
+
+  describe('promoteAdminsByEmail', () => {
+    it('should promote only the listed users', async () => {
+      const promoted = await promoteAdminsByEmail(['member@example.com', 'unknown@example.com']);
+
+      expect(promoted).toEqual(1);
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, member.id)).execute();
+      expect(users[0].role).toEqual('admin');
+    });
+
+    it('should not promote an unverified account with a listed email', async () => {
+      const unverified = await db.insert(usersTable)
+        .values({ email: 'boss@example.com', password_hash: 'hashed_password', name: 'Squatter' })
+        .returning()
+        .execute();
+
+      const promoted = await promoteAdminsByEmail(['boss@example.com']);
+
+      expect(promoted).toEqual(0);
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, unverified[0].id)).execute();
+      expect(users[0].role).toEqual('user');
+    });
+  });
+
+  describe('moved routes', () => {
+    it('should no longer serve operational endpoints publicly', () => {
+      const procedures = Object.keys(appRouter._def.procedures);
+
+      expect(procedures).not.toContain('zakat.getPendingReminders');
+      expect(procedures).not.toContain('goldPrice.fetchFresh');
+      expect(procedures).toContain('admin.getPendingZakatReminders');
+      expect(procedures).toContain('admin.fetchFreshGoldPrice');
+    });
+  });
+});
\ No newline at end of file
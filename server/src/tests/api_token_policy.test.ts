@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'bun:test';
+import { apiTokenDenialReason } from '../services/api_token_policy';
+
+describe('apiTokenDenialReason', () => {
+  it('should let read tokens call queries only', () => {
+    expect(apiTokenDenialReason('read', 'transactions.getByUser', 'query')).toBeNull();
+    expect(apiTokenDenialReason('read', 'transactions.create', 'mutation')).toMatch(/read-only/);
+  });
+
+  it('should let write tokens call mutations', () => {
+    expect(apiTokenDenialReason('write', 'transactions.create', 'mutation')).toBeNull();
+    expect(apiTokenDenialReason('write', 'goals.markCompleted', 'mutation')).toBeNull();
+  });
+
+  it('should keep credential and account management behind a session', () => {
+    expect(apiTokenDenialReason('write', 'apiTokens.create', 'mutation')).toMatch(/sign in/);
+    expect(apiTokenDenialReason('write', 'account.changePassword', 'mutation')).toMatch(/sign in/);
+    expect(apiTokenDenialReason('read', 'auth.listSessions', 'query')).toMatch(/sign in/);
+    expect(apiTokenDenialReason('read', 'admin.listUsers', 'query')).toMatch(/sign in/);
+  });
+
+  it('should keep household membership behind a session', () => {
+    expect(apiTokenDenialReason('write', 'households.invite', 'mutation')).toMatch(/sign in/);
+    expect(apiTokenDenialReason('write', 'households.updateMember', 'mutation')).toMatch(/sign in/);
+    expect(apiTokenDenialReason('write', 'households.removeMember', 'mutation')).toMatch(/sign in/);
+    expect(apiTokenDenialReason('read', 'households.listInvitations', 'query')).toMatch(/sign in/);
+  });
+
+  it('should let scripts check who they are and which households they are in', () => {
+    expect(apiTokenDenialReason('read', 'auth.me', 'query')).toBeNull();
+    expect(apiTokenDenialReason('read', 'households.list', 'query')).toBeNull();
+  });
+});
\ No newline at end of file
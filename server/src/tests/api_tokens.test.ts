@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { resetDB, createDB } from '../helpers';
+import { createTestContext } from '../helpers/context';
+import { db } from '../db';
+import { usersTable, apiTokensTable, type User } from '../db/schema';
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  getApiTokenGrant,
+  deleteExpiredApiTokens
+} from '../handlers/api_tokens';
+import { createSession } from '../handlers/sessions';
+import { purgeAccount } from '../handlers/account';
+import { hashToken } from '../services/tokens';
+import { createContext } from '../context';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+// Run the real context factory for a request carrying the given Authorization header
+const contextFor = (authorization: string) => {
+  const req = new IncomingMessage(new Socket());
+  req.headers.authorization = authorization;
+  const res = new ServerResponse(req);
+  return createContext({ req, res, info: {} as CreateHTTPContextOptions['info'] });
+};
+
+const transactionInput = {
+  type: 'buy' as const,
+  weight_grams: 5,
+  price_per_gram: 60,
+  transaction_date: new Date('2024-02-01')
+};
+
+describe('API Token Handlers', () => {
+  let user: User;
+  let otherUser: User;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'script@example.com', password_hash: 'hashed_password', name: 'Script User', email_verified_at: new Date() })
+      .returning()
+      .execute();
+    user = userResult[0];
+
+    const otherResult = await db.insert(usersTable)
+      .values({ email: 'other@example.com', password_hash: 'hashed_password', name: 'Other User' })
+      .returning()
+      .execute();
+    otherUser = otherResult[0];
+  });
+
+  afterEach(resetDB);
+
+  describe('createApiToken', () => {
+    it('should return the raw token once and store only its hash', async () => {
+      const result = await createApiToken({ name: 'Spreadsheet', scope: 'write', expires_in_days: 30 }, user.id);
+
+      expect(result.token).toStartWith('emt_');
+      expect(result.token.startsWith(result.token_prefix)).toBe(true);
+      expect(result.scope).toEqual('write');
+      expect(result.last_used_at).toBeNull();
+
+      const daysAhead = (result.expires_at.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+      expect(daysAhead).toBeGreaterThan(29.9);
+      expect(daysAhead).toBeLessThanOrEqual(30);
+
+      const rows = await db.select().from(apiTokensTable).execute();
+      expect(rows).toHaveLength(1);
+      expect(rows[0].token_hash).toEqual(hashToken(result.token));
+      expect(rows[0].token_hash).not.toEqual(result.token);
+    });
+
+    it('should cap the number of live tokens', async () => {
+      for (let i = 0; i < 25; i++) {
+        await createApiToken({ name: `Token ${i}`, scope: 'read', expires_in_days: 90 }, user.id);
+      }
+
+      await expect(createApiToken({ name: 'One too many', scope: 'read', expires_in_days: 90 }, user.id))
+        .rejects.toThrow(/at most 25/);
+    });
+  });
+
+  describe('listApiTokens', () => {
+    it('should list the user\'s unexpired tokens without secrets', async () => {
+      await createApiToken({ name: 'Shell script', scope: 'read', expires_in_days: 90 }, user.id);
+      const expired = await createApiToken({ name: 'Old', scope: 'read', expires_in_days: 90 }, user.id);
+      await createApiToken({ name: 'Not mine', scope: 'read', expires_in_days: 90 }, otherUser.id);
+      await db.update(apiTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(apiTokensTable.id, expired.id))
+        .execute();
+
+      const result = await listApiTokens(user.id);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].name).toEqual('Shell script');
+      expect(result[0]).not.toHaveProperty('token');
+      expect(result[0]).not.toHaveProperty('token_hash');
+    });
+  });
+
+  describe('revokeApiToken', () => {
+    it('should stop the token from working', async () => {
+      const issued = await createApiToken({ name: 'Shell script', scope: 'read', expires_in_days: 90 }, user.id);
+
+      const result = await revokeApiToken({ id: issued.id }, user.id);
+
+      expect(result).toBe(true);
+      expect(await getApiTokenGrant(issued.token)).toBeNull();
+    });
+
+    it('should not revoke another user\'s token', async () => {
+      const issued = await createApiToken({ name: 'Shell script', scope: 'read', expires_in_days: 90 }, user.id);
+
+      await expect(revokeApiToken({ id: issued.id }, otherUser.id)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      expect(await getApiTokenGrant(issued.token)).not.toBeNull();
+    });
+  });
+
+  describe('getApiTokenGrant', () => {
+    it('should resolve the user and scope and record last use', async () => {
+      const issued = await createApiToken({ name: 'Shell script', scope: 'read', expires_in_days: 90 }, user.id);
+
+      const grant = await getApiTokenGrant(issued.token, '203.0.113.9');
+
+      expect(grant).not.toBeNull();
+      expect(grant!.user.id).toEqual(user.id);
+      expect(grant!.scope).toEqual('read');
+
+      const rows = await db.select().from(apiTokensTable).where(eq(apiTokensTable.id, issued.id)).execute();
+      expect(rows[0].last_used_at).toBeInstanceOf(Date);
+      expect(rows[0].last_used_ip).toEqual('203.0.113.9');
+    });
+
+    it('should not resolve expired or unknown tokens', async () => {
+      const issued = await createApiToken({ name: 'Shell script', scope: 'read', expires_in_days: 90 }, user.id);
+      await db.update(apiTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(apiTokensTable.id, issued.id))
+        .execute();
+
+      expect(await getApiTokenGrant(issued.token)).toBeNull();
+      expect(await getApiTokenGrant('emt_unknown')).toBeNull();
+    });
+  });
+
+  describe('deleteExpiredApiTokens', () => {
+    it('should only remove expired tokens', async () => {
+      const expired = await createApiToken({ name: 'Old', scope: 'read', expires_in_days: 90 }, user.id);
+      await createApiToken({ name: 'Current', scope: 'read', expires_in_days: 90 }, user.id);
+      await db.update(apiTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(apiTokensTable.id, expired.id))
+        .execute();
+
+      expect(await deleteExpiredApiTokens()).toEqual(1);
+      expect(await db.select().from(apiTokensTable).execute()).toHaveLength(1);
+    });
+  });
+
+  describe('bearer authentication', () => {
+    it('should accept a token in the Authorization header', async () => {
+      const issued = await createApiToken({ name: 'Shell script', scope: 'read', expires_in_days: 90 }, user.id);
+
+      const ctx = await contextFor(`Bearer ${issued.token}`);
+
+      expect(ctx.user!.id).toEqual(user.id);
+      expect(ctx.apiToken).toEqual({ id: issued.id, scope: 'read' });
+      expect(ctx.sessionToken).toBeNull();
+    });
+
+    it('should still accept session tokens', async () => {
+      const session = await createSession(user.id);
+
+      const ctx = await contextFor(`Bearer ${session.token}`);
+
+      expect(ctx.user!.id).toEqual(user.id);
+      expect(ctx.apiToken).toBeNull();
+      expect(ctx.sessionToken).toEqual(session.token);
+    });
+
+    it('should let read tokens query but not mutate', async () => {
+      const issued = await createApiToken({ name: 'Shell script', scope: 'read', expires_in_days: 90 }, user.id);
+      const caller = appRouter.createCaller(await contextFor(`Bearer ${issued.token}`));
+
+      expect((await caller.transactions.getByUser()).items).toEqual([]);
+      await expect(caller.transactions.create(transactionInput)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should let write tokens log purchases', async () => {
+      const issued = await createApiToken({ name: 'Spreadsheet', scope: 'write', expires_in_days: 90 }, user.id);
+      const caller = appRouter.createCaller(await contextFor(`Bearer ${issued.token}`));
+
+      const result = await caller.transactions.create(transactionInput);
+
+      expect(result.user_id).toEqual(user.id);
+    });
+
+    it('should keep token management behind a session', async () => {
+      const issued = await createApiToken({ name: 'Spreadsheet', scope: 'write', expires_in_days: 90 }, user.id);
+      const caller = appRouter.createCaller(createTestContext(user, null, null, { id: issued.id, scope: 'write' }));
+
+      await expect(caller.apiTokens.create({ name: 'Escalation' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.account.export()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect((await caller.auth.me()).id).toEqual(user.id);
+    });
+  });
+
+  describe('account purge', () => {
+    it('should remove the user\'s tokens', async () => {
+      await createApiToken({ name: 'Shell script', scope: 'read', expires_in_days: 90 }, user.id);
+
+      await purgeAccount(user.id);
+
+      expect(await db.select().from(apiTokensTable).execute()).toHaveLength(0);
+    });
+  });
+});
\ No newline at end of file
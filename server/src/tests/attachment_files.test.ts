@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'bun:test';
+import { deflateSync } from 'node:zlib';
+import sharp from 'sharp';
+import { crc32 } from '../services/zip';
+import { detectContentType, createThumbnail } from '../services/attachment_files';
+
+// Build a PNG from its header fields and already-filtered scanlines
+const buildPng = (width: number, height: number, bitDepth: number, colorType: number, scanlines: number[]) => {
+  const chunk = (type: string, body: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length);
+    const checksum = Buffer.alloc(4);
+    checksum.writeUInt32BE(crc32(Buffer.concat([Buffer.from(type, 'latin1'), body])));
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), body, checksum]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(Buffer.from(scanlines))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+// Render a flat-coloured test image in the given format
+const buildImage = (width: number, height: number, format: 'png' | 'jpeg' | 'webp') =>
+  sharp({ create: { width, height, channels: 3, background: '#808080' } }).toFormat(format).toBuffer();
+
+describe('detectContentType', () => {
+  it('should recognise files by their first bytes', async () => {
+    expect(detectContentType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toEqual('image/jpeg');
+    expect(detectContentType(await buildImage(1, 1, 'png'))).toEqual('image/png');
+    expect(detectContentType(Buffer.from('RIFF\x10\x00\x00\x00WEBPVP8 ', 'latin1'))).toEqual('image/webp');
+    expect(detectContentType(Buffer.from('%PDF-1.7\n'))).toEqual('application/pdf');
+  });
+
+  it('should reject anything else, whatever it claims to be', () => {
+    expect(detectContentType(Buffer.from('<html><body>invoice.pdf</body></html>'))).toBeNull();
+    expect(detectContentType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('createThumbnail', () => {
+  it('should scale PNGs down to the thumbnail size', async () => {
+    const thumbnail = await createThumbnail(await buildImage(600, 300, 'png'), 'image/png');
+    const metadata = await sharp(thumbnail!.data).metadata();
+
+    expect(thumbnail!.content_type).toEqual('image/png');
+    expect(metadata.format).toEqual('png');
+    expect(metadata.width).toEqual(256);
+    expect(metadata.height).toEqual(128);
+  });
+
+  it('should make thumbnails of plain JPEGs and WebP images', async () => {
+    const jpeg = await createThumbnail(await buildImage(300, 600, 'jpeg'), 'image/jpeg');
+    const webp = await createThumbnail(await buildImage(1024, 512, 'webp'), 'image/webp');
+
+    expect(jpeg!.content_type).toEqual('image/jpeg');
+    expect(await sharp(jpeg!.data).metadata()).toMatchObject({ format: 'jpeg', width: 128, height: 256 });
+    expect(webp!.content_type).toEqual('image/webp');
+    expect(await sharp(webp!.data).metadata()).toMatchObject({ format: 'webp', width: 256, height: 128 });
+  });
+
+  it('should not enlarge small images', async () => {
+    const thumbnail = await createThumbnail(await buildImage(40, 20, 'png'), 'image/png');
+
+    expect(await sharp(thumbnail!.data).metadata()).toMatchObject({ width: 40, height: 20 });
+  });
+
+  it('should give up on malformed images', async () => {
+    expect(await createThumbnail(Buffer.from('\x89PNG\r\n\x1a\nnot really', 'latin1'), 'image/png')).toBeNull();
+    expect(await createThumbnail(Buffer.from([0xff, 0xd8, 0xff, 0xd9]), 'image/jpeg')).toBeNull();
+  });
+
+  it('should refuse dimensions too large to thumbnail before decoding anything', async () => {
+    expect(await createThumbnail(buildPng(6000, 5000, 8, 6, [0]), 'image/png')).toBeNull();
+  });
+
+  it('should make no thumbnail for PDFs', async () => {
+    expect(await createThumbnail(Buffer.from('%PDF-1.7\n'), 'application/pdf')).toBeNull();
+  });
+});
\ No newline at end of file
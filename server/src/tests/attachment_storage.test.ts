@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createLocalAttachmentStorage, createMemoryAttachmentStorage, createS3AttachmentStorage } from '../services/attachment_storage';
+
+describe('createLocalAttachmentStorage', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'emastrack-attachments-'));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should write, read and delete files by key', async () => {
+    const storage = createLocalAttachmentStorage(rootDir);
+
+    await storage.put('transactions/1/invoice.pdf', Buffer.from('%PDF-1.7'), 'application/pdf');
+
+    expect(await readFile(join(rootDir, 'transactions', '1', 'invoice.pdf'), 'utf8')).toEqual('%PDF-1.7');
+    expect((await storage.get('transactions/1/invoice.pdf'))!.toString()).toEqual('%PDF-1.7');
+
+    await storage.delete('transactions/1/invoice.pdf');
+    await storage.delete('transactions/1/invoice.pdf');
+
+    expect(await storage.get('transactions/1/invoice.pdf')).toBeNull();
+  });
+
+  it('should refuse keys that leave the storage directory', async () => {
+    const storage = createLocalAttachmentStorage(rootDir);
+
+    await expect(storage.put('../outside.pdf', Buffer.from('x'), 'application/pdf')).rejects.toThrow('Invalid storage key');
+    await expect(storage.get('/etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('createMemoryAttachmentStorage', () => {
+  it('should keep files with their content type', async () => {
+    const storage = createMemoryAttachmentStorage();
+
+    await storage.put('transactions/2/bar.png', Buffer.from('png'), 'image/png');
+
+    expect(storage.files.get('transactions/2/bar.png')!.content_type).toEqual('image/png');
+    expect(await storage.get('transactions/3/missing.png')).toBeNull();
+  });
+});
+
+describe('createS3AttachmentStorage', () => {
+  // A stand-in bucket that keeps objects by path and records how each request was signed
+  const objects = new Map<string, { data: Buffer; content_type: string | null }>();
+  const authorizations: string[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeEach(() => {
+    objects.clear();
+    authorizations.length = 0;
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const path = new URL(request.url).pathname;
+        authorizations.push(request.headers.get('authorization') || '');
+        if (request.method === 'PUT') {
+          objects.set(path, { data: Buffer.from(await request.arrayBuffer()), content_type: request.headers.get('content-type') });
+          return new Response(null, { status: 200 });
+        }
+        if (request.method === 'DELETE') {
+          objects.delete(path);
+          return new Response(null, { status: 204 });
+        }
+        const object = objects.get(path);
+        return object
+          ? new Response(object.data, { headers: { 'content-type': object.content_type || 'application/octet-stream' } })
+          : new Response('<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>', {
+            status: 404,
+            headers: { 'content-type': 'application/xml' }
+          });
+      }
+    });
+  });
+
+  afterEach(() => server.stop(true));
+
+  it('should write, read and delete signed objects in the bucket', async () => {
+    const storage = createS3AttachmentStorage({
+      endpoint: `http://127.0.0.1:${server.port}`,
+      bucket: 'receipts',
+      region: 'eu-central-1',
+      access_key_id: 'test-key',
+      secret_access_key: 'test-secret'
+    });
+
+    await storage.put('transactions/1/invoice.pdf', Buffer.from('%PDF-1.7'), 'application/pdf');
+
+    expect(objects.get('/receipts/transactions/1/invoice.pdf')).toEqual({ data: Buffer.from('%PDF-1.7'), content_type: 'application/pdf' });
+    expect((await storage.get('transactions/1/invoice.pdf'))!.toString()).toEqual('%PDF-1.7');
+
+    await storage.delete('transactions/1/invoice.pdf');
+
+    expect(await storage.get('transactions/1/invoice.pdf')).toBeNull();
+    expect(authorizations.every(header => header.startsWith('AWS4-HMAC-SHA256 Credential=test-key/'))).toBe(true);
+    await expect(storage.get('../outside.pdf')).rejects.toThrow('Invalid storage key');
+  });
+});
\ No newline at end of file
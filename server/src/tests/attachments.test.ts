@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, householdMembersTable, goldTransactionsTable, transactionAttachmentsTable, auditEventsTable } from '../db/schema';
+import { uploadAttachmentInputSchema, MAX_ATTACHMENT_BYTES } from '../schema';
+import { uploadAttachment, listAttachments, downloadAttachment, deleteAttachment } from '../handlers/attachments';
+import { createTransaction, deleteTransaction } from '../handlers/transactions';
+import { createHousehold, deleteHousehold } from '../handlers/households';
+import { purgeAccount } from '../handlers/account';
+import { purgeExpiredTrash } from '../handlers/trash';
+import { createMemoryAttachmentStorage, setAttachmentStorage } from '../services/attachment_storage';
+import { eq } from 'drizzle-orm';
+import sharp from 'sharp';
+
+const storage = createMemoryAttachmentStorage();
+
+const pngData = await sharp({ create: { width: 512, height: 256, channels: 4, background: '#c8c8c8' } }).png().toBuffer();
+const pdfData = Buffer.from('%PDF-1.7\n1 0 obj << >> endobj\n%%EOF\n');
+
+const upload = (transactionId: number, data: Buffer, fileName: string) => uploadAttachmentInputSchema.parse({
+  transaction_id: transactionId,
+  kind: 'invoice',
+  file_name: fileName,
+  data: data.toString('base64')
+});
+
+const buy = (householdId?: number) => ({
+  type: 'buy' as const,
+  weight_grams: 10,
+  price_per_gram: 60,
+  transaction_date: new Date('2024-01-15'),
+  household_id: householdId
+});
+
+describe('Attachment Handlers', () => {
+  let userId: number;
+  let otherUserId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    storage.files.clear();
+    setAttachmentStorage(storage);
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', name: 'Owner' },
+        { email: 'other@example.com', password_hash: 'hashed_password', name: 'Other' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    otherUserId = users[1].id;
+
+    transactionId = (await createTransaction(buy(), userId)).id;
+  });
+
+  afterEach(async () => {
+    setAttachmentStorage(null);
+    delete process.env['ATTACHMENT_MAX_BYTES'];
+    await resetDB();
+  });
+
+  describe('uploadAttachment', () => {
+    it('should store an image with a thumbnail', async () => {
+      const attachment = await uploadAttachment(upload(transactionId, pngData, 'certificate.png'), userId);
+
+      expect(attachment.content_type).toEqual('image/png');
+      expect(attachment.size_bytes).toEqual(pngData.length);
+      expect(attachment.has_thumbnail).toBe(true);
+      expect(attachment.kind).toEqual('invoice');
+      expect(storage.files.size).toEqual(2);
+
+      const rows = await db.select().from(transactionAttachmentsTable).execute();
+      expect(rows[0].storage_key.startsWith(`transactions/${transactionId}/`)).toBe(true);
+      expect(storage.files.get(rows[0].storage_key)!.data).toEqual(pngData);
+    });
+
+    it('should store a PDF without a thumbnail and record an audit event', async () => {
+      const attachment = await uploadAttachment(upload(transactionId, pdfData, 'invoice.pdf'), userId);
+
+      expect(attachment.content_type).toEqual('application/pdf');
+      expect(attachment.has_thumbnail).toBe(false);
+      expect(storage.files.size).toEqual(1);
+
+      const events = await db.select().from(auditEventsTable).where(eq(auditEventsTable.entity_type, 'attachment')).execute();
+      expect(events).toHaveLength(1);
+      expect(events[0].entity_id).toEqual(attachment.id);
+    });
+
+    it('should reject files that are not images or PDFs', async () => {
+      await expect(uploadAttachment(upload(transactionId, Buffer.from('MZ\x90\x00'), 'invoice.pdf'), userId))
+        .rejects.toMatchObject({ code: 'UNSUPPORTED_MEDIA_TYPE' });
+      expect(storage.files.size).toEqual(0);
+    });
+
+    it('should reject files over the size limit', async () => {
+      process.env['ATTACHMENT_MAX_BYTES'] = '16';
+
+      await expect(uploadAttachment(upload(transactionId, pdfData, 'invoice.pdf'), userId))
+        .rejects.toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+    });
+
+    it('should reject oversize data before decoding it', () => {
+      const largest = Buffer.alloc(MAX_ATTACHMENT_BYTES).toString('base64');
+
+      expect(uploadAttachmentInputSchema.safeParse({ transaction_id: transactionId, file_name: 'big.pdf', data: largest }).success).toBe(true);
+      expect(uploadAttachmentInputSchema.safeParse({ transaction_id: transactionId, file_name: 'big.pdf', data: `${largest}AAAA` }).success).toBe(false);
+    });
+
+    it('should refuse transactions of other users', async () => {
+      await expect(uploadAttachment(upload(transactionId, pdfData, 'invoice.pdf'), otherUserId))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('downloadAttachment', () => {
+    it('should return the file and its thumbnail', async () => {
+      const attachment = await uploadAttachment(upload(transactionId, pngData, 'bar.png'), userId);
+
+      const file = await downloadAttachment({ attachment_id: attachment.id, variant: 'original' }, userId);
+      const thumbnail = await downloadAttachment({ attachment_id: attachment.id, variant: 'thumbnail' }, userId);
+
+      expect(file.file_name).toEqual('bar.png');
+      expect(file.data).toEqual(pngData.toString('base64'));
+      expect(thumbnail.file_name).toEqual('bar-thumbnail.png');
+      expect((await sharp(Buffer.from(thumbnail.data, 'base64')).metadata()).width).toEqual(256);
+    });
+
+    it('should report a missing thumbnail as not found', async () => {
+      const attachment = await uploadAttachment(upload(transactionId, pdfData, 'invoice.pdf'), userId);
+
+      await expect(downloadAttachment({ attachment_id: attachment.id, variant: 'thumbnail' }, userId))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should let household viewers download but not upload or delete', async () => {
+      const household = await createHousehold({ name: 'Family' }, userId);
+      await db.insert(householdMembersTable).values({ household_id: household.id, user_id: otherUserId, role: 'viewer' }).execute();
+      const shared = await createTransaction(buy(household.id), userId);
+      const attachment = await uploadAttachment(upload(shared.id, pdfData, 'invoice.pdf'), userId);
+
+      const file = await downloadAttachment({ attachment_id: attachment.id, variant: 'original' }, otherUserId);
+      expect(file.content_type).toEqual('application/pdf');
+      expect(await listAttachments(shared.id, otherUserId)).toHaveLength(1);
+
+      await expect(uploadAttachment(upload(shared.id, pdfData, 'copy.pdf'), otherUserId))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(deleteAttachment(attachment.id, otherUserId)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('deleting attachments', () => {
+    it('should remove the row and its stored files', async () => {
+      const attachment = await uploadAttachment(upload(transactionId, pngData, 'bar.png'), userId);
+
+      expect(await deleteAttachment(attachment.id, userId)).toBe(true);
+      expect(storage.files.size).toEqual(0);
+      expect(await listAttachments(transactionId, userId)).toHaveLength(0);
+    });
+
+    it('should stay while their transaction is in the trash and go when it is purged', async () => {
+      await uploadAttachment(upload(transactionId, pngData, 'bar.png'), userId);
+
+      expect(await deleteTransaction(transactionId, userId)).toBe(true);
+      expect(storage.files.size).toEqual(2);
+
+      await db.update(goldTransactionsTable)
+        .set({ deleted_at: new Date('2000-01-01') })
+        .where(eq(goldTransactionsTable.id, transactionId))
+        .execute();
+      await purgeExpiredTrash();
+
+      expect(await db.select().from(transactionAttachmentsTable).execute()).toHaveLength(0);
+      expect(storage.files.size).toEqual(0);
+    });
+
+    it('should go with a deleted household and a purged account', async () => {
+      const household = await createHousehold({ name: 'Family' }, userId);
+      const shared = await createTransaction(buy(household.id), userId);
+      await uploadAttachment(upload(shared.id, pdfData, 'shared.pdf'), userId);
+      await uploadAttachment(upload(transactionId, pdfData, 'personal.pdf'), userId);
+
+      await deleteHousehold(household.id, userId);
+      expect(storage.files.size).toEqual(1);
+
+      expect(await purgeAccount(userId)).toBe(true);
+      expect(storage.files.size).toEqual(0);
+    });
+  });
+});
\ No newline at end of file
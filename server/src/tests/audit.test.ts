@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createTestContext } from '../helpers/context';
+import { db } from '../db';
+import { usersTable, auditEventsTable, type User } from '../db/schema';
+import { recordAuditEvent, listAuditEvents } from '../handlers/audit';
+import { createTransaction, updateTransaction, deleteTransaction } from '../handlers/transactions';
+import { createGoal, markGoalCompleted } from '../handlers/goals';
+import { updateZakatStatus } from '../handlers/zakat';
+import { purgeAccount } from '../handlers/account';
+import { createMemoryMailer, setMailer } from '../services/mailer';
+import { runInRequestScope } from '../services/request_scope';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+const defaultFilters = { limit: 50, offset: 0 };
+
+describe('Audit Handlers', () => {
+  let user: User;
+  let otherUser: User;
+
+  beforeEach(async () => {
+    await createDB();
+    setMailer(createMemoryMailer());
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'audit@example.com', password_hash: 'hashed_password', name: 'Audit User' })
+      .returning()
+      .execute();
+    user = userResult[0];
+
+    const otherResult = await db.insert(usersTable)
+      .values({ email: 'other@example.com', password_hash: 'hashed_password', name: 'Other User' })
+      .returning()
+      .execute();
+    otherUser = otherResult[0];
+  });
+
+  afterEach(resetDB);
+
+  describe('recordAuditEvent', () => {
+    it('should take the actor and IP from the request scope', async () => {
+      await runInRequestScope({ actorUserId: otherUser.id, ipAddress: '203.0.113.4' }, () => recordAuditEvent({
+        user_id: user.id,
+        action: 'update',
+        entity_type: 'user',
+        entity_id: user.id,
+        reason: 'role_changed'
+      }));
+
+      const events = await db.select().from(auditEventsTable).execute();
+      expect(events).toHaveLength(1);
+      expect(events[0].user_id).toEqual(user.id);
+      expect(events[0].actor_user_id).toEqual(otherUser.id);
+      expect(events[0].ip_address).toEqual('203.0.113.4');
+      expect(events[0].created_at).toBeInstanceOf(Date);
+    });
+
+    it('should leave actor and IP empty outside a request', async () => {
+      await recordAuditEvent({ user_id: user.id, action: 'create', entity_type: 'goal', entity_id: 1 });
+
+      const events = await db.select().from(auditEventsTable).execute();
+      expect(events[0].actor_user_id).toBeNull();
+      expect(events[0].ip_address).toBeNull();
+    });
+  });
+
+  describe('transaction events', () => {
+    it('should record create, update and delete with snapshots', async () => {
+      const transaction = await createTransaction({
+        type: 'buy',
+        weight_grams: 10,
+        price_per_gram: 60,
+        transaction_date: new Date('2024-03-01')
+      }, user.id);
+      await updateTransaction({ id: transaction.id, weight_grams: 12 }, user.id);
+      await deleteTransaction(transaction.id, user.id);
+
+      const events = await listAuditEvents(user.id, { ...defaultFilters, entity_type: 'transaction' });
+
+      expect(events.map(event => event.action)).toEqual(['delete', 'update', 'create']);
+
+      const [deleted, updated, created] = events;
+      expect(created.before).toBeNull();
+      expect(created.after).toMatchObject({ id: transaction.id, type: 'buy', weight_grams: '10.000' });
+      expect(updated.before).toMatchObject({ weight_grams: '10.000' });
+      expect(updated.after).toMatchObject({ weight_grams: '12.000', total_price: '720.00' });
+      expect(deleted.before).toMatchObject({ id: transaction.id, weight_grams: '12.000' });
+      expect(deleted.after).toBeNull();
+    });
+
+    it('should not record anything for a rejected edit of another user\'s row', async () => {
+      const transaction = await createTransaction({
+        type: 'buy',
+        weight_grams: 10,
+        price_per_gram: 60,
+        transaction_date: new Date('2024-03-01')
+      }, user.id);
+
+      await expect(updateTransaction({ id: transaction.id, weight_grams: 1 }, otherUser.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      const events = await listAuditEvents(user.id, { ...defaultFilters, entity_type: 'transaction' });
+      expect(events).toHaveLength(1);
+      expect(await listAuditEvents(otherUser.id, defaultFilters)).toHaveLength(0);
+    });
+  });
+
+  describe('goal and zakat events', () => {
+    it('should record goal creation and completion', async () => {
+      const goal = await createGoal({ target_weight_grams: 50, deadline: new Date('2030-01-01'), title: 'Goal' }, user.id);
+      await markGoalCompleted(goal.id, user.id);
+
+      const events = await listAuditEvents(user.id, { ...defaultFilters, entity_type: 'goal', entity_id: goal.id });
+
+      expect(events).toHaveLength(2);
+      expect(events[0].reason).toEqual('goal_completed');
+      expect(events[0].before).toMatchObject({ is_completed: false });
+      expect(events[0].after).toMatchObject({ is_completed: true });
+    });
+
+    it('should record zakat reminder changes', async () => {
+      await updateZakatStatus(user.id);
+      await updateZakatStatus(user.id);
+
+      const events = await listAuditEvents(user.id, { ...defaultFilters, entity_type: 'zakat_reminder' });
+
+      expect(events.map(event => event.action)).toEqual(['update', 'create']);
+    });
+  });
+
+  describe('auth events', () => {
+    it('should record sign up, sign in and sign out with the client IP', async () => {
+      const caller = appRouter.createCaller(createTestContext(null, null, '198.51.100.23'));
+
+      const signUp = await caller.auth.signUp({ email: 'new@example.com', password: 'password123', name: 'New User' });
+      const signIn = await caller.auth.signIn({ email: 'new@example.com', password: 'password123' });
+      if (!signIn || signIn.status !== 'authenticated') {
+        throw new Error('Expected a session');
+      }
+
+      const signedIn = await db.select().from(usersTable).where(eq(usersTable.id, signUp.user.id)).execute();
+      await appRouter.createCaller(createTestContext(signedIn[0], signIn.token, '198.51.100.23')).auth.signOut();
+
+      const events = await listAuditEvents(signUp.user.id, defaultFilters);
+      const reasons = events.map(event => event.reason);
+
+      expect(reasons).toContain('sign_up');
+      expect(reasons).toContain('sign_in');
+      expect(reasons[0]).toEqual('sign_out');
+      events.forEach(event => expect(event.ip_address).toEqual('198.51.100.23'));
+    });
+
+    it('should never store credentials in snapshots', async () => {
+      const caller = appRouter.createCaller(createTestContext());
+
+      await caller.auth.signUp({ email: 'secret@example.com', password: 'password123', name: 'Secret User' });
+
+      const events = await db.select().from(auditEventsTable).execute();
+      expect(JSON.stringify(events)).not.toMatch(/password_hash|token_hash|totp_secret|\$argon2/);
+    });
+
+    it('should attribute admin actions to the admin', async () => {
+      const admin = (await db.update(usersTable)
+        .set({ role: 'admin', email_verified_at: new Date() })
+        .where(eq(usersTable.id, otherUser.id))
+        .returning()
+        .execute())[0];
+
+      await appRouter.createCaller(createTestContext(admin)).admin.recomputeZakat({ userId: user.id });
+
+      const events = await listAuditEvents(user.id, defaultFilters);
+      expect(events).toHaveLength(1);
+      expect(events[0].user_id).toEqual(user.id);
+      expect(events[0].actor_user_id).toEqual(admin.id);
+    });
+  });
+
+  describe('listAuditEvents', () => {
+    it('should filter by date range', async () => {
+      await recordAuditEvent({ user_id: user.id, action: 'create', entity_type: 'goal', entity_id: 1 });
+      await recordAuditEvent({ user_id: user.id, action: 'create', entity_type: 'goal', entity_id: 2 });
+      await db.update(auditEventsTable)
+        .set({ created_at: new Date('2024-01-10') })
+        .where(eq(auditEventsTable.entity_id, 1))
+        .execute();
+
+      const january = await listAuditEvents(user.id, {
+        ...defaultFilters,
+        from: new Date('2024-01-01'),
+        to: new Date('2024-01-31')
+      });
+      const sinceFebruary = await listAuditEvents(user.id, { ...defaultFilters, from: new Date('2024-02-01') });
+
+      expect(january.map(event => event.entity_id)).toEqual([1]);
+      expect(sinceFebruary.map(event => event.entity_id)).toEqual([2]);
+    });
+
+    it('should only return the caller\'s events through the router', async () => {
+      await recordAuditEvent({ user_id: user.id, action: 'create', entity_type: 'goal', entity_id: 1 });
+      await recordAuditEvent({ user_id: otherUser.id, action: 'create', entity_type: 'goal', entity_id: 2 });
+
+      const result = await appRouter.createCaller(createTestContext(user)).audit.list({});
+
+      expect(result).toHaveLength(1);
+      expect(result[0].entity_id).toEqual(1);
+    });
+
+    it('should page through events', async () => {
+      for (let i = 1; i <= 3; i++) {
+        await recordAuditEvent({ user_id: user.id, action: 'create', entity_type: 'goal', entity_id: i });
+      }
+
+      const page = await listAuditEvents(user.id, { limit: 2, offset: 2 });
+
+      expect(page).toHaveLength(1);
+      expect(page[0].entity_id).toEqual(1);
+    });
+  });
+
+  describe('account purge', () => {
+    it('should erase the user\'s audit trail', async () => {
+      await recordAuditEvent({ user_id: user.id, action: 'create', entity_type: 'goal', entity_id: 1 });
+      await recordAuditEvent({ user_id: otherUser.id, action: 'create', entity_type: 'goal', entity_id: 2 });
+
+      await purgeAccount(user.id);
+
+      const events = await db.select().from(auditEventsTable).execute();
+      expect(events).toHaveLength(1);
+      expect(events[0].user_id).toEqual(otherUser.id);
+    });
+  });
+});
\ No newline at end of file
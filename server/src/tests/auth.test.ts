@@ -1,14 +1,26 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type SignUpInput, type SignInInput, type GoogleAuthInput } from '../schema';
+import { usersTable, loginThrottlesTable, sessionsTable, apiTokensTable, auditEventsTable } from '../db/schema';
+import { type SignUpInput, type SignInInput, type GoogleAuthInput, createApiTokenInputSchema } from '../schema';
 import { signUp, signIn, googleAuth } from '../handlers/auth';
+import { requestPasswordReset, resetPassword } from '../handlers/password_reset';
+import { createSession } from '../handlers/sessions';
+import { createApiToken } from '../handlers/api_tokens';
+import { createMemoryMailer, setMailer } from '../services/mailer';
+import { useTestGoogleKeys, signTestGoogleIdToken, untrustedGooglePrivateKey } from '../helpers/google';
 import { eq } from 'drizzle-orm';
 
 
+const mailer = createMemoryMailer();
+
 describe('Auth Handlers', () => {
   beforeEach(createDB);
+  beforeEach(useTestGoogleKeys);
+  beforeEach(() => {
+    mailer.clear();
+    setMailer(mailer);
+  });
   afterEach(resetDB);
 
   describe('signUp', () => {
@@ -23,17 +35,20 @@ describe('Auth Handlers', () => {
 
       expect(result.email).toEqual('test@example.com');
       expect(result.name).toEqual('Test User');
-      expect(result.google_id).toBeNull();
+      expect(result.providers).toEqual(['password']);
       expect(result.id).toBeDefined();
       expect(result.created_at).toBeInstanceOf(Date);
-      expect(result.updated_at).toBeInstanceOf(Date);
 
       // Verify password is hashed (not the original password)
-      expect(result.password_hash).not.toEqual('testpassword123');
-      expect(result.password_hash.length).toBeGreaterThan(10);
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, result.id))
+        .execute();
+      expect(users[0].password_hash).not.toEqual('testpassword123');
+      expect(users[0].password_hash.length).toBeGreaterThan(10);
 
       // Verify password hash is valid using Bun's password verification
-      const isValidHash = await Bun.password.verify('testpassword123', result.password_hash);
+      const isValidHash = await Bun.password.verify('testpassword123', users[0].password_hash);
       expect(isValidHash).toBe(true);
     });
 
@@ -51,6 +66,15 @@ describe('Auth Handlers', () => {
       expect(users[0].google_id).toBeNull();
     });
 
+    it('should create an unverified account and email a verification link', async () => {
+      const result = await signUp(testSignUpInput);
+
+      expect(result.email_verified).toBe(false);
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].to).toEqual('test@example.com');
+      expect(mailer.outbox[0].text).toContain('/verify-email?token=');
+    });
+
     it('should throw error when email already exists', async () => {
       // Create first user
       await signUp(testSignUpInput);
@@ -89,7 +113,7 @@ describe('Auth Handlers', () => {
       expect(result).not.toBeNull();
       expect(result!.email).toEqual('signin@example.com');
       expect(result!.name).toEqual('Sign In User');
-      expect(result!.google_id).toBeNull();
+      expect(result!.providers).toEqual(['password']);
       expect(result!.id).toBeDefined();
     });
 
@@ -115,6 +139,23 @@ describe('Auth Handlers', () => {
       expect(result).toBeNull();
     });
 
+    it('should return null for a Google-only account', async () => {
+      await googleAuth({
+        id_token: signTestGoogleIdToken({
+          sub: 'google_signin',
+          email: 'googleonly@example.com',
+          name: 'Google Only'
+        })
+      });
+
+      const result = await signIn({
+        email: 'googleonly@example.com',
+        password: 'google_oauth_user'
+      });
+
+      expect(result).toBeNull();
+    });
+
     it('should return null with correct email but wrong password', async () => {
       const signInInput: SignInInput = {
         email: 'signin@example.com',
@@ -127,11 +168,138 @@ describe('Auth Handlers', () => {
     });
   });
 
+  describe('signIn throttling', () => {
+    const testUser: SignUpInput = {
+      email: 'throttle@example.com',
+      password: 'mypassword123',
+      name: 'Throttle User'
+    };
+    const wrongPassword: SignInInput = { email: 'throttle@example.com', password: 'wrongpassword' };
+    const rightPassword: SignInInput = { email: 'throttle@example.com', password: 'mypassword123' };
+
+    beforeEach(async () => {
+      await signUp(testUser);
+    });
+
+    const failTimes = async (count: number, input: SignInInput = wrongPassword, ipAddress: string | null = null) => {
+      for (let i = 0; i < count; i++) {
+        expect(await signIn(input, ipAddress)).toBeNull();
+      }
+    };
+
+    it('should back off after five failed attempts, even for the right password', async () => {
+      await failTimes(5);
+
+      await expect(signIn(rightPassword)).rejects.toMatchObject({
+        code: 'TOO_MANY_REQUESTS',
+        message: expect.stringMatching(/try again in \d+ seconds/)
+      });
+    });
+
+    it('should double the delay with each further failure', async () => {
+      await failTimes(5);
+      const first = await db.select().from(loginThrottlesTable).execute();
+
+      await db.update(loginThrottlesTable).set({ locked_until: null }).execute();
+      await failTimes(1);
+      const second = await db.select().from(loginThrottlesTable).execute();
+
+      const firstDelay = first[0].locked_until!.getTime() - first[0].last_failed_at.getTime();
+      const secondDelay = second[0].locked_until!.getTime() - second[0].last_failed_at.getTime();
+      expect(second[0].failed_attempts).toEqual(6);
+      expect(secondDelay).toEqual(firstDelay * 2);
+    });
+
+    it('should allow sign in once the delay has passed and clear the counter', async () => {
+      await failTimes(5);
+      await db.update(loginThrottlesTable)
+        .set({ locked_until: new Date(Date.now() - 1000) })
+        .execute();
+
+      const result = await signIn(rightPassword);
+
+      expect(result).not.toBeNull();
+      const throttles = await db.select().from(loginThrottlesTable)
+        .where(eq(loginThrottlesTable.key, 'email:throttle@example.com'))
+        .execute();
+      expect(throttles).toHaveLength(0);
+    });
+
+    it('should lock the account after ten failed attempts', async () => {
+      await failTimes(5);
+      await db.update(loginThrottlesTable)
+        .set({ failed_attempts: 9, locked_until: null })
+        .execute();
+
+      await failTimes(1);
+
+      await expect(signIn(rightPassword)).rejects.toMatchObject({
+        code: 'TOO_MANY_REQUESTS',
+        message: expect.stringMatching(/temporarily locked.*reset your password/i)
+      });
+    });
+
+    it('should unlock a locked account through the password reset email', async () => {
+      await failTimes(1);
+      await db.update(loginThrottlesTable)
+        .set({ failed_attempts: 10, locked_until: new Date(Date.now() + 60 * 60 * 1000) })
+        .execute();
+
+      await requestPasswordReset({ email: 'throttle@example.com' });
+      const email = mailer.outbox[mailer.outbox.length - 1];
+      expect(email.text).toContain('unlocks your account');
+      const token = decodeURIComponent(/token=([^\s]+)/.exec(email.text)![1]);
+
+      await resetPassword({ token, password: 'brandnewpassword' });
+
+      const result = await signIn({ email: 'throttle@example.com', password: 'brandnewpassword' });
+      expect(result).not.toBeNull();
+      expect(result!.email).toEqual('throttle@example.com');
+    });
+
+    it('should count attempts regardless of email case', async () => {
+      await failTimes(5, { email: 'Throttle@Example.com', password: 'wrongpassword' });
+
+      await expect(signIn(rightPassword)).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should throttle unknown emails the same way', async () => {
+      const unknown: SignInInput = { email: 'nobody@example.com', password: 'whatever123' };
+      await failTimes(5, unknown);
+
+      await expect(signIn(unknown)).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should throttle a client address guessing across many emails', async () => {
+      for (let i = 0; i < 20; i++) {
+        expect(await signIn({ email: `guess${i}@example.com`, password: 'password123' }, '203.0.113.7')).toBeNull();
+      }
+
+      await expect(signIn(rightPassword, '203.0.113.7')).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+
+      // Other addresses are unaffected
+      const result = await signIn(rightPassword, '198.51.100.1');
+      expect(result).not.toBeNull();
+    });
+
+    it('should not clear the address counter on a successful sign in', async () => {
+      await failTimes(3, wrongPassword, '203.0.113.7');
+      await signIn(rightPassword, '203.0.113.7');
+
+      const throttles = await db.select().from(loginThrottlesTable)
+        .where(eq(loginThrottlesTable.key, 'ip:203.0.113.7'))
+        .execute();
+      expect(throttles[0].failed_attempts).toEqual(3);
+    });
+  });
+
   describe('googleAuth', () => {
     const googleInput: GoogleAuthInput = {
-      google_id: 'google_12345',
-      email: 'google@example.com',
-      name: 'Google User'
+      id_token: signTestGoogleIdToken({
+        sub: 'google_12345',
+        email: 'google@example.com',
+        name: 'Google User'
+      })
     };
 
     it('should create new user with Google credentials', async () => {
@@ -139,11 +307,10 @@ describe('Auth Handlers', () => {
 
       expect(result.email).toEqual('google@example.com');
       expect(result.name).toEqual('Google User');
-      expect(result.google_id).toEqual('google_12345');
+      expect(result.providers).toEqual(['google']);
+      expect(result.email_verified).toBe(true);
       expect(result.id).toBeDefined();
       expect(result.created_at).toBeInstanceOf(Date);
-      expect(result.updated_at).toBeInstanceOf(Date);
-      expect(result.password_hash).toEqual('google_oauth_user');
     });
 
     it('should return existing user with same Google ID', async () => {
@@ -155,7 +322,7 @@ describe('Auth Handlers', () => {
 
       expect(secondResult.id).toEqual(firstResult.id);
       expect(secondResult.email).toEqual('google@example.com');
-      expect(secondResult.google_id).toEqual('google_12345');
+      expect(secondResult.providers).toEqual(['google']);
     });
 
     it('should update existing email user with Google ID', async () => {
@@ -166,20 +333,49 @@ describe('Auth Handlers', () => {
         name: 'Existing User'
       };
       const existingUser = await signUp(signUpInput);
+      await db.update(usersTable).set({ email_verified_at: new Date() }).where(eq(usersTable.id, existingUser.id)).execute();
 
       // Try Google auth with same email
       const googleInput: GoogleAuthInput = {
-        google_id: 'google_67890',
-        email: 'existing@example.com',
-        name: 'Updated Google User'
+        id_token: signTestGoogleIdToken({
+          sub: 'google_67890',
+          email: 'existing@example.com',
+          name: 'Updated Google User'
+        })
       };
 
       const result = await googleAuth(googleInput);
 
       expect(result.id).toEqual(existingUser.id);
       expect(result.email).toEqual('existing@example.com');
-      expect(result.google_id).toEqual('google_67890');
-      expect(result.updated_at).not.toEqual(existingUser.updated_at);
+      expect(result.providers).toEqual(['password', 'google']);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, result.id))
+        .execute();
+      expect(users[0].google_id).toEqual('google_67890');
+      expect(users[0].updated_at).not.toEqual(users[0].created_at);
+    });
+
+    it('should take an unverified account back from whoever registered the address', async () => {
+      const squatter = await signUp({ email: 'victim@example.com', password: 'squatter-password', name: 'Squatter' });
+      await createSession(squatter.id);
+      await createApiToken(createApiTokenInputSchema.parse({ name: 'Backdoor' }), squatter.id);
+
+      const result = await googleAuth({
+        id_token: signTestGoogleIdToken({ sub: 'google_victim', email: 'victim@example.com', name: 'Victim' })
+      });
+
+      expect(result.id).toEqual(squatter.id);
+      expect(result.providers).toEqual(['google']);
+      expect(result.email_verified).toBe(true);
+      expect(await signIn({ email: 'victim@example.com', password: 'squatter-password' })).toBeNull();
+      expect(await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, squatter.id)).execute()).toHaveLength(0);
+      expect(await db.select().from(apiTokensTable).where(eq(apiTokensTable.user_id, squatter.id)).execute()).toHaveLength(0);
+
+      const events = await db.select().from(auditEventsTable).where(eq(auditEventsTable.reason, 'google_claimed')).execute();
+      expect(events).toHaveLength(1);
     });
 
     it('should save Google user to database', async () => {
@@ -196,25 +392,79 @@ describe('Auth Handlers', () => {
       expect(users[0].google_id).toEqual('google_12345');
     });
 
+    it('should reject a token signed with an unknown key', async () => {
+      const forgedInput: GoogleAuthInput = {
+        id_token: signTestGoogleIdToken(
+          { sub: 'google_forged', email: 'victim@example.com', name: 'Attacker' },
+          { privateKey: untrustedGooglePrivateKey }
+        )
+      };
+
+      await expect(googleAuth(forgedInput)).rejects.toThrow(/signature/i);
+
+      const users = await db.select().from(usersTable).execute();
+      expect(users).toHaveLength(0);
+    });
+
+    it('should not link an existing account for a token signed with an unknown key', async () => {
+      await signUp({
+        email: 'victim@example.com',
+        password: 'password123',
+        name: 'Victim'
+      });
+
+      const forgedInput: GoogleAuthInput = {
+        id_token: signTestGoogleIdToken(
+          { sub: 'google_forged', email: 'victim@example.com', name: 'Attacker' },
+          { privateKey: untrustedGooglePrivateKey }
+        )
+      };
+
+      await expect(googleAuth(forgedInput)).rejects.toThrow(/signature/i);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, 'victim@example.com'))
+        .execute();
+      expect(users[0].google_id).toBeNull();
+    });
+
+    it('should reject a token whose email is not verified', async () => {
+      const unverifiedInput: GoogleAuthInput = {
+        id_token: signTestGoogleIdToken({
+          sub: 'google_unverified',
+          email: 'unverified@example.com',
+          name: 'Unverified',
+          email_verified: false
+        })
+      };
+
+      await expect(googleAuth(unverifiedInput)).rejects.toThrow(/not verified/i);
+    });
+
     it('should handle multiple Google users with different IDs', async () => {
       const user1Input: GoogleAuthInput = {
-        google_id: 'google_111',
-        email: 'user1@gmail.com',
-        name: 'Google User 1'
+        id_token: signTestGoogleIdToken({
+          sub: 'google_111',
+          email: 'user1@gmail.com',
+          name: 'Google User 1'
+        })
       };
 
       const user2Input: GoogleAuthInput = {
-        google_id: 'google_222',
-        email: 'user2@gmail.com',
-        name: 'Google User 2'
+        id_token: signTestGoogleIdToken({
+          sub: 'google_222',
+          email: 'user2@gmail.com',
+          name: 'Google User 2'
+        })
       };
 
       const result1 = await googleAuth(user1Input);
       const result2 = await googleAuth(user2Input);
 
       expect(result1.id).not.toEqual(result2.id);
-      expect(result1.google_id).toEqual('google_111');
-      expect(result2.google_id).toEqual('google_222');
+      expect(result1.email).toEqual('user1@gmail.com');
+      expect(result2.email).toEqual('user2@gmail.com');
 
       // Verify both users are in database
       const allUsers = await db.select().from(usersTable).execute();
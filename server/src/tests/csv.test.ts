@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'bun:test';
+import { parseCsv, formatCsvRow } from '../services/csv';
+
+describe('parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('type,weight\nbuy,10\r\nsell,2.5')).toEqual([
+      { row_number: 1, fields: ['type', 'weight'] },
+      { row_number: 2, fields: ['buy', '10'] },
+      { row_number: 3, fields: ['sell', '2.5'] }
+    ]);
+  });
+
+  it('should read quoted fields with delimiters, line breaks and doubled quotes', () => {
+    const records = parseCsv('"Antam, 10 g","Said ""mint""\nfresh",5\n');
+
+    expect(records).toEqual([{ row_number: 1, fields: ['Antam, 10 g', 'Said "mint"\nfresh', '5'] }]);
+  });
+
+  it('should use the given delimiter', () => {
+    expect(parseCsv('buy;1,5;\tsell', ';')[0].fields).toEqual(['buy', '1,5', '\tsell']);
+    expect(parseCsv('buy\t1,5', '\t')[0].fields).toEqual(['buy', '1,5']);
+  });
+
+  it('should skip blank rows and a byte-order mark but keep row numbers', () => {
+    const records = parseCsv('\uFEFFtype\n\n ,  \nbuy\n');
+
+    expect(records).toEqual([
+      { row_number: 1, fields: ['type'] },
+      { row_number: 4, fields: ['buy'] }
+    ]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('buy,"10\nsell,5')).toThrow(/Unterminated quoted field in row 1/);
+  });
+});
+describe('formatCsvRow', () => {
+  it('should quote only the fields that need it', () => {
+    expect(formatCsvRow(['buy', '10', 'Antam, 10 g', 'Said "mint"', ' padded', 'two\nlines'])).toEqual(
+      'buy,10,"Antam, 10 g","Said ""mint"""," padded","two\nlines"\r\n'
+    );
+  });
+
+  it('should use the given delimiter and read back the same fields', () => {
+    const line = formatCsvRow(['1234,5', 'plain;text', ''], ';');
+
+    expect(line).toEqual('1234,5;"plain;text";\r\n');
+    expect(parseCsv(line, ';')[0].fields).toEqual(['1234,5', 'plain;text', '']);
+  });
+});
\ No newline at end of file
@@ -2,7 +2,9 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, goldTransactionsTable, goldGoalsTable } from '../db/schema';
-import { getDashboardData, calculateTotalGoldHoldings, calculateGoalsProgress } from '../handlers/dashboard';
+import { getDashboardData, calculateTotalGoldHoldings, calculateGoalsProgress, getHoldingsBreakdown, getCostBasis } from '../handlers/dashboard';
+import { createStaticFxRateProvider, setFxRateProvider } from '../services/fx_rates';
+import { eq } from 'drizzle-orm';
 
 describe('Dashboard Handlers', () => {
   beforeEach(createDB);
@@ -161,6 +163,135 @@ describe('Dashboard Handlers', () => {
       expect(user1Holdings).toBe(10);
       expect(user2Holdings).toBe(20);
     });
+
+    it('should count pure gold content rather than gross weight', async () => {
+      const user = await createTestUser();
+
+      await db.insert(goldTransactionsTable)
+        .values([
+          {
+            user_id: user.id,
+            type: 'buy',
+            weight_grams: '20.000',
+            fineness: '750', // 18K jewelry
+            price_per_gram: '50.00',
+            total_price: '1000.00',
+            transaction_date: new Date('2024-01-01')
+          },
+          {
+            user_id: user.id,
+            type: 'buy',
+            weight_grams: '10.000',
+            price_per_gram: '65.00',
+            total_price: '650.00',
+            transaction_date: new Date('2024-02-01')
+          }
+        ])
+        .execute();
+
+      expect(await calculateTotalGoldHoldings(user.id)).toBe(25); // 20 * 0.75 + 10
+      expect(await calculateTotalGoldHoldings(user.id, null, 'gross')).toBe(30);
+    });
+  });
+
+  describe('getHoldingsBreakdown', () => {
+    const transaction = (userId: number, values: Partial<typeof goldTransactionsTable.$inferInsert>) => ({
+      user_id: userId,
+      type: 'buy' as const,
+      weight_grams: '10.000',
+      price_per_gram: '65.00',
+      total_price: '650.00',
+      transaction_date: new Date('2024-01-01'),
+      ...values
+    });
+
+    it('should group current holdings by item form, largest first', async () => {
+      const user = await createTestUser();
+
+      await db.insert(goldTransactionsTable)
+        .values([
+          transaction(user.id, { item_form: 'bar', brand: 'Antam', weight_grams: '25.000' }),
+          transaction(user.id, { item_form: 'bar', brand: 'UBS', weight_grams: '5.000' }),
+          transaction(user.id, { item_form: 'jewelry', weight_grams: '20.000', fineness: '750' }),
+          transaction(user.id, { item_form: 'coin', brand: 'Perth Mint' }),
+          transaction(user.id, { item_form: 'coin', brand: 'Perth Mint', type: 'sell', transaction_date: new Date('2024-02-01') }),
+          transaction(user.id, { weight_grams: '2.000' })
+        ])
+        .execute();
+
+      const byForm = await getHoldingsBreakdown(user.id, null, 'item_form');
+
+      expect(byForm).toEqual([
+        { key: 'bar', fine_weight_grams: 30, gross_weight_grams: 30, estimated_value: 1965 },
+        { key: 'jewelry', fine_weight_grams: 15, gross_weight_grams: 20, estimated_value: 982.5 },
+        { key: null, fine_weight_grams: 2, gross_weight_grams: 2, estimated_value: 131 }
+      ]);
+
+      const byBrand = await getHoldingsBreakdown(user.id, null, 'brand');
+
+      expect(byBrand.map(entry => [entry.key, entry.fine_weight_grams])).toEqual([
+        ['Antam', 25],
+        [null, 17],
+        ['UBS', 5]
+      ]);
+    });
+
+    it('should appear on the dashboard', async () => {
+      const user = await createTestUser();
+
+      await db.insert(goldTransactionsTable)
+        .values(transaction(user.id, { item_form: 'granules' }))
+        .execute();
+
+      const dashboardData = await getDashboardData(user.id);
+
+      expect(dashboardData.holdings_by_form.map(entry => entry.key)).toEqual(['granules']);
+    });
+  });
+
+  describe('getCostBasis', () => {
+    afterEach(() => {
+      setFxRateProvider(null);
+    });
+
+    it('should separate metal cost from overheads across currencies', async () => {
+      setFxRateProvider(createStaticFxRateProvider({ '2024-01-01': { IDR: 15000 } }));
+      const user = await createTestUser();
+
+      await db.insert(goldTransactionsTable)
+        .values([
+          {
+            user_id: user.id,
+            type: 'buy',
+            weight_grams: '10.000',
+            price_per_gram: '60.00',
+            cost_components: [{ kind: 'premium', amount: 25 }],
+            total_price: '625.00',
+            transaction_date: new Date('2024-01-10')
+          },
+          {
+            user_id: user.id,
+            type: 'buy',
+            weight_grams: '5.000',
+            price_per_gram: '900000.00',
+            cost_components: [{ kind: 'tax', label: 'VAT', amount: 150000 }],
+            total_price: '4650000.00',
+            currency: 'IDR',
+            transaction_date: new Date('2024-02-10')
+          }
+        ])
+        .execute();
+
+      const result = await getCostBasis(user.id);
+
+      expect(result.currency).toEqual('USD');
+      expect(result.metal_cost).toEqual(900); // 600 + 4,500,000 IDR at 15000
+      expect(result.overheads.premium).toEqual(25);
+      expect(result.overheads.tax).toEqual(10);
+      expect(result.overheads.unitemized).toEqual(0);
+      expect(result.total_cost).toEqual(935);
+      expect(result.remaining_cost_basis).toEqual(935);
+    });
   });
 
   describe('calculateGoalsProgress', () => {
@@ -246,6 +377,10 @@ describe('Dashboard Handlers', () => {
   });
 
   describe('getDashboardData', () => {
+    afterEach(() => {
+      setFxRateProvider(null);
+    });
+
     it('should return comprehensive dashboard data for user with no activity', async () => {
       const user = await createTestUser();
       const dashboardData = await getDashboardData(user.id);
@@ -300,6 +435,76 @@ describe('Dashboard Handlers', () => {
       expect(dashboardData.zakat_status.days_held).toBeGreaterThan(354);
     });
 
+    it('should value holdings and goals in the reporting currency', async () => {
+      setFxRateProvider(createStaticFxRateProvider({ '2024-01-01': { IDR: 16000 } }));
+      const user = await createTestUser();
+      await db.update(usersTable).set({ reporting_currency: 'IDR' }).where(eq(usersTable.id, user.id)).execute();
+
+      await db.insert(goldTransactionsTable)
+        .values({
+          user_id: user.id,
+          type: 'buy',
+          weight_grams: '10.000',
+          price_per_gram: '1000000.00',
+          total_price: '10000000.00',
+          currency: 'IDR',
+          transaction_date: new Date('2024-01-01')
+        })
+        .execute();
+      await db.insert(goldGoalsTable)
+        .values({
+          user_id: user.id,
+          target_weight_grams: '20.000',
+          deadline: new Date('2030-12-31'),
+          title: 'Twenty grams',
+          is_completed: false
+        })
+        .execute();
+
+      const dashboardData = await getDashboardData(user.id);
+
+      expect(dashboardData.currency).toEqual('IDR');
+      expect(dashboardData.current_gold_price).toEqual(1048000); // 65.5 USD * 16000
+      expect(dashboardData.estimated_total_value).toEqual(10480000);
+      expect(dashboardData.goals_progress[0].remaining_value).toEqual(10480000);
+      expect(dashboardData.holdings_by_form[0].estimated_value).toEqual(10480000);
+    });
+
+    it('should value jewelry by its pure gold content while showing gross weight', async () => {
+      const user = await createTestUser();
+
+      // 22K jewelry: 100 g gross is below nisab once the alloy is taken out
+      await db.insert(goldTransactionsTable)
+        .values({
+          user_id: user.id,
+          type: 'buy',
+          weight_grams: '90.000',
+          fineness: '916',
+          price_per_gram: '60.00',
+          total_price: '5400.00',
+          transaction_date: new Date('2023-01-01')
+        })
+        .execute();
+      await db.insert(goldGoalsTable)
+        .values({
+          user_id: user.id,
+          target_weight_grams: '164.880',
+          deadline: new Date('2030-12-31'),
+          title: 'Double it',
+          is_completed: false
+        })
+        .execute();
+
+      const dashboardData = await getDashboardData(user.id);
+
+      expect(dashboardData.total_gold_grams).toBe(82.44);
+      expect(dashboardData.total_gross_weight_grams).toBe(90);
+      expect(dashboardData.estimated_total_value).toBeCloseTo(82.44 * 65.5, 2);
+      expect(dashboardData.goals_progress[0].current_progress_percentage).toBe(50);
+      expect(dashboardData.zakat_status.current_weight_grams).toBe(82.44);
+      expect(dashboardData.zakat_status.is_eligible).toBe(false);
+    });
+
     it('should calculate zakat eligibility correctly for recent purchases', async () => {
       const user = await createTestUser();
 
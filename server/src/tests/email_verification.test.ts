@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createTestContext } from '../helpers/context';
+import { db } from '../db';
+import { usersTable, emailVerificationTokensTable } from '../db/schema';
+import { sendVerificationEmail, verifyEmail, resendVerificationEmail } from '../handlers/email_verification';
+import { createMemoryMailer, setMailer } from '../services/mailer';
+import { hashToken } from '../services/tokens';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+const mailer = createMemoryMailer();
+
+// Pull the raw token out of the verification link in the most recent email
+const lastVerificationToken = (): string => {
+  const match = /token=([^\s]+)/.exec(mailer.outbox[mailer.outbox.length - 1].text);
+  return decodeURIComponent(match![1]);
+};
+
+describe('Email Verification Handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    mailer.clear();
+    setMailer(mailer);
+
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'verify@example.com',
+        password_hash: 'hashed_password',
+        name: 'Verify User'
+      })
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+
+  afterEach(async () => {
+    setMailer(null);
+    await resetDB();
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should email a verification link and store the token hash', async () => {
+      const result = await sendVerificationEmail(userId);
+
+      expect(result).toBe(true);
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].to).toEqual('verify@example.com');
+
+      const tokens = await db.select()
+        .from(emailVerificationTokensTable)
+        .where(eq(emailVerificationTokensTable.user_id, userId))
+        .execute();
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].token_hash).toEqual(hashToken(lastVerificationToken()));
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(sendVerificationEmail(999999)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the address as verified', async () => {
+      await sendVerificationEmail(userId);
+
+      const result = await verifyEmail({ token: lastVerificationToken() });
+
+      expect(result.id).toEqual(userId);
+      expect(result.email_verified).toBe(true);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+      expect(users[0].email_verified_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a token that was already used', async () => {
+      await sendVerificationEmail(userId);
+      const token = lastVerificationToken();
+
+      await verifyEmail({ token });
+
+      await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an expired token', async () => {
+      await sendVerificationEmail(userId);
+      const token = lastVerificationToken();
+
+      await db.update(emailVerificationTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(emailVerificationTokensTable.token_hash, hashToken(token)))
+        .execute();
+
+      await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should send a new email when none was sent recently', async () => {
+      const result = await resendVerificationEmail(userId);
+
+      expect(result).toBe(true);
+      expect(mailer.outbox).toHaveLength(1);
+    });
+
+    it('should throttle a resend within the cooldown', async () => {
+      await sendVerificationEmail(userId);
+
+      await expect(resendVerificationEmail(userId)).rejects.toThrow(/wait a minute/i);
+      expect(mailer.outbox).toHaveLength(1);
+    });
+
+    it('should cap the number of emails per hour', async () => {
+      // Five earlier emails, all outside the one-minute cooldown
+      for (let i = 0; i < 5; i++) {
+        await db.insert(emailVerificationTokensTable)
+          .values({
+            user_id: userId,
+            token_hash: hashToken(`old-token-${i}`),
+            expires_at: new Date(Date.now() + 60 * 60 * 1000),
+            created_at: new Date(Date.now() - (10 + i) * 60 * 1000)
+          })
+          .execute();
+      }
+
+      await expect(resendVerificationEmail(userId)).rejects.toThrow(/too many/i);
+    });
+
+    it('should refuse when the address is already verified', async () => {
+      await db.update(usersTable)
+        .set({ email_verified_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      await expect(resendVerificationEmail(userId)).rejects.toThrow(/already verified/i);
+    });
+  });
+
+  describe('verified email policy', () => {
+    it('should block unverified users from policy routes', async () => {
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      const caller = appRouter.createCaller(createTestContext(users[0]));
+
+      await expect(caller.zakat.updateStatus()).rejects.toThrow(/verify your email/i);
+    });
+
+    it('should allow unverified users on other routes', async () => {
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      const caller = appRouter.createCaller(createTestContext(users[0]));
+
+      const result = await caller.dashboard.getTotalHoldings();
+
+      expect(result).toEqual(0);
+    });
+
+    it('should allow verified users on policy routes', async () => {
+      const verified = await db.update(usersTable)
+        .set({ email_verified_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+      const caller = appRouter.createCaller(createTestContext(verified[0]));
+
+      const result = await caller.zakat.updateStatus();
+
+      expect(result).not.toBeNull();
+      expect(result!.user_id).toEqual(userId);
+    });
+  });
+});
\ No newline at end of file
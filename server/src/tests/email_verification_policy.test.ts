@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { requiresVerifiedEmail, getVerifiedEmailRoutes } from '../services/email_verification_policy';
+
+describe('requiresVerifiedEmail', () => {
+  afterEach(() => {
+    delete process.env['VERIFIED_EMAIL_ROUTES'];
+  });
+
+  it('should match exact procedure paths', () => {
+    expect(requiresVerifiedEmail('zakat.updateStatus', ['zakat.updateStatus'])).toBe(true);
+    expect(requiresVerifiedEmail('zakat.getStatus', ['zakat.updateStatus'])).toBe(false);
+  });
+
+  it('should match whole routers with a trailing wildcard', () => {
+    expect(requiresVerifiedEmail('exports.transactionsCsv', ['exports.*'])).toBe(true);
+    expect(requiresVerifiedEmail('exportsExtra.anything', ['exports.*'])).toBe(false);
+  });
+
+  it('should match everything with a bare wildcard', () => {
+    expect(requiresVerifiedEmail('dashboard.getData', ['*'])).toBe(true);
+  });
+
+  it('should read the policy from the environment', () => {
+    process.env['VERIFIED_EMAIL_ROUTES'] = 'dashboard.getData, goals.*';
+
+    expect(getVerifiedEmailRoutes()).toEqual(['dashboard.getData', 'goals.*']);
+    expect(requiresVerifiedEmail('goals.create')).toBe(true);
+    expect(requiresVerifiedEmail('zakat.updateStatus')).toBe(false);
+  });
+
+  it('should allow disabling the policy with an empty value', () => {
+    process.env['VERIFIED_EMAIL_ROUTES'] = '';
+
+    expect(getVerifiedEmailRoutes()).toEqual([]);
+    expect(requiresVerifiedEmail('zakat.updateStatus')).toBe(false);
+  });
+
+  it('should fall back to the defaults', () => {
+    expect(requiresVerifiedEmail('zakat.updateStatus')).toBe(true);
+    expect(requiresVerifiedEmail('account.export')).toBe(true);
+    expect(requiresVerifiedEmail('transactions.create')).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { inflateRawSync } from 'node:zlib';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, zakatRemindersTable } from '../db/schema';
+import { exportTransactionsCsv, exportGoalsCsv, exportZakatCsv, exportWorkbook } from '../handlers/exports';
+import { createTransaction } from '../handlers/transactions';
+import { createGoal } from '../handlers/goals';
+import { createHousehold } from '../handlers/households';
+import { parseCsv } from '../services/csv';
+import { createStaticFxRateProvider, setFxRateProvider } from '../services/fx_rates';
+import { eq } from 'drizzle-orm';
+
+// Read a streamed export to the end
+const collect = async (stream: AsyncIterable<string>) => {
+  let content = '';
+  for await (const chunk of stream) {
+    content += chunk;
+  }
+  return content;
+};
+
+describe('Export Handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'accountant@example.com', password_hash: 'hashed_password', name: 'Ledger Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    // The rupiah purchase has to be convertible into the reporting currency at its date
+    setFxRateProvider(createStaticFxRateProvider({ '2024-01-01': { IDR: 15500 } }));
+
+    await createTransaction({
+      type: 'buy',
+      weight_grams: 10,
+      price_per_gram: 1050000.5,
+      currency: 'IDR',
+      brand: 'Antam',
+      item_form: 'bar',
+      cost_components: [{ kind: 'making_charge', amount: 25000 }],
+      transaction_date: new Date('2024-01-15'),
+      description: '=HYPERLINK("x")'
+    }, userId);
+    await createTransaction({
+      type: 'sell',
+      weight_grams: 2.5,
+      price_per_gram: 70,
+      currency: 'USD',
+      transaction_date: new Date('2024-03-01')
+    }, userId);
+  });
+
+  afterEach(async () => {
+    setFxRateProvider(null);
+    await resetDB();
+  });
+
+  describe('exportTransactionsCsv', () => {
+    it('should write the ledger in date order in the default locale', async () => {
+      const records = parseCsv(await collect(exportTransactionsCsv(userId, {})));
+
+      expect(records[0].fields[0]).toEqual('Date');
+      expect(records).toHaveLength(3);
+      expect(records[1].fields).toEqual([
+        '01/15/2024', 'buy', 'bar', 'Antam', '10.000', '1000.0', '10.000',
+        '1050000.50', '10500005.00', '25000.00', '10525005.00', 'IDR', '\'=HYPERLINK("x")'
+      ]);
+      expect(records[2].fields.slice(0, 2)).toEqual(['03/01/2024', 'sell']);
+    });
+
+    it('should follow the user\'s locale', async () => {
+      await db.update(usersTable).set({ locale: 'id-ID' }).where(eq(usersTable.id, userId)).execute();
+
+      const content = await collect(exportTransactionsCsv(userId, {}));
+      const records = parseCsv(content, ';');
+
+      expect(content.startsWith('\uFEFFDate;Type;')).toBe(true);
+      expect(records[1].fields[0]).toEqual('15/01/2024');
+      expect(records[1].fields[7]).toEqual('1050000,50');
+      expect(records[2].fields[4]).toEqual('2,500');
+    });
+
+    it('should limit transactions to the date range', async () => {
+      const records = parseCsv(await collect(exportTransactionsCsv(userId, {
+        date_from: new Date('2024-02-01'),
+        date_to: new Date('2024-12-31')
+      })));
+
+      expect(records).toHaveLength(2);
+      expect(records[1].fields[1]).toEqual('sell');
+    });
+
+    it('should refuse a household the user does not belong to', async () => {
+      const otherResult = await db.insert(usersTable)
+        .values({ email: 'outsider@example.com', password_hash: 'hashed_password', name: 'Outsider' })
+        .returning()
+        .execute();
+      const household = await createHousehold({ name: 'Family' }, userId);
+
+      await expect(collect(exportTransactionsCsv(otherResult[0].id, { household_id: household.id })))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('exportGoalsCsv and exportZakatCsv', () => {
+    it('should export goals and zakat records', async () => {
+      await createGoal({ title: 'Hajj fund', target_weight_grams: 100, deadline: new Date('2026-06-01') }, userId);
+      await db.insert(zakatRemindersTable)
+        .values({ user_id: userId, gold_weight_grams: '90', holding_start_date: new Date('2023-01-10'), is_eligible: true })
+        .execute();
+
+      const goals = parseCsv(await collect(exportGoalsCsv(userId)));
+      const zakat = parseCsv(await collect(exportZakatCsv(userId)));
+
+      expect(goals[1].fields).toEqual(['Hajj fund', '100.000', '06/01/2026', 'No', '']);
+      expect(zakat[1].fields.slice(0, 4)).toEqual(['01/10/2023', '90.000', 'Yes', '']);
+    });
+  });
+
+  describe('exportWorkbook', () => {
+    it('should stream an XLSX file with a sheet per record type', async () => {
+      const file = Buffer.from(await collect(exportWorkbook(userId, {})), 'base64');
+
+      expect(file.subarray(0, 2).toString()).toEqual('PK');
+
+      // The first entry is the content types part, which lists every worksheet
+      const nameLength = file.readUInt16LE(26);
+      const size = file.readUInt32LE(18);
+      const contentTypes = inflateRawSync(file.subarray(30 + nameLength, 30 + nameLength + size)).toString('utf8');
+      expect(contentTypes).toContain('/xl/worksheets/sheet3.xml');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fxRatesTable } from '../db/schema';
+import {
+  createStaticFxRateProvider,
+  createFileFxRateProvider,
+  setFxRateProvider,
+  startOfUtcDay,
+  type FxRateProvider
+} from '../services/fx_rates';
+import { getUnitsPerUsd, convertAmount, refreshFxRates } from '../handlers/fx_rates';
+
+const rateTable = {
+  '2024-01-01': { IDR: 15500, MYR: 4.6 },
+  '2024-06-01': { IDR: 16000, MYR: 4.7 }
+};
+
+// Provider that fails the test if it is asked at all
+const unreachableProvider: FxRateProvider = {
+  name: 'unreachable',
+  async getRates() {
+    throw new Error('The provider should not be asked');
+  }
+};
+
+describe('startOfUtcDay', () => {
+  it('should truncate to midnight UTC', () => {
+    expect(startOfUtcDay(new Date('2024-03-05T23:59:59Z')).toISOString()).toEqual('2024-03-05T00:00:00.000Z');
+  });
+});
+
+describe('createStaticFxRateProvider', () => {
+  const provider = createStaticFxRateProvider(rateTable);
+
+  it('should answer with the latest rates on or before the day', async () => {
+    const quote = await provider.getRates(new Date('2024-03-15T12:00:00Z'));
+
+    expect(quote!.rate_date.toISOString()).toEqual('2024-01-01T00:00:00.000Z');
+    expect(quote!.rates).toEqual({ IDR: 15500, MYR: 4.6 });
+  });
+
+  it('should have nothing before its first day', async () => {
+    expect(await provider.getRates(new Date('2023-12-31'))).toBeNull();
+  });
+});
+
+describe('createFileFxRateProvider', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'emastrack-fx-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read rates from a JSON file', async () => {
+    const path = join(dir, 'fx-rates.json');
+    await writeFile(path, JSON.stringify({ '2024-06-01': { idr: 16000 } }));
+
+    const quote = await createFileFxRateProvider(path).getRates(new Date('2024-07-01'));
+
+    expect(quote!.rates).toEqual({ IDR: 16000 });
+  });
+
+  it('should have nothing when the file is missing', async () => {
+    expect(await createFileFxRateProvider(join(dir, 'missing.json')).getRates(new Date())).toBeNull();
+  });
+});
+
+describe('exchange rate handlers', () => {
+  beforeEach(async () => {
+    await createDB();
+    setFxRateProvider(createStaticFxRateProvider(rateTable));
+  });
+
+  afterEach(async () => {
+    setFxRateProvider(null);
+    await resetDB();
+  });
+
+  describe('getUnitsPerUsd', () => {
+    it('should treat USD as the base', async () => {
+      setFxRateProvider(unreachableProvider);
+
+      expect(await getUnitsPerUsd('USD', new Date())).toEqual(1);
+    });
+
+    it('should fetch from the provider and keep the rates', async () => {
+      expect(await getUnitsPerUsd('IDR', new Date('2024-07-01'))).toEqual(16000);
+
+      const stored = await db.select().from(fxRatesTable).execute();
+      expect(stored.map(rate => rate.currency).sort()).toEqual(['IDR', 'MYR']);
+      expect(stored[0].rate_date.toISOString()).toEqual('2024-06-01T00:00:00.000Z');
+      expect(stored[0].source).toEqual('static');
+    });
+
+    it('should use a stored rate for the day without asking the provider', async () => {
+      await db.insert(fxRatesTable)
+        .values({ currency: 'MYR', rate_date: new Date('2024-02-01T00:00:00Z'), units_per_usd: '4.65', source: 'manual' })
+        .execute();
+      setFxRateProvider(unreachableProvider);
+
+      expect(await getUnitsPerUsd('MYR', new Date('2024-02-01T15:00:00Z'))).toEqual(4.65);
+    });
+
+    it('should prefer a stored rate newer than what the provider has', async () => {
+      await db.insert(fxRatesTable)
+        .values({ currency: 'MYR', rate_date: new Date('2024-02-01T00:00:00Z'), units_per_usd: '4.65', source: 'manual' })
+        .execute();
+
+      expect(await getUnitsPerUsd('MYR', new Date('2024-03-01'))).toEqual(4.65);
+    });
+
+    it('should fail clearly when no rate is known', async () => {
+      await expect(getUnitsPerUsd('SGD', new Date('2024-07-01'))).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' });
+      await expect(getUnitsPerUsd('IDR', new Date('2023-01-01'))).rejects.toThrow(/IDR.*2023-01-01/);
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should convert through USD at the day\'s rates', async () => {
+      expect(await convertAmount(100, 'USD', 'IDR', new Date('2024-01-15'))).toEqual(1550000);
+      expect(await convertAmount(1550000, 'IDR', 'USD', new Date('2024-01-15'))).toEqual(100);
+      expect(await convertAmount(16000, 'IDR', 'MYR', new Date('2024-07-01'))).toBeCloseTo(4.7, 8);
+    });
+  });
+
+  describe('refreshFxRates', () => {
+    it('should store the provider\'s rates once', async () => {
+      expect(await refreshFxRates(new Date('2024-06-15'))).toEqual(2);
+      expect(await refreshFxRates(new Date('2024-06-15'))).toEqual(0);
+    });
+  });
+});
\ No newline at end of file
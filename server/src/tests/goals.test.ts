@@ -30,7 +30,6 @@ const createTestUser = async (): Promise<number> => {
 };
 
 const testGoalInput: CreateGoalInput = {
-  user_id: 0, // Will be set in beforeEach
   target_weight_grams: 100.5,
   deadline: new Date('2024-12-31'),
   title: 'Save 100g Gold',
@@ -41,14 +40,13 @@ describe('Goals Handlers', () => {
   beforeEach(async () => {
     await createDB();
     testUserId = await createTestUser();
-    testGoalInput.user_id = testUserId;
   });
   
   afterEach(resetDB);
 
   describe('createGoal', () => {
     it('should create a goal successfully', async () => {
-      const result = await createGoal(testGoalInput);
+      const result = await createGoal(testGoalInput, testUserId);
 
       expect(result.id).toBeDefined();
       expect(result.user_id).toEqual(testUserId);
@@ -68,7 +66,7 @@ describe('Goals Handlers', () => {
         description: undefined
       };
 
-      const result = await createGoal(inputWithoutDescription);
+      const result = await createGoal(inputWithoutDescription, testUserId);
 
       expect(result.description).toBeNull();
       expect(result.title).toEqual('Save 100g Gold');
@@ -76,7 +74,7 @@ describe('Goals Handlers', () => {
     });
 
     it('should save goal to database correctly', async () => {
-      const result = await createGoal(testGoalInput);
+      const result = await createGoal(testGoalInput, testUserId);
 
       const goals = await db.select()
         .from(goldGoalsTable)
@@ -91,12 +89,7 @@ describe('Goals Handlers', () => {
     });
 
     it('should throw error for non-existent user', async () => {
-      const invalidInput = {
-        ...testGoalInput,
-        user_id: 999999
-      };
-
-      await expect(createGoal(invalidInput)).rejects.toThrow(/User with id 999999 not found/i);
+      await expect(createGoal(testGoalInput, 999999)).rejects.toThrow(/User with id 999999 not found/i);
     });
   });
 
@@ -104,7 +97,7 @@ describe('Goals Handlers', () => {
     let goalId: number;
 
     beforeEach(async () => {
-      const goal = await createGoal(testGoalInput);
+      const goal = await createGoal(testGoalInput, testUserId);
       goalId = goal.id;
     });
 
@@ -117,7 +110,7 @@ describe('Goals Handlers', () => {
         is_completed: true
       };
 
-      const result = await updateGoal(updateInput);
+      const result = await updateGoal(updateInput, testUserId);
 
       expect(result.id).toEqual(goalId);
       expect(result.target_weight_grams).toEqual(150.75);
@@ -134,7 +127,7 @@ describe('Goals Handlers', () => {
         title: 'New Title Only'
       };
 
-      const result = await updateGoal(partialUpdate);
+      const result = await updateGoal(partialUpdate, testUserId);
 
       expect(result.title).toEqual('New Title Only');
       expect(result.target_weight_grams).toEqual(100.5); // Should remain unchanged
@@ -148,7 +141,7 @@ describe('Goals Handlers', () => {
         description: null
       };
 
-      const result = await updateGoal(updateWithNullDescription);
+      const result = await updateGoal(updateWithNullDescription, testUserId);
 
       expect(result.description).toBeNull();
       expect(result.title).toEqual(testGoalInput.title); // Should remain unchanged
@@ -160,7 +153,37 @@ describe('Goals Handlers', () => {
         title: 'Non-existent goal'
       };
 
-      await expect(updateGoal(updateInput)).rejects.toThrow(/Goal with id 999999 not found/i);
+      await expect(updateGoal(updateInput, testUserId)).rejects.toThrow(/Goal with id 999999 not found/i);
+      await expect(updateGoal(updateInput, testUserId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should not update a goal owned by another user', async () => {
+      const otherUser = await db.insert(usersTable)
+        .values({
+          email: 'otheruser@example.com',
+          password_hash: 'hashedpassword',
+          name: 'Other User'
+        })
+        .returning()
+        .execute();
+
+      const updateInput: UpdateGoalInput = {
+        id: goalId,
+        title: 'Hijacked goal',
+        is_completed: true
+      };
+
+      await expect(updateGoal(updateInput, otherUser[0].id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      // Verify goal is unchanged in database
+      const goals = await db.select()
+        .from(goldGoalsTable)
+        .where(eq(goldGoalsTable.id, goalId))
+        .execute();
+
+      expect(goals[0].title).toEqual('Save 100g Gold');
+      expect(goals[0].is_completed).toBe(false);
+      expect(goals[0].user_id).toEqual(testUserId);
     });
   });
 
@@ -169,7 +192,7 @@ describe('Goals Handlers', () => {
     let otherUserId: number;
 
     beforeEach(async () => {
-      const goal = await createGoal(testGoalInput);
+      const goal = await createGoal(testGoalInput, testUserId);
       goalId = goal.id;
 
       // Create another user for security testing
@@ -184,30 +207,29 @@ describe('Goals Handlers', () => {
       otherUserId = otherUser[0].id;
     });
 
-    it('should delete goal successfully', async () => {
+    it('should move the goal to the trash', async () => {
       const result = await deleteGoal(goalId, testUserId);
 
       expect(result).toBe(true);
 
-      // Verify goal is deleted from database
+      // Verify goal is trashed rather than removed
       const goals = await db.select()
         .from(goldGoalsTable)
         .where(eq(goldGoalsTable.id, goalId))
         .execute();
 
-      expect(goals).toHaveLength(0);
+      expect(goals).toHaveLength(1);
+      expect(goals[0].deleted_at).toBeInstanceOf(Date);
+      expect(await getUserGoals(testUserId)).toHaveLength(0);
+      await expect(getGoalById(goalId, testUserId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
     });
 
-    it('should return false when goal does not exist', async () => {
-      const result = await deleteGoal(999999, testUserId);
-
-      expect(result).toBe(false);
+    it('should throw NOT_FOUND when goal does not exist', async () => {
+      await expect(deleteGoal(999999, testUserId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
     });
 
-    it('should return false when user does not own the goal', async () => {
-      const result = await deleteGoal(goalId, otherUserId);
-
-      expect(result).toBe(false);
+    it('should throw FORBIDDEN when user does not own the goal', async () => {
+      await expect(deleteGoal(goalId, otherUserId)).rejects.toMatchObject({ code: 'FORBIDDEN' });
 
       // Verify goal still exists in database
       const goals = await db.select()
@@ -226,19 +248,19 @@ describe('Goals Handlers', () => {
         ...testGoalInput,
         title: 'Goal 1',
         deadline: new Date('2024-06-01')
-      });
+      }, testUserId);
 
       await createGoal({
         ...testGoalInput,
         title: 'Goal 2',
         deadline: new Date('2024-03-01')
-      });
+      }, testUserId);
 
       await createGoal({
         ...testGoalInput,
         title: 'Goal 3',
         deadline: new Date('2024-09-01')
-      });
+      }, testUserId);
 
       // Create a goal for another user (should not be returned)
       const otherUser = await db.insert(usersTable)
@@ -252,9 +274,8 @@ describe('Goals Handlers', () => {
 
       await createGoal({
         ...testGoalInput,
-        user_id: otherUser[0].id,
         title: 'Other User Goal'
-      });
+      }, otherUser[0].id);
     });
 
     it('should return user goals ordered by deadline', async () => {
@@ -293,7 +314,7 @@ describe('Goals Handlers', () => {
     let otherUserId: number;
 
     beforeEach(async () => {
-      const goal = await createGoal(testGoalInput);
+      const goal = await createGoal(testGoalInput, testUserId);
       goalId = goal.id;
 
       // Create another user for security testing
@@ -319,16 +340,12 @@ describe('Goals Handlers', () => {
       expect(result!.target_weight_grams).toEqual(100.5);
     });
 
-    it('should return null when goal does not exist', async () => {
-      const result = await getGoalById(999999, testUserId);
-
-      expect(result).toBeNull();
+    it('should throw NOT_FOUND when goal does not exist', async () => {
+      await expect(getGoalById(999999, testUserId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
     });
 
-    it('should return null when user does not own the goal', async () => {
-      const result = await getGoalById(goalId, otherUserId);
-
-      expect(result).toBeNull();
+    it('should throw FORBIDDEN when user does not own the goal', async () => {
+      await expect(getGoalById(goalId, otherUserId)).rejects.toMatchObject({ code: 'FORBIDDEN' });
     });
   });
 
@@ -337,7 +354,7 @@ describe('Goals Handlers', () => {
     let otherUserId: number;
 
     beforeEach(async () => {
-      const goal = await createGoal(testGoalInput);
+      const goal = await createGoal(testGoalInput, testUserId);
       goalId = goal.id;
 
       // Create another user for security testing
@@ -370,16 +387,12 @@ describe('Goals Handlers', () => {
       expect(goals[0].is_completed).toBe(true);
     });
 
-    it('should return null when goal does not exist', async () => {
-      const result = await markGoalCompleted(999999, testUserId);
-
-      expect(result).toBeNull();
+    it('should throw NOT_FOUND when goal does not exist', async () => {
+      await expect(markGoalCompleted(999999, testUserId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
     });
 
-    it('should return null when user does not own the goal', async () => {
-      const result = await markGoalCompleted(goalId, otherUserId);
-
-      expect(result).toBeNull();
+    it('should throw FORBIDDEN when user does not own the goal', async () => {
+      await expect(markGoalCompleted(goalId, otherUserId)).rejects.toMatchObject({ code: 'FORBIDDEN' });
 
       // Verify goal remains incomplete
       const goals = await db.select()
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import {
+  verifyGoogleIdToken,
+  configureGoogleIdTokenVerifier,
+  type JwksProvider
+} from '../services/google_id_token';
+import {
+  useTestGoogleKeys,
+  signTestGoogleIdToken,
+  untrustedGooglePrivateKey,
+  testGoogleSigningKeys,
+  TEST_GOOGLE_CLIENT_ID
+} from '../helpers/google';
+
+describe('verifyGoogleIdToken', () => {
+  beforeEach(useTestGoogleKeys);
+  afterEach(() => configureGoogleIdTokenVerifier(null));
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  it('should return claims for a valid token', async () => {
+    const token = signTestGoogleIdToken({
+      sub: 'google_12345',
+      email: 'google@example.com',
+      name: 'Google User'
+    });
+
+    const claims = await verifyGoogleIdToken(token);
+
+    expect(claims.sub).toEqual('google_12345');
+    expect(claims.email).toEqual('google@example.com');
+    expect(claims.email_verified).toBe(true);
+    expect(claims.name).toEqual('Google User');
+    expect(claims.aud).toEqual(TEST_GOOGLE_CLIENT_ID);
+  });
+
+  it('should reject a token signed with an unknown key', async () => {
+    const token = signTestGoogleIdToken(
+      { sub: 'google_12345', email: 'google@example.com' },
+      { privateKey: untrustedGooglePrivateKey }
+    );
+
+    await expect(verifyGoogleIdToken(token)).rejects.toThrow(/signature/i);
+  });
+
+  it('should reject a token with an unknown key id', async () => {
+    const token = signTestGoogleIdToken(
+      { sub: 'google_12345', email: 'google@example.com' },
+      { kid: 'rotated-away' }
+    );
+
+    await expect(verifyGoogleIdToken(token)).rejects.toThrow(/unknown key/i);
+  });
+
+  it('should reject a token with a tampered payload', async () => {
+    const token = signTestGoogleIdToken({ sub: 'google_12345', email: 'google@example.com' });
+    const [header, , signature] = token.split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({
+      iss: 'https://accounts.google.com',
+      aud: TEST_GOOGLE_CLIENT_ID,
+      sub: 'google_12345',
+      email: 'victim@example.com',
+      email_verified: true,
+      iat: nowSeconds(),
+      exp: nowSeconds() + 3600
+    })).toString('base64url');
+
+    await expect(verifyGoogleIdToken(`${header}.${forgedPayload}.${signature}`)).rejects.toThrow(/signature/i);
+  });
+
+  it('should reject a token for another audience', async () => {
+    const token = signTestGoogleIdToken({
+      sub: 'google_12345',
+      email: 'google@example.com',
+      aud: 'someone-else.apps.googleusercontent.com'
+    });
+
+    await expect(verifyGoogleIdToken(token)).rejects.toThrow(/audience/i);
+  });
+
+  it('should reject a token from another issuer', async () => {
+    const token = signTestGoogleIdToken({
+      sub: 'google_12345',
+      email: 'google@example.com',
+      iss: 'https://evil.example.com'
+    });
+
+    await expect(verifyGoogleIdToken(token)).rejects.toThrow(/issuer/i);
+  });
+
+  it('should reject an expired token', async () => {
+    const token = signTestGoogleIdToken({
+      sub: 'google_12345',
+      email: 'google@example.com',
+      iat: nowSeconds() - 7200,
+      exp: nowSeconds() - 3600
+    });
+
+    await expect(verifyGoogleIdToken(token)).rejects.toThrow(/expired/i);
+  });
+
+  it('should reject a malformed token', async () => {
+    await expect(verifyGoogleIdToken('not-a-jwt')).rejects.toThrow(/malformed/i);
+  });
+
+  it('should refresh the key set once when the key id is unknown', async () => {
+    const token = signTestGoogleIdToken({ sub: 'google_12345', email: 'google@example.com' });
+
+    // Serve a stale (empty) key set until a forced refresh, as after a Google key rotation
+    const refreshes: boolean[] = [];
+    const rotatingProvider: JwksProvider = {
+      async getKeys(options = {}) {
+        refreshes.push(!!options.forceRefresh);
+        return options.forceRefresh ? testGoogleSigningKeys : [];
+      }
+    };
+    configureGoogleIdTokenVerifier({
+      jwksProvider: rotatingProvider,
+      audience: TEST_GOOGLE_CLIENT_ID,
+      issuers: ['https://accounts.google.com']
+    });
+
+    const claims = await verifyGoogleIdToken(token);
+
+    expect(claims.sub).toEqual('google_12345');
+    expect(refreshes).toEqual([false, true]);
+  });
+
+  it('should force at most one key set refresh a minute', async () => {
+    const token = signTestGoogleIdToken(
+      { sub: 'google_12345', email: 'google@example.com' },
+      { kid: 'forged-key-id' }
+    );
+
+    const refreshes: boolean[] = [];
+    const countingProvider: JwksProvider = {
+      async getKeys(options = {}) {
+        refreshes.push(!!options.forceRefresh);
+        return testGoogleSigningKeys;
+      }
+    };
+    configureGoogleIdTokenVerifier({
+      jwksProvider: countingProvider,
+      audience: TEST_GOOGLE_CLIENT_ID,
+      issuers: ['https://accounts.google.com']
+    });
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await expect(verifyGoogleIdToken(token)).rejects.toThrow(/unknown key/);
+    }
+
+    expect(refreshes).toEqual([false, true, false, false]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test';
+import { findLedgerShortfall, type LedgerEntry } from '../services/holdings_ledger';
+
+const entry = (id: number, type: 'buy' | 'sell', fine_weight_grams: number, date: string): LedgerEntry => ({
+  id,
+  type,
+  fine_weight_grams,
+  transaction_date: new Date(date)
+});
+
+describe('findLedgerShortfall', () => {
+  it('should accept a ledger that never goes negative', () => {
+    expect(findLedgerShortfall([
+      entry(1, 'buy', 10, '2024-01-01'),
+      entry(2, 'sell', 4, '2024-02-01'),
+      entry(3, 'sell', 6, '2024-03-01')
+    ])).toBeNull();
+  });
+
+  it('should replay by date rather than by id', () => {
+    const shortfall = findLedgerShortfall([
+      entry(1, 'sell', 5, '2024-01-01'),
+      entry(2, 'buy', 10, '2024-02-01')
+    ]);
+
+    expect(shortfall).toEqual({ entry: entry(1, 'sell', 5, '2024-01-01'), held_grams: 0 });
+  });
+
+  it('should report the first sale that is not covered', () => {
+    const shortfall = findLedgerShortfall([
+      entry(1, 'buy', 10, '2024-01-01'),
+      entry(2, 'sell', 8, '2024-02-01'),
+      entry(3, 'sell', 3, '2024-03-01'),
+      entry(4, 'sell', 50, '2024-04-01')
+    ]);
+
+    expect(shortfall!.entry.id).toEqual(3);
+    expect(shortfall!.held_grams).toEqual(2);
+  });
+
+  it('should count buys before sells on the same instant', () => {
+    expect(findLedgerShortfall([
+      entry(1, 'sell', 5, '2024-01-01T10:00:00Z'),
+      entry(2, 'buy', 5, '2024-01-01T10:00:00Z')
+    ])).toBeNull();
+  });
+
+  it('should not be thrown off by float rounding', () => {
+    expect(findLedgerShortfall([
+      entry(1, 'buy', 0.1, '2024-01-01'),
+      entry(2, 'buy', 0.2, '2024-01-02'),
+      entry(3, 'sell', 0.3, '2024-01-03')
+    ])).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,357 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createTestContext } from '../helpers/context';
+import { db } from '../db';
+import {
+  usersTable,
+  householdsTable,
+  householdMembersTable,
+  goldTransactionsTable,
+  type User
+} from '../db/schema';
+import {
+  createHousehold,
+  listHouseholds,
+  getHousehold,
+  renameHousehold,
+  deleteHousehold,
+  inviteHouseholdMember,
+  listHouseholdInvitations,
+  revokeHouseholdInvitation,
+  acceptHouseholdInvitation,
+  updateHouseholdMember,
+  removeHouseholdMember
+} from '../handlers/households';
+import {
+  createTransaction,
+  updateTransaction,
+  getUserTransactions,
+  getTransactionById
+} from '../handlers/transactions';
+import { createGoal, getUserGoals } from '../handlers/goals';
+import { calculateTotalGoldHoldings, getDashboardData } from '../handlers/dashboard';
+import { purgeAccount } from '../handlers/account';
+import { createMemoryMailer, setMailer } from '../services/mailer';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+const mailer = createMemoryMailer();
+
+// Pull the raw token out of the invitation link in the most recent email
+const lastInvitationToken = (): string => {
+  const match = /token=([^\s]+)/.exec(mailer.outbox[mailer.outbox.length - 1].text);
+  return decodeURIComponent(match![1]);
+};
+
+const buy = (weight: number, householdId?: number) => ({
+  type: 'buy' as const,
+  weight_grams: weight,
+  price_per_gram: 60,
+  transaction_date: new Date('2024-01-15'),
+  household_id: householdId
+});
+
+describe('Household Handlers', () => {
+  let owner: User;
+  let member: User;
+  let outsider: User;
+
+  // Invite the member with the given role and accept on their behalf
+  const addMember = async (householdId: number, role: 'viewer' | 'editor') => {
+    await inviteHouseholdMember({ household_id: householdId, email: member.email, role }, owner.id);
+    await acceptHouseholdInvitation({ token: lastInvitationToken() }, member.id);
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    mailer.clear();
+    setMailer(mailer);
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', name: 'Owner' },
+        { email: 'member@example.com', password_hash: 'hashed_password', name: 'Member' },
+        { email: 'outsider@example.com', password_hash: 'hashed_password', name: 'Outsider' }
+      ])
+      .returning()
+      .execute();
+    [owner, member, outsider] = users;
+  });
+
+  afterEach(resetDB);
+
+  describe('createHousehold', () => {
+    it('should make the creator its owner', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+
+      expect(household.name).toEqual('Family');
+      expect(household.role).toEqual('owner');
+
+      const households = await listHouseholds(owner.id);
+      expect(households).toHaveLength(1);
+      expect(households[0].id).toEqual(household.id);
+      expect(await listHouseholds(member.id)).toHaveLength(0);
+    });
+  });
+
+  describe('invitations', () => {
+    it('should email the invitation and add the member on acceptance', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+
+      const invitation = await inviteHouseholdMember({ household_id: household.id, email: 'member@example.com', role: 'editor' }, owner.id);
+
+      expect(invitation.role).toEqual('editor');
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].to).toEqual('member@example.com');
+      expect(await listHouseholdInvitations(household.id, owner.id)).toHaveLength(1);
+
+      const joined = await acceptHouseholdInvitation({ token: lastInvitationToken() }, member.id);
+
+      expect(joined.id).toEqual(household.id);
+      expect(joined.role).toEqual('editor');
+      expect(await listHouseholdInvitations(household.id, owner.id)).toHaveLength(0);
+
+      const detail = await getHousehold(household.id, member.id);
+      expect(detail.members.map(m => [m.email, m.role])).toEqual([
+        ['owner@example.com', 'owner'],
+        ['member@example.com', 'editor']
+      ]);
+    });
+
+    it('should only be accepted by the invited address, once', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await inviteHouseholdMember({ household_id: household.id, email: 'member@example.com', role: 'viewer' }, owner.id);
+      const token = lastInvitationToken();
+
+      await expect(acceptHouseholdInvitation({ token }, outsider.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      await acceptHouseholdInvitation({ token }, member.id);
+      await expect(acceptHouseholdInvitation({ token }, member.id)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should let owners revoke pending invitations', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      const invitation = await inviteHouseholdMember({ household_id: household.id, email: 'member@example.com', role: 'viewer' }, owner.id);
+      const token = lastInvitationToken();
+
+      await revokeHouseholdInvitation({ invitation_id: invitation.id }, owner.id);
+
+      await expect(acceptHouseholdInvitation({ token }, member.id)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should only let owners invite', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await addMember(household.id, 'editor');
+
+      await expect(inviteHouseholdMember({ household_id: household.id, email: 'outsider@example.com', role: 'viewer' }, member.id))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should not invite existing members', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+
+      await expect(inviteHouseholdMember({ household_id: household.id, email: 'OWNER@example.com', role: 'viewer' }, owner.id))
+        .rejects.toThrow(/already a member/i);
+    });
+  });
+
+  describe('shared portfolio', () => {
+    it('should keep household and personal portfolios apart', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await createTransaction(buy(10), owner.id);
+      await createTransaction(buy(100, household.id), owner.id);
+
+      const personal = await getUserTransactions(owner.id);
+      const shared = await getUserTransactions(owner.id, household.id);
+
+      expect(personal).toHaveLength(1);
+      expect(personal[0].household_id).toBeNull();
+      expect(shared).toHaveLength(1);
+      expect(shared[0].household_id).toEqual(household.id);
+      expect(await calculateTotalGoldHoldings(owner.id)).toEqual(10);
+      expect(await calculateTotalGoldHoldings(owner.id, household.id)).toEqual(100);
+    });
+
+    it('should let viewers read but not write', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      const transaction = await createTransaction(buy(100, household.id), owner.id);
+      await addMember(household.id, 'viewer');
+
+      expect(await getUserTransactions(member.id, household.id)).toHaveLength(1);
+      expect((await getTransactionById(transaction.id, member.id)).id).toEqual(transaction.id);
+      expect((await getDashboardData(member.id, household.id)).total_gold_grams).toEqual(100);
+
+      await expect(createTransaction(buy(5, household.id), member.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(updateTransaction({ id: transaction.id, weight_grams: 1 }, member.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should let editors change each other\'s entries', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      const transaction = await createTransaction(buy(100, household.id), owner.id);
+      await addMember(household.id, 'editor');
+
+      const updated = await updateTransaction({ id: transaction.id, weight_grams: 90 }, member.id);
+      const goal = await createGoal({ target_weight_grams: 200, deadline: new Date('2030-01-01'), title: 'Wedding', household_id: household.id }, member.id);
+
+      expect(updated.weight_grams).toEqual(90);
+      expect((await getUserGoals(owner.id, household.id)).map(g => g.id)).toEqual([goal.id]);
+      expect(await getUserGoals(member.id)).toHaveLength(0);
+    });
+
+    it('should keep outsiders out', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      const transaction = await createTransaction(buy(100, household.id), owner.id);
+
+      await expect(getUserTransactions(outsider.id, household.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(getTransactionById(transaction.id, outsider.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(createTransaction(buy(5, household.id), outsider.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(getUserTransactions(outsider.id, 99999)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should scope the dashboard through the router', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await createTransaction(buy(100, household.id), owner.id);
+      const caller = appRouter.createCaller(createTestContext(owner));
+
+      const shared = await caller.dashboard.getData({ household_id: household.id });
+      const personal = await caller.dashboard.getData();
+
+      expect(shared.total_gold_grams).toEqual(100);
+      expect(personal.total_gold_grams).toEqual(0);
+    });
+  });
+
+  describe('members', () => {
+    it('should never leave a household without an owner', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await addMember(household.id, 'editor');
+
+      await expect(updateHouseholdMember({ household_id: household.id, user_id: owner.id, role: 'editor' }, owner.id))
+        .rejects.toThrow(/at least one owner/i);
+      await expect(removeHouseholdMember({ household_id: household.id, user_id: owner.id }, owner.id))
+        .rejects.toThrow(/at least one owner/i);
+
+      // Handing over ownership first makes it possible
+      await updateHouseholdMember({ household_id: household.id, user_id: member.id, role: 'owner' }, owner.id);
+      expect(await removeHouseholdMember({ household_id: household.id, user_id: owner.id }, owner.id)).toBe(true);
+    });
+
+    it('should keep an owner when two owners demote or remove each other at once', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await addMember(household.id, 'editor');
+      await updateHouseholdMember({ household_id: household.id, user_id: member.id, role: 'owner' }, owner.id);
+
+      const demotions = await Promise.allSettled([
+        updateHouseholdMember({ household_id: household.id, user_id: member.id, role: 'editor' }, owner.id),
+        updateHouseholdMember({ household_id: household.id, user_id: owner.id, role: 'editor' }, member.id)
+      ]);
+      expect(demotions.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+      const owners = await db.select()
+        .from(householdMembersTable)
+        .where(eq(householdMembersTable.role, 'owner'))
+        .execute();
+      expect(owners).toHaveLength(1);
+
+      // Make both owners again and have them remove each other instead
+      const remaining = owners[0].user_id;
+      const other = remaining === owner.id ? member.id : owner.id;
+      await updateHouseholdMember({ household_id: household.id, user_id: other, role: 'owner' }, remaining);
+
+      const removals = await Promise.allSettled([
+        removeHouseholdMember({ household_id: household.id, user_id: member.id }, owner.id),
+        removeHouseholdMember({ household_id: household.id, user_id: owner.id }, member.id)
+      ]);
+      expect(removals.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    it('should let members leave and keep what they recorded', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await addMember(household.id, 'editor');
+      await createTransaction(buy(20, household.id), member.id);
+
+      await removeHouseholdMember({ household_id: household.id, user_id: member.id }, member.id);
+
+      expect(await listHouseholds(member.id)).toHaveLength(0);
+      expect(await getUserTransactions(owner.id, household.id)).toHaveLength(1);
+    });
+
+    it('should only let owners remove others', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await addMember(household.id, 'editor');
+
+      await expect(removeHouseholdMember({ household_id: household.id, user_id: owner.id }, member.id))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('renameHousehold and deleteHousehold', () => {
+    it('should rename for owners only', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await addMember(household.id, 'editor');
+
+      const renamed = await renameHousehold({ household_id: household.id, name: 'The Smiths' }, owner.id);
+
+      expect(renamed.name).toEqual('The Smiths');
+      await expect(renameHousehold({ household_id: household.id, name: 'Mine' }, member.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should delete the household with its records', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await createTransaction(buy(100, household.id), owner.id);
+      await createTransaction(buy(10), owner.id);
+
+      await deleteHousehold(household.id, owner.id);
+
+      expect(await listHouseholds(owner.id)).toHaveLength(0);
+      expect(await db.select().from(goldTransactionsTable).execute()).toHaveLength(1);
+    });
+  });
+
+  describe('account purge', () => {
+    it('should hand a shared household to the remaining member', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await addMember(household.id, 'viewer');
+      await createTransaction(buy(100, household.id), owner.id);
+
+      await purgeAccount(owner.id);
+
+      const members = await db.select().from(householdMembersTable).execute();
+      expect(members).toHaveLength(1);
+      expect(members[0].user_id).toEqual(member.id);
+      expect(members[0].role).toEqual('owner');
+
+      const shared = await getUserTransactions(member.id, household.id);
+      expect(shared).toHaveLength(1);
+      expect(shared[0].user_id).toEqual(member.id);
+    });
+
+    it('should leave what the user recorded in a household they already left with its owner', async () => {
+      const household = await createHousehold({ name: 'Family' }, owner.id);
+      await addMember(household.id, 'editor');
+      await createTransaction(buy(100, household.id), member.id);
+      await createGoal({ title: 'Wedding set', target_weight_grams: 50, deadline: new Date('2027-01-01'), household_id: household.id }, member.id);
+      await removeHouseholdMember({ household_id: household.id, user_id: member.id }, member.id);
+
+      await purgeAccount(member.id);
+
+      const shared = await getUserTransactions(owner.id, household.id);
+      expect(shared).toHaveLength(1);
+      expect(shared[0].user_id).toEqual(owner.id);
+
+      const goals = await getUserGoals(owner.id, household.id);
+      expect(goals).toHaveLength(1);
+      expect(goals[0].user_id).toEqual(owner.id);
+    });
+
+    it('should delete a household nobody else belongs to', async () => {
+      const household = await createHousehold({ name: 'Solo' }, owner.id);
+      await createTransaction(buy(100, household.id), owner.id);
+
+      await purgeAccount(owner.id);
+
+      expect(await db.select().from(householdsTable).where(eq(householdsTable.id, household.id)).execute()).toHaveLength(0);
+      expect(await db.select().from(goldTransactionsTable).execute()).toHaveLength(0);
+    });
+  });
+});
\ No newline at end of file
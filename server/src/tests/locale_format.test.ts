@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'bun:test';
+import { createLocaleFormat, currencyDigits } from '../services/locale_format';
+
+const day = new Date('2024-01-15T00:00:00Z');
+
+describe('createLocaleFormat', () => {
+  it('should follow US conventions', () => {
+    const format = createLocaleFormat('en-US');
+
+    expect(format.csvDelimiter).toEqual(',');
+    expect(format.formatDate(day)).toEqual('01/15/2024');
+    expect(format.formatNumber(1234.5, 3)).toEqual('1234.500');
+    expect(format.spreadsheetDateFormat).toEqual('mm"/"dd"/"yyyy');
+    expect(format.spreadsheetAmountFormat('USD')).toEqual('"$"#,##0.00');
+  });
+
+  it('should use comma decimals and semicolon-separated fields for Indonesian', () => {
+    const format = createLocaleFormat('id-ID');
+
+    expect(format.csvDelimiter).toEqual(';');
+    expect(format.formatDate(day)).toEqual('15/01/2024');
+    expect(format.formatAmount(1050000.5, 'IDR')).toEqual('1050000,50');
+    expect(format.spreadsheetDateFormat).toEqual('dd"/"mm"/"yyyy');
+    expect(format.spreadsheetAmountFormat('IDR')).toEqual('"Rp\u00A0"#,##0.00');
+  });
+
+  it('should put the currency after the number where the locale does', () => {
+    const format = createLocaleFormat('de-DE');
+
+    expect(format.formatDate(day)).toEqual('15.01.2024');
+    expect(format.spreadsheetAmountFormat('EUR')).toEqual('#,##0.00"\u00A0€"');
+  });
+
+  it('should write Latin digits without direction marks', () => {
+    const format = createLocaleFormat('ar-SA');
+
+    expect(format.formatDate(day)).toEqual('15/01/2024');
+    expect(format.formatNumber(2.5, 1)).toEqual('2.5');
+  });
+});
+
+describe('currencyDigits', () => {
+  it('should know currencies without minor units', () => {
+    expect(currencyDigits('USD')).toEqual(2);
+    expect(currencyDigits('JPY')).toEqual(0);
+    expect(createLocaleFormat('en-US').formatAmount(1234.5, 'JPY')).toEqual('1235');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFileMailer, createMemoryMailer } from '../services/mailer';
+
+const testMessage = {
+  to: 'someone@example.com',
+  subject: 'Test subject',
+  text: 'Test body'
+};
+
+describe('createMemoryMailer', () => {
+  it('should collect sent messages in the outbox', async () => {
+    const mailer = createMemoryMailer('Test <test@example.com>');
+
+    await mailer.send(testMessage);
+
+    expect(mailer.outbox).toHaveLength(1);
+    expect(mailer.outbox[0].to).toEqual('someone@example.com');
+    expect(mailer.outbox[0].from).toEqual('Test <test@example.com>');
+    expect(mailer.outbox[0].sent_at).toBeInstanceOf(Date);
+  });
+
+  it('should empty the outbox on clear', async () => {
+    const mailer = createMemoryMailer();
+
+    await mailer.send(testMessage);
+    mailer.clear();
+
+    expect(mailer.outbox).toHaveLength(0);
+  });
+});
+
+describe('createFileMailer', () => {
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    outboxDir = await mkdtemp(join(tmpdir(), 'emastrack-outbox-'));
+  });
+
+  afterEach(async () => {
+    await rm(outboxDir, { recursive: true, force: true });
+  });
+
+  it('should write each message to the outbox directory', async () => {
+    const mailer = createFileMailer(join(outboxDir, 'mail'));
+
+    await mailer.send(testMessage);
+    await mailer.send({ ...testMessage, subject: 'Second message' });
+
+    const files = await readdir(join(outboxDir, 'mail'));
+    expect(files).toHaveLength(2);
+
+    const saved = await Promise.all(files.map(async file => JSON.parse(await readFile(join(outboxDir, 'mail', file), 'utf8'))));
+    expect(saved.map(message => message.subject).sort()).toEqual(['Second message', 'Test subject']);
+    expect(saved[0].to).toEqual('someone@example.com');
+  });
+});
\ No newline at end of file
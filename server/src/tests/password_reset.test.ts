@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable } from '../db/schema';
+import { requestPasswordReset, resetPassword } from '../handlers/password_reset';
+import { createSession, getSessionUser } from '../handlers/sessions';
+import { createApiToken, getApiTokenGrant } from '../handlers/api_tokens';
+import { createApiTokenInputSchema } from '../schema';
+import { createMemoryMailer, setMailer } from '../services/mailer';
+import { hashToken } from '../services/tokens';
+import { eq } from 'drizzle-orm';
+
+const mailer = createMemoryMailer();
+
+// Pull the raw token out of the reset link in the most recent email
+const lastResetToken = (): string => {
+  const match = /token=([^\s]+)/.exec(mailer.outbox[mailer.outbox.length - 1].text);
+  return decodeURIComponent(match![1]);
+};
+
+describe('Password Reset Handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    mailer.clear();
+    setMailer(mailer);
+
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'reset@example.com',
+        password_hash: await Bun.password.hash('oldpassword123'),
+        name: 'Reset User'
+      })
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+
+  afterEach(async () => {
+    setMailer(null);
+    await resetDB();
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset link to a known address', async () => {
+      const result = await requestPasswordReset({ email: 'reset@example.com' });
+
+      expect(result).toBe(true);
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].to).toEqual('reset@example.com');
+      expect(mailer.outbox[0].text).toContain('/reset-password?token=');
+    });
+
+    it('should store only a hash of the token', async () => {
+      await requestPasswordReset({ email: 'reset@example.com' });
+      const token = lastResetToken();
+
+      const tokens = await db.select()
+        .from(passwordResetTokensTable)
+        .where(eq(passwordResetTokensTable.user_id, userId))
+        .execute();
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].token_hash).toEqual(hashToken(token));
+      expect(tokens[0].used_at).toBeNull();
+      expect(tokens[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should succeed silently for an unknown address', async () => {
+      const result = await requestPasswordReset({ email: 'nobody@example.com' });
+
+      expect(result).toBe(true);
+      expect(mailer.outbox).toHaveLength(0);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set a new password with a valid token', async () => {
+      await requestPasswordReset({ email: 'reset@example.com' });
+
+      const result = await resetPassword({ token: lastResetToken(), password: 'newpassword456' });
+
+      expect(result).toBe(true);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+      expect(await Bun.password.verify('newpassword456', users[0].password_hash)).toBe(true);
+      expect(await Bun.password.verify('oldpassword123', users[0].password_hash)).toBe(false);
+    });
+
+    it('should sign the user out of every session and revoke their API tokens', async () => {
+      const session = await createSession(userId);
+      const apiToken = await createApiToken(createApiTokenInputSchema.parse({ name: 'Script' }), userId);
+      await requestPasswordReset({ email: 'reset@example.com' });
+
+      await resetPassword({ token: lastResetToken(), password: 'newpassword456' });
+
+      expect(await getSessionUser(session.token)).toBeNull();
+      expect(await getApiTokenGrant(apiToken.token)).toBeNull();
+    });
+
+    it('should reject a token that was already used', async () => {
+      await requestPasswordReset({ email: 'reset@example.com' });
+      const token = lastResetToken();
+
+      await resetPassword({ token, password: 'newpassword456' });
+
+      await expect(resetPassword({ token, password: 'anotherpassword789' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an expired token', async () => {
+      await requestPasswordReset({ email: 'reset@example.com' });
+      const token = lastResetToken();
+
+      await db.update(passwordResetTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(passwordResetTokensTable.token_hash, hashToken(token)))
+        .execute();
+
+      await expect(resetPassword({ token, password: 'newpassword456' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an unknown token', async () => {
+      await expect(resetPassword({ token: 'made-up-token', password: 'newpassword456' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should invalidate other outstanding tokens after a reset', async () => {
+      await requestPasswordReset({ email: 'reset@example.com' });
+      const firstToken = lastResetToken();
+      await requestPasswordReset({ email: 'reset@example.com' });
+      const secondToken = lastResetToken();
+
+      await resetPassword({ token: secondToken, password: 'newpassword456' });
+
+      await expect(resetPassword({ token: firstToken, password: 'anotherpassword789' })).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { appRouter } from '../index';
+import { createTestContext } from '../helpers/context';
+import { getSessionUser } from '../handlers/sessions';
+import { useTestGoogleKeys, signTestGoogleIdToken } from '../helpers/google';
+import { createMemoryMailer, setMailer } from '../services/mailer';
+import { eq } from 'drizzle-orm';
+
+// Collect every key in a (possibly nested) route output
+const collectKeys = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectKeys);
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.entries(value).flatMap(([key, nested]) => [key, ...collectKeys(nested)]);
+  }
+  return [];
+};
+
+const expectNoHashFields = (output: unknown) => {
+  const keys = collectKeys(output);
+  expect(keys.filter(key => /hash|totp/i.test(key))).toEqual([]);
+  expect(JSON.stringify(output)).not.toContain('google_oauth_user');
+};
+
+describe('Public user output', () => {
+  beforeEach(createDB);
+  beforeEach(useTestGoogleKeys);
+  beforeEach(() => setMailer(createMemoryMailer()));
+  afterEach(resetDB);
+
+  it('should not expose a hash from auth.signUp', async () => {
+    const caller = appRouter.createCaller(createTestContext());
+
+    const result = await caller.auth.signUp({
+      email: 'signup@example.com',
+      password: 'password123',
+      name: 'Sign Up User'
+    });
+
+    expectNoHashFields(result);
+    expect(result.user.email).toEqual('signup@example.com');
+    expect(result.user.providers).toEqual(['password']);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.user.id))
+      .execute();
+    expect(JSON.stringify(result)).not.toContain(users[0].password_hash);
+  });
+
+  it('should not expose a hash from auth.signIn', async () => {
+    const caller = appRouter.createCaller(createTestContext());
+    await caller.auth.signUp({
+      email: 'signin@example.com',
+      password: 'password123',
+      name: 'Sign In User'
+    });
+
+    const result = await caller.auth.signIn({
+      email: 'signin@example.com',
+      password: 'password123'
+    });
+
+    expect(result).not.toBeNull();
+    expectNoHashFields(result);
+  });
+
+  it('should not expose the Google placeholder from auth.googleAuth', async () => {
+    const caller = appRouter.createCaller(createTestContext());
+
+    const result = await caller.auth.googleAuth({
+      id_token: signTestGoogleIdToken({
+        sub: 'google_12345',
+        email: 'google@example.com',
+        name: 'Google User'
+      })
+    });
+
+    expectNoHashFields(result);
+    expect(result.status).toEqual('authenticated');
+    if (result.status === 'authenticated') {
+      expect(result.user.providers).toEqual(['google']);
+    }
+  });
+
+  it('should not expose a hash from auth.me', async () => {
+    const caller = appRouter.createCaller(createTestContext());
+    const session = await caller.auth.signUp({
+      email: 'me@example.com',
+      password: 'password123',
+      name: 'Me User'
+    });
+
+    const user = await getSessionUser(session.token);
+    const authedCaller = appRouter.createCaller(createTestContext(user, session.token));
+
+    const result = await authedCaller.auth.me();
+
+    expectNoHashFields(result);
+    expect(result.id).toEqual(session.user.id);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'bun:test';
+import { karatToFineness, fineWeightGrams, PURE_FINENESS } from '../services/purity';
+
+describe('karatToFineness', () => {
+  it('should convert common karat ratings', () => {
+    expect(karatToFineness(24)).toEqual(PURE_FINENESS);
+    expect(karatToFineness(22)).toEqual(916.7);
+    expect(karatToFineness(18)).toEqual(750);
+    expect(karatToFineness(9)).toEqual(375);
+  });
+});
+
+describe('fineWeightGrams', () => {
+  it('should scale the gross weight by fineness', () => {
+    expect(fineWeightGrams(10, 750)).toEqual(7.5);
+    expect(fineWeightGrams(10, 916)).toEqual(9.16);
+    expect(fineWeightGrams(12.345, PURE_FINENESS)).toEqual(12.345);
+  });
+
+  it('should round to the milligram', () => {
+    expect(fineWeightGrams(3.333, 916.7)).toEqual(3.055);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import {
+  createSession,
+  getSessionUser,
+  deleteSession,
+  deleteExpiredSessions,
+  listSessions,
+  renameSession,
+  revokeSession,
+  revokeAllOtherSessions
+} from '../handlers/sessions';
+import { appRouter } from '../index';
+import { createTestContext } from '../helpers/context';
+import { hashToken } from '../services/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('Session Handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'session@example.com',
+        password_hash: 'hashed_password',
+        name: 'Session User'
+      })
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('createSession', () => {
+    it('should issue a token with a future expiry', async () => {
+      const result = await createSession(userId);
+
+      expect(typeof result.token).toBe('string');
+      expect(result.token.length).toBeGreaterThan(20);
+      expect(result.expires_at).toBeInstanceOf(Date);
+      expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should store only the token hash', async () => {
+      const result = await createSession(userId);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, userId))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].token_hash).not.toEqual(result.token);
+      expect(sessions[0].token_hash).toEqual(hashToken(result.token));
+    });
+
+    it('should record the device details', async () => {
+      await createSession(userId, { user_agent: 'Mozilla/5.0 (iPhone)', ip_address: '203.0.113.9' });
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, userId))
+        .execute();
+
+      expect(sessions[0].user_agent).toEqual('Mozilla/5.0 (iPhone)');
+      expect(sessions[0].ip_address).toEqual('203.0.113.9');
+      expect(sessions[0].last_seen_at).toBeInstanceOf(Date);
+    });
+
+    it('should issue distinct tokens for each sign-in', async () => {
+      const first = await createSession(userId);
+      const second = await createSession(userId);
+
+      expect(first.token).not.toEqual(second.token);
+    });
+  });
+
+  describe('getSessionUser', () => {
+    it('should resolve the user for a valid token', async () => {
+      const session = await createSession(userId);
+
+      const user = await getSessionUser(session.token);
+
+      expect(user).not.toBeNull();
+      expect(user!.id).toEqual(userId);
+      expect(user!.email).toEqual('session@example.com');
+    });
+
+    it('should return null for an unknown token', async () => {
+      const user = await getSessionUser('not-a-real-token');
+
+      expect(user).toBeNull();
+    });
+
+    it('should return null for an expired session', async () => {
+      const session = await createSession(userId);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.token_hash, hashToken(session.token)))
+        .execute();
+
+      const user = await getSessionUser(session.token);
+
+      expect(user).toBeNull();
+    });
+
+    it('should refresh last_seen_at when it is stale', async () => {
+      const session = await createSession(userId);
+      const stale = new Date(Date.now() - 10 * 60 * 1000);
+
+      await db.update(sessionsTable)
+        .set({ last_seen_at: stale })
+        .execute();
+
+      await getSessionUser(session.token);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].last_seen_at.getTime()).toBeGreaterThan(stale.getTime());
+    });
+  });
+
+  describe('deleteSession', () => {
+    it('should invalidate the token', async () => {
+      const session = await createSession(userId);
+
+      const result = await deleteSession(session.token);
+
+      expect(result).toBe(true);
+      expect(await getSessionUser(session.token)).toBeNull();
+    });
+
+    it('should return false for an unknown token', async () => {
+      const result = await deleteSession('not-a-real-token');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('deleteExpiredSessions', () => {
+    it('should remove only expired sessions', async () => {
+      const active = await createSession(userId);
+      const expired = await createSession(userId);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.token_hash, hashToken(expired.token)))
+        .execute();
+
+      const removed = await deleteExpiredSessions();
+
+      expect(removed).toEqual(1);
+      expect(await getSessionUser(active.token)).not.toBeNull();
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const current = await createSession(userId, { user_agent: 'Laptop', ip_address: '198.51.100.1' });
+      await createSession(userId, { user_agent: 'Phone', ip_address: '198.51.100.2' });
+
+      const result = await listSessions(userId, current.token);
+
+      expect(result).toHaveLength(2);
+      const currentEntry = result.find(session => session.current);
+      expect(currentEntry!.user_agent).toEqual('Laptop');
+      expect(currentEntry!.ip_address).toEqual('198.51.100.1');
+      expect(result.filter(session => session.current)).toHaveLength(1);
+      expect(result[0]).not.toHaveProperty('token_hash');
+    });
+
+    it('should leave out expired sessions and other users', async () => {
+      const otherUser = await db.insert(usersTable)
+        .values({ email: 'other@example.com', password_hash: 'hashed_password', name: 'Other User' })
+        .returning()
+        .execute();
+      await createSession(otherUser[0].id);
+
+      const expired = await createSession(userId);
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.token_hash, hashToken(expired.token)))
+        .execute();
+
+      const result = await listSessions(userId, null);
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('renameSession', () => {
+    it('should label a session', async () => {
+      const session = await createSession(userId);
+      const [entry] = await listSessions(userId, session.token);
+
+      await renameSession({ id: entry.id, name: 'Work laptop' }, userId);
+
+      const [renamed] = await listSessions(userId, session.token);
+      expect(renamed.name).toEqual('Work laptop');
+    });
+
+    it('should not rename another user\'s session', async () => {
+      const otherUser = await db.insert(usersTable)
+        .values({ email: 'other@example.com', password_hash: 'hashed_password', name: 'Other User' })
+        .returning()
+        .execute();
+      await createSession(otherUser[0].id);
+      const [entry] = await listSessions(otherUser[0].id, null);
+
+      await expect(renameSession({ id: entry.id, name: 'Mine now' }, userId)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should sign the session out', async () => {
+      const current = await createSession(userId);
+      const other = await createSession(userId);
+      const entry = (await listSessions(userId, current.token)).find(session => !session.current)!;
+
+      const result = await revokeSession({ id: entry.id }, userId);
+
+      expect(result).toBe(true);
+      expect(await getSessionUser(other.token)).toBeNull();
+      expect(await getSessionUser(current.token)).not.toBeNull();
+    });
+
+    it('should not revoke another user\'s session', async () => {
+      const otherUser = await db.insert(usersTable)
+        .values({ email: 'other@example.com', password_hash: 'hashed_password', name: 'Other User' })
+        .returning()
+        .execute();
+      const otherSession = await createSession(otherUser[0].id);
+      const [entry] = await listSessions(otherUser[0].id, null);
+
+      await expect(revokeSession({ id: entry.id }, userId)).rejects.toThrow(/not found/i);
+      expect(await getSessionUser(otherSession.token)).not.toBeNull();
+    });
+  });
+
+  describe('revokeAllOtherSessions', () => {
+    it('should keep only the current session', async () => {
+      const current = await createSession(userId);
+      const phone = await createSession(userId);
+      const tablet = await createSession(userId);
+
+      const removed = await revokeAllOtherSessions(userId, current.token);
+
+      expect(removed).toEqual(2);
+      expect(await getSessionUser(current.token)).not.toBeNull();
+      expect(await getSessionUser(phone.token)).toBeNull();
+      expect(await getSessionUser(tablet.token)).toBeNull();
+    });
+  });
+
+  describe('auth routes', () => {
+    it('should record the user agent of the signing-in client', async () => {
+      const ctx = createTestContext(null, null, '203.0.113.50');
+      ctx.req.headers['user-agent'] = 'EmasTrack/1.0 (Android)';
+
+      await appRouter.createCaller(ctx).auth.signUp({
+        email: 'device@example.com',
+        password: 'password123',
+        name: 'Device User'
+      });
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+        .where(eq(usersTable.email, 'device@example.com'))
+        .execute();
+      expect(sessions[0].sessions.user_agent).toEqual('EmasTrack/1.0 (Android)');
+      expect(sessions[0].sessions.ip_address).toEqual('203.0.113.50');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotpCode,
+  matchTotpCode,
+  totpTimeStep,
+  totpProvisioningUri
+} from '../services/totp';
+
+// RFC 6238 appendix B test secret ("12345678901234567890" in ASCII)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('should round-trip arbitrary bytes', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it('should match the RFC 4648 test vector', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toEqual('MZXW6YTBOI');
+    expect(base32Decode('mzxw6ytboi======').toString()).toEqual('foobar');
+  });
+});
+
+describe('generateTotpCode', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037']
+    ];
+
+    for (const [seconds, expected] of vectors) {
+      expect(generateTotpCode(RFC_SECRET, totpTimeStep(new Date(seconds * 1000)))).toEqual(expected);
+    }
+  });
+});
+
+describe('matchTotpCode', () => {
+  const at = new Date(1234567890 * 1000);
+
+  it('should accept the current code and return its time step', () => {
+    expect(matchTotpCode(RFC_SECRET, '005924', at)).toEqual(totpTimeStep(at));
+  });
+
+  it('should accept codes one step either side for clock drift', () => {
+    const step = totpTimeStep(at);
+
+    expect(matchTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), at)).toEqual(step - 1);
+    expect(matchTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), at)).toEqual(step + 1);
+  });
+
+  it('should reject codes outside the window', () => {
+    const step = totpTimeStep(at);
+
+    expect(matchTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 3), at)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(matchTotpCode(RFC_SECRET, 'abcdef', at)).toBeNull();
+    expect(matchTotpCode(RFC_SECRET, '12345', at)).toBeNull();
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('should produce a 160-bit base32 secret', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+});
+
+describe('totpProvisioningUri', () => {
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = totpProvisioningUri('JBSWY3DPEHPK3PXP', 'user@example.com');
+
+    expect(uri.startsWith('otpauth://totp/EmasTrack:user%40example.com?')).toBe(true);
+    expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+    expect(uri).toContain('issuer=EmasTrack');
+    expect(uri).toContain('digits=6');
+    expect(uri).toContain('period=30');
+  });
+});
\ No newline at end of file
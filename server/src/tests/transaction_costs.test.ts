@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { sumCostComponents, computeTotalPrice, summarizeCostBasis } from '../services/transaction_costs';
+
+describe('computeTotalPrice', () => {
+  const costs = [
+    { kind: 'making_charge' as const, amount: 150.5 },
+    { kind: 'tax' as const, label: 'PPh 22', amount: 9.25 }
+  ];
+
+  it('should add up the components', () => {
+    expect(sumCostComponents(costs)).toEqual(159.75);
+    expect(sumCostComponents([])).toEqual(0);
+  });
+
+  it('should add costs to purchases and take them off sales', () => {
+    expect(computeTotalPrice('buy', 1000, costs)).toEqual(1159.75);
+    expect(computeTotalPrice('sell', 1000, costs)).toEqual(840.25);
+    expect(computeTotalPrice('buy', 1000, [])).toEqual(1000);
+  });
+});
+
+describe('summarizeCostBasis', () => {
+  it('should split purchases into metal and overheads', () => {
+    const summary = summarizeCostBasis([
+      { type: 'buy', fine_weight_grams: 10, metal_cost: 600, total_price: 650, cost_components: [{ kind: 'premium', amount: 30 }, { kind: 'shipping', amount: 20 }] },
+      // Entered as paid: 25 more than the itemized tax explains
+      { type: 'buy', fine_weight_grams: 5, metal_cost: 300, total_price: 340, cost_components: [{ kind: 'tax', amount: 15 }] }
+    ]);
+
+    expect(summary.bought_fine_weight_grams).toEqual(15);
+    expect(summary.metal_cost).toEqual(900);
+    expect(summary.total_cost).toEqual(990);
+    expect(summary.overheads).toEqual({
+      making_charge: 0,
+      premium: 30,
+      tax: 15,
+      shipping: 20,
+      fee: 0,
+      other: 0,
+      unitemized: 25
+    });
+    expect(summary.average_cost_per_fine_gram).toEqual(66);
+  });
+
+  it('should value what is left at average cost', () => {
+    const summary = summarizeCostBasis([
+      { type: 'buy', fine_weight_grams: 10, metal_cost: 600, total_price: 700, cost_components: [{ kind: 'fee', amount: 100 }] },
+      { type: 'sell', fine_weight_grams: 4, metal_cost: 320, total_price: 310, cost_components: [{ kind: 'fee', amount: 10 }] }
+    ]);
+
+    expect(summary.sold_fine_weight_grams).toEqual(4);
+    expect(summary.sale_proceeds).toEqual(310);
+    expect(summary.overheads.fee).toEqual(100); // Sale costs come out of the proceeds instead
+    expect(summary.remaining_fine_weight_grams).toEqual(6);
+    expect(summary.remaining_cost_basis).toEqual(420);
+  });
+
+  it('should handle an empty portfolio', () => {
+    const summary = summarizeCostBasis([]);
+
+    expect(summary.total_cost).toEqual(0);
+    expect(summary.average_cost_per_fine_gram).toEqual(0);
+    expect(summary.remaining_cost_basis).toEqual(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,277 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, goldTransactionsTable, auditEventsTable } from '../db/schema';
+import { transactionImportInputSchema, transactionImportCommitInputSchema } from '../schema';
+import { previewTransactionImport, commitTransactionImport } from '../handlers/transaction_import';
+import { createTransaction } from '../handlers/transactions';
+import { createHousehold } from '../handlers/households';
+import { parseImportDate, parseImportNumber, readImportRow } from '../services/transaction_import';
+import { eq } from 'drizzle-orm';
+
+const mapping = {
+  type: 'Type',
+  weight_grams: 'Weight',
+  price_per_gram: 'Price',
+  transaction_date: 'Date',
+  description: 'Note'
+};
+
+const options = { date_format: 'YYYY-MM-DD' as const, decimal_separator: '.' as const, type_aliases: {}, household_id: undefined };
+
+// Parse the raw input the way the router would, filling in defaults
+const preview = (input: Record<string, unknown>, userId: number) =>
+  previewTransactionImport(transactionImportInputSchema.parse({ mapping, ...input }), userId);
+
+const commit = (input: Record<string, unknown>, userId: number) =>
+  commitTransactionImport(transactionImportCommitInputSchema.parse({ mapping, ...input }), userId);
+
+describe('parseImportDate', () => {
+  it('should read each supported format', () => {
+    const expected = new Date('2024-03-05T00:00:00Z');
+
+    expect(parseImportDate('2024-03-05', 'YYYY-MM-DD')).toEqual(expected);
+    expect(parseImportDate('05/03/2024', 'DD/MM/YYYY')).toEqual(expected);
+    expect(parseImportDate('3/5/2024', 'MM/DD/YYYY')).toEqual(expected);
+    expect(parseImportDate('05.03.2024', 'DD.MM.YYYY')).toEqual(expected);
+    expect(parseImportDate('5-3-2024', 'DD-MM-YYYY')).toEqual(expected);
+  });
+
+  it('should reject dates in another format or that do not exist', () => {
+    expect(parseImportDate('2024-03-05', 'DD/MM/YYYY')).toBeNull();
+    expect(parseImportDate('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+    expect(parseImportDate('05/03/24', 'DD/MM/YYYY')).toBeNull();
+  });
+});
+
+describe('parseImportNumber', () => {
+  it('should honour the decimal separator and ignore grouping', () => {
+    expect(parseImportNumber('1,234.56', '.')).toEqual(1234.56);
+    expect(parseImportNumber('1.234,56', ',')).toEqual(1234.56);
+    expect(parseImportNumber('1 234,5', ',')).toEqual(1234.5);
+    expect(parseImportNumber('10', ',')).toEqual(10);
+  });
+
+  it('should reject text that is not a number', () => {
+    expect(parseImportNumber('12g', '.')).toBeNull();
+    expect(parseImportNumber('1,2,3', ',')).toBeNull();
+  });
+});
+
+describe('readImportRow', () => {
+  const columns = { type: 0, weight_grams: 1, price_per_gram: 2, transaction_date: 3 };
+
+  it('should build transaction input from the cells', () => {
+    const result = readImportRow(['Beli', '10', '65.5', '2024-01-15'], columns, { ...options, type_aliases: { beli: 'buy' } });
+
+    expect(result.errors).toEqual([]);
+    expect(result.transaction).toEqual({
+      type: 'buy',
+      weight_grams: 10,
+      price_per_gram: 65.5,
+      transaction_date: new Date('2024-01-15T00:00:00Z')
+    });
+  });
+
+  it('should report every problem in the row', () => {
+    const result = readImportRow(['swap', 'ten', '', '15/01/2024'], columns, options);
+
+    expect(result.transaction).toBeNull();
+    expect(result.errors).toContain('weight_grams: "ten" is not a number');
+    expect(result.errors).toContain('transaction_date: "15/01/2024" is not a YYYY-MM-DD date');
+    expect(result.errors.some(error => error.startsWith('type:'))).toBe(true);
+    expect(result.errors.some(error => error.startsWith('price_per_gram:'))).toBe(true);
+    expect(result.errors.filter(error => error.startsWith('weight_grams:'))).toHaveLength(1);
+  });
+});
+
+describe('Transaction import handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'importer@example.com', password_hash: 'hashed_password', name: 'Importer' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('previewTransactionImport', () => {
+    it('should check rows without storing anything', async () => {
+      const csv = [
+        'Date;Type;Weight;Price;Note',
+        '15/01/2024;Beli;10;1.050.000,50;Antam bar',
+        '20/01/2024;Jual;2,5;1.100.000;',
+        '31/02/2024;Beli;1;1.000.000;Bad date'
+      ].join('\n');
+
+      const result = await preview({
+        csv,
+        delimiter: ';',
+        date_format: 'DD/MM/YYYY',
+        decimal_separator: ',',
+        type_aliases: { Beli: 'buy', Jual: 'sell' }
+      }, userId);
+
+      expect(result.valid).toEqual(2);
+      expect(result.invalid).toEqual(1);
+      expect(result.rows[0].row_number).toEqual(2);
+      expect(result.rows[0].transaction).toMatchObject({ type: 'buy', weight_grams: 10, price_per_gram: 1050000.5, description: 'Antam bar' });
+      expect(result.rows[1].transaction).toMatchObject({ type: 'sell', weight_grams: 2.5 });
+      expect(result.rows[2].status).toEqual('invalid');
+      expect(result.rows[2].errors).toEqual(['transaction_date: "31/02/2024" is not a DD/MM/YYYY date']);
+
+      expect(await db.select().from(goldTransactionsTable).execute()).toHaveLength(0);
+    });
+
+    it('should flag rows that match an existing transaction or an earlier row', async () => {
+      const existing = await createTransaction({
+        type: 'buy',
+        weight_grams: 10,
+        price_per_gram: 65,
+        transaction_date: new Date('2024-01-15T09:30:00Z')
+      }, userId);
+
+      const csv = 'Type,Weight,Price,Date\nbuy,10,65,2024-01-15\nbuy,5,60,2024-01-16\nbuy,5.000,60.00,2024-01-16';
+      const result = await preview({ csv }, userId);
+
+      expect(result.rows.map(row => row.status)).toEqual(['duplicate', 'valid', 'duplicate']);
+      expect(result.rows[0].duplicate_of_transaction_id).toEqual(existing.id);
+      expect(result.rows[2].duplicate_of_row).toEqual(3);
+      expect(result.duplicates).toEqual(2);
+    });
+
+    it('should mark a sale the holdings cannot cover', async () => {
+      const csv = 'Type,Weight,Price,Date\nbuy,5,60,2024-01-10\nsell,8,70,2024-02-01';
+
+      const result = await preview({ csv }, userId);
+
+      expect(result.rows[0].status).toEqual('valid');
+      expect(result.rows[1].status).toEqual('invalid');
+      expect(result.rows[1].errors[0]).toMatch(/Not enough gold for the sale on 2024-02-01/);
+    });
+
+    it('should mark every sale the holdings cannot cover, not just the first', async () => {
+      const csv = 'Type,Weight,Price,Date\nbuy,5,60,2024-01-10\nsell,8,70,2024-02-01\nsell,3,70,2024-02-05\nsell,9,70,2024-03-01';
+
+      const result = await preview({ csv }, userId);
+
+      expect(result.rows.map(row => row.status)).toEqual(['valid', 'invalid', 'valid', 'invalid']);
+      expect(result.rows[3].errors[0]).toMatch(/Not enough gold for the sale on 2024-03-01: .* only 2 g is held/);
+    });
+
+    it('should map columns by position when there is no header', async () => {
+      const result = await preview({
+        csv: '2024-01-15,buy,10,65',
+        has_header: false,
+        mapping: { transaction_date: 0, type: 1, weight_grams: 2, price_per_gram: 3 }
+      }, userId);
+
+      expect(result.rows[0].row_number).toEqual(1);
+      expect(result.rows[0].status).toEqual('valid');
+    });
+
+    it('should reject a mapping to a missing column', async () => {
+      await expect(preview({ csv: 'Type,Weight,Price\nbuy,10,65' }, userId))
+        .rejects.toThrow(/Column "Date" is not in the header row/);
+    });
+
+    it('should mark rows in a currency without an exchange rate', async () => {
+      const result = await preview({
+        csv: 'Type,Weight,Price,Date,Currency\nbuy,10,65,2024-01-15,USD\nbuy,1,1000000,2024-01-15,IDR',
+        mapping: { ...mapping, currency: 'Currency' }
+      }, userId);
+
+      expect(result.rows.map(row => row.status)).toEqual(['valid', 'invalid']);
+      expect(result.rows[1].errors).toEqual(['No IDR exchange rate is available for 2024-01-15']);
+    });
+
+    it('should read a mapped optional column the file lacks as not given', async () => {
+      const result = await preview({ csv: 'Type,Weight,Price,Date\nbuy,10,65,2024-01-15' }, userId);
+
+      expect(result.rows[0].status).toEqual('valid');
+      expect(result.rows[0].transaction!.description).toBeUndefined();
+    });
+
+    it('should require edit access to import into a household', async () => {
+      const otherResult = await db.insert(usersTable)
+        .values({ email: 'outsider@example.com', password_hash: 'hashed_password', name: 'Outsider' })
+        .returning()
+        .execute();
+      const household = await createHousehold({ name: 'Family' }, userId);
+
+      await expect(preview({ csv: 'Type,Weight,Price,Date\nbuy,10,65,2024-01-15', household_id: household.id }, otherResult[0].id))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('commitTransactionImport', () => {
+    it('should insert the valid rows and report every row', async () => {
+      await createTransaction({ type: 'buy', weight_grams: 10, price_per_gram: 65, transaction_date: new Date('2024-01-15') }, userId);
+
+      const csv = 'Type,Weight,Price,Date,Note\nbuy,10,65,2024-01-15,Again\nbuy,5,60,2024-01-16,New\nbuy,x,60,2024-01-17,Broken';
+      const result = await commit({ csv }, userId);
+
+      expect(result.imported).toEqual(1);
+      expect(result.skipped).toEqual(2);
+      expect(result.rows[0]).toEqual({ row_number: 2, status: 'skipped', transaction_id: null, reason: 'Looks like a duplicate' });
+      expect(result.rows[1].status).toEqual('imported');
+      expect(result.rows[2].reason).toEqual('weight_grams: "x" is not a number');
+
+      const stored = await db.select()
+        .from(goldTransactionsTable)
+        .where(eq(goldTransactionsTable.id, result.rows[1].transaction_id!))
+        .execute();
+      expect(stored[0].description).toEqual('New');
+      expect(stored[0].total_price).toEqual('300.00');
+
+      const events = await db.select().from(auditEventsTable).where(eq(auditEventsTable.reason, 'import')).execute();
+      expect(events).toHaveLength(1);
+      expect(events[0].entity_id).toEqual(result.rows[1].transaction_id);
+    });
+
+    it('should import duplicates the user chose to keep', async () => {
+      const csv = 'Type,Weight,Price,Date\nbuy,5,60,2024-01-16\nbuy,5,60,2024-01-16';
+
+      const result = await commit({ csv, include_duplicate_rows: [3] }, userId);
+
+      expect(result.imported).toEqual(2);
+      expect(await db.select().from(goldTransactionsTable).execute()).toHaveLength(2);
+    });
+
+    it('should skip a sale the holdings cannot cover', async () => {
+      await createTransaction({ type: 'buy', weight_grams: 5, price_per_gram: 60, transaction_date: new Date('2024-01-10') }, userId);
+
+      const csv = 'Type,Weight,Price,Date\nbuy,5,60,2024-01-10\nsell,8,70,2024-02-01\nbuy,1,60,2024-01-12';
+
+      const result = await commit({ csv, include_duplicate_rows: [2] }, userId);
+
+      expect(result.rows.map(row => row.status)).toEqual(['imported', 'skipped', 'imported']);
+      expect(result.rows[1].reason).toMatch(/Not enough gold/);
+    });
+
+    it('should skip every uncovered sale and import the rest', async () => {
+      const csv = 'Type,Weight,Price,Date\nbuy,5,60,2024-01-10\nsell,8,70,2024-02-01\nsell,9,70,2024-03-01';
+
+      const result = await commit({ csv }, userId);
+
+      expect(result.rows.map(row => row.status)).toEqual(['imported', 'skipped', 'skipped']);
+      expect(await db.select().from(goldTransactionsTable).execute()).toHaveLength(1);
+    });
+
+    it('should import nothing when kept duplicates leave a valid sale uncovered', async () => {
+      await createTransaction({ type: 'buy', weight_grams: 10, price_per_gram: 60, transaction_date: new Date('2024-01-10') }, userId);
+      await createTransaction({ type: 'sell', weight_grams: 4, price_per_gram: 70, transaction_date: new Date('2024-01-20') }, userId);
+
+      const csv = 'Type,Weight,Price,Date\nsell,4,70,2024-01-20\nsell,5,70,2024-02-01';
+
+      await expect(commit({ csv, include_duplicate_rows: [2] }, userId))
+        .rejects.toThrow(/Row 3: Not enough gold for the sale on 2024-02-01/);
+      expect(await db.select().from(goldTransactionsTable).execute()).toHaveLength(2);
+    });
+  });
+});
\ No newline at end of file
@@ -2,14 +2,17 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, goldTransactionsTable } from '../db/schema';
-import { type CreateTransactionInput, type UpdateTransactionInput } from '../schema';
+import { type CreateTransactionInput, type UpdateTransactionInput, listTransactionsInputSchema } from '../schema';
 import { 
   createTransaction, 
   updateTransaction, 
   deleteTransaction, 
   getUserTransactions, 
-  getTransactionById 
+  getTransactionById,
+  listTransactions
 } from '../handlers/transactions';
+import { createHousehold } from '../handlers/households';
+import { createStaticFxRateProvider, setFxRateProvider } from '../services/fx_rates';
 import { eq } from 'drizzle-orm';
 
 // Test data
@@ -20,7 +23,6 @@ const testUser = {
 };
 
 const testTransactionInput: CreateTransactionInput = {
-  user_id: 1,
   type: 'buy' as const,
   weight_grams: 10.5,
   price_per_gram: 65.75,
@@ -43,12 +45,15 @@ describe('Transaction Handlers', () => {
     userId = userResult[0].id;
   });
 
-  afterEach(resetDB);
+  afterEach(async () => {
+    setFxRateProvider(null);
+    await resetDB();
+  });
 
   describe('createTransaction', () => {
     it('should create a new transaction', async () => {
-      const input = { ...testTransactionInput, user_id: userId };
-      const result = await createTransaction(input);
+      const input = { ...testTransactionInput };
+      const result = await createTransaction(input, userId);
 
       expect(result.user_id).toBe(userId);
       expect(result.type).toBe('buy');
@@ -63,30 +68,141 @@ describe('Transaction Handlers', () => {
     });
 
     it('should calculate total_price correctly', async () => {
-      const input = { ...testTransactionInput, user_id: userId, weight_grams: 25.0, price_per_gram: 70.0 };
-      const result = await createTransaction(input);
+      const input = { ...testTransactionInput, weight_grams: 25.0, price_per_gram: 70.0 };
+      const result = await createTransaction(input, userId);
 
       expect(result.total_price).toBe(1750.0);
       expect(typeof result.total_price).toBe('number');
     });
 
+    it('should treat transactions without a purity as pure gold', async () => {
+      const result = await createTransaction(testTransactionInput, userId);
+
+      expect(result.fineness).toBe(1000);
+      expect(result.fine_weight_grams).toBe(10.5);
+    });
+
+    it('should record purity given as karat or fineness', async () => {
+      const jewelry = await createTransaction({ ...testTransactionInput, weight_grams: 20, karat: 18 }, userId);
+      const hallmarked = await createTransaction({ ...testTransactionInput, weight_grams: 10, fineness: 916 }, userId);
+
+      expect(jewelry.fineness).toBe(750);
+      expect(jewelry.fine_weight_grams).toBe(15);
+      expect(jewelry.weight_grams).toBe(20); // Gross weight is kept
+      expect(jewelry.total_price).toBe(20 * 65.75);
+      expect(hallmarked.fine_weight_grams).toBe(9.16);
+    });
+
+    it('should record prices in the user\'s reporting currency unless told otherwise', async () => {
+      setFxRateProvider(createStaticFxRateProvider({ '2024-01-01': { MYR: 4.6, IDR: 15500 } }));
+      await db.update(usersTable).set({ reporting_currency: 'MYR' }).where(eq(usersTable.id, userId)).execute();
+
+      const defaulted = await createTransaction(testTransactionInput, userId);
+      const explicit = await createTransaction({ ...testTransactionInput, currency: 'IDR' }, userId);
+
+      expect(defaulted.currency).toBe('MYR');
+      expect(explicit.currency).toBe('IDR');
+    });
+
+    it('should reject a currency without an exchange rate at the transaction date', async () => {
+      setFxRateProvider(createStaticFxRateProvider({ '2024-06-01': { IDR: 16000 } }));
+
+      await expect(createTransaction({ ...testTransactionInput, currency: 'IDR' }, userId))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'No IDR exchange rate is available for 2024-01-15' });
+      expect(await db.select().from(goldTransactionsTable).execute()).toHaveLength(0);
+    });
+
+    it('should add cost components to the metal cost', async () => {
+      const result = await createTransaction({
+        ...testTransactionInput,
+        weight_grams: 10,
+        price_per_gram: 60,
+        cost_components: [
+          { kind: 'making_charge', amount: 45 },
+          { kind: 'tax', label: 'PPh 22', amount: 2.5 }
+        ]
+      }, userId);
+
+      expect(result.metal_cost).toBe(600);
+      expect(result.total_price).toBe(647.5);
+      expect(result.total_price_as_paid).toBe(false);
+      expect(result.cost_components).toEqual([
+        { kind: 'making_charge', amount: 45 },
+        { kind: 'tax', label: 'PPh 22', amount: 2.5 }
+      ]);
+    });
+
+    it('should keep a total entered as actually paid', async () => {
+      const result = await createTransaction({ ...testTransactionInput, weight_grams: 10, price_per_gram: 60, total_price: 655 }, userId);
+
+      expect(result.metal_cost).toBe(600);
+      expect(result.total_price).toBe(655);
+      expect(result.total_price_as_paid).toBe(true);
+    });
+
+    it('should take sale costs off the proceeds', async () => {
+      await createTransaction({ ...testTransactionInput, transaction_date: new Date('2024-01-01T10:00:00Z') }, userId);
+
+      const sale = await createTransaction({
+        ...testTransactionInput,
+        type: 'sell',
+        weight_grams: 10,
+        price_per_gram: 70,
+        cost_components: [{ kind: 'fee', amount: 20 }]
+      }, userId);
+      expect(sale.total_price).toBe(680);
+
+      await expect(createTransaction({
+        ...testTransactionInput,
+        type: 'sell',
+        weight_grams: 0.1,
+        price_per_gram: 70,
+        cost_components: [{ kind: 'shipping', amount: 50 }]
+      }, userId)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('should record the item form and brand', async () => {
+      const result = await createTransaction({ ...testTransactionInput, item_form: 'bar', brand: 'Antam' }, userId);
+      const unspecified = await createTransaction(testTransactionInput, userId);
+
+      expect(result.item_form).toBe('bar');
+      expect(result.brand).toBe('Antam');
+      expect(unspecified.item_form).toBeNull();
+      expect(unspecified.brand).toBeNull();
+    });
+
+    it('should reject karat and fineness together', async () => {
+      await expect(createTransaction({ ...testTransactionInput, karat: 22, fineness: 916 }, userId))
+        .rejects.toThrow(/karat or fineness/);
+    });
+
+    it('should check sales against pure gold held', async () => {
+      await createTransaction({ ...testTransactionInput, weight_grams: 10, karat: 18, transaction_date: new Date('2024-01-01T10:00:00Z') }, userId);
+
+      // 7.5 g of pure gold is held, so 8 g of 24K cannot be sold but 10 g of the same 18K can
+      await expect(createTransaction({ ...testTransactionInput, type: 'sell', weight_grams: 8 }, userId)).rejects.toThrow(/only 7.5 g/);
+      const sale = await createTransaction({ ...testTransactionInput, type: 'sell', weight_grams: 10, karat: 18 }, userId);
+      expect(sale.fine_weight_grams).toBe(7.5);
+    });
+
     it('should handle sell transactions', async () => {
-      const input = { ...testTransactionInput, user_id: userId, type: 'sell' as const };
-      const result = await createTransaction(input);
+      await createTransaction({ ...testTransactionInput, transaction_date: new Date('2024-01-01T10:00:00Z') }, userId);
+      const input = { ...testTransactionInput, type: 'sell' as const };
+      const result = await createTransaction(input, userId);
 
       expect(result.type).toBe('sell');
     });
 
     it('should handle null description', async () => {
-      const input = { ...testTransactionInput, user_id: userId, description: undefined };
-      const result = await createTransaction(input);
+      const input = { ...testTransactionInput, description: undefined };
+      const result = await createTransaction(input, userId);
 
       expect(result.description).toBe(null);
     });
 
     it('should save transaction to database', async () => {
-      const input = { ...testTransactionInput, user_id: userId };
-      const result = await createTransaction(input);
+      const input = { ...testTransactionInput };
+      const result = await createTransaction(input, userId);
 
       const savedTransactions = await db.select()
         .from(goldTransactionsTable)
@@ -100,10 +216,8 @@ describe('Transaction Handlers', () => {
     });
 
     it('should handle transaction for non-existent user', async () => {
-      const input = { ...testTransactionInput, user_id: 999 };
-      
       // Should throw due to foreign key constraint violation, not manual validation
-      await expect(createTransaction(input)).rejects.toThrow();
+      await expect(createTransaction(testTransactionInput, 999)).rejects.toThrow();
     });
   });
 
@@ -112,8 +226,7 @@ describe('Transaction Handlers', () => {
 
     beforeEach(async () => {
       // Create a transaction to update
-      const input = { ...testTransactionInput, user_id: userId };
-      const transaction = await createTransaction(input);
+      const transaction = await createTransaction(testTransactionInput, userId);
       transactionId = transaction.id;
     });
 
@@ -125,7 +238,7 @@ describe('Transaction Handlers', () => {
         description: 'Updated description'
       };
 
-      const result = await updateTransaction(updateInput);
+      const result = await updateTransaction(updateInput, userId);
 
       expect(result.weight_grams).toBe(15.0);
       expect(result.price_per_gram).toBe(70.0);
@@ -140,7 +253,7 @@ describe('Transaction Handlers', () => {
         weight_grams: 20.0
       };
 
-      const result = await updateTransaction(updateInput);
+      const result = await updateTransaction(updateInput, userId);
 
       expect(result.weight_grams).toBe(20.0);
       expect(result.total_price).toBe(20.0 * 65.75); // Original price per gram
@@ -152,19 +265,54 @@ describe('Transaction Handlers', () => {
         price_per_gram: 80.0
       };
 
-      const result = await updateTransaction(updateInput);
+      const result = await updateTransaction(updateInput, userId);
 
       expect(result.price_per_gram).toBe(80.0);
       expect(result.total_price).toBe(10.5 * 80.0); // Original weight
     });
 
+    it('should recompute fine weight when purity changes', async () => {
+      const result = await updateTransaction({ id: transactionId, fineness: 500 }, userId);
+
+      expect(result.fineness).toBe(500);
+      expect(result.fine_weight_grams).toBe(5.25);
+      expect(result.weight_grams).toBe(10.5);
+    });
+
+    it('should update the item form and clear the brand', async () => {
+      await updateTransaction({ id: transactionId, item_form: 'coin', brand: 'Perth Mint' }, userId);
+      const result = await updateTransaction({ id: transactionId, brand: null }, userId);
+
+      expect(result.item_form).toBe('coin');
+      expect(result.brand).toBeNull();
+    });
+
+    it('should recompute the total when cost components change', async () => {
+      const result = await updateTransaction({ id: transactionId, cost_components: [{ kind: 'premium', amount: 10 }] }, userId);
+
+      expect(result.total_price).toBe(700.38); // 690.38 metal + 10 premium
+    });
+
+    it('should keep a total entered as paid until it is reset', async () => {
+      await updateTransaction({ id: transactionId, total_price: 700 }, userId);
+
+      const reweighed = await updateTransaction({ id: transactionId, weight_grams: 10 }, userId);
+      expect(reweighed.total_price).toBe(700);
+      expect(reweighed.metal_cost).toBe(657.5);
+
+      const reset = await updateTransaction({ id: transactionId, total_price: null }, userId);
+      expect(reset.total_price).toBe(657.5);
+      expect(reset.total_price_as_paid).toBe(false);
+    });
+
     it('should update transaction type', async () => {
+      await createTransaction({ ...testTransactionInput, transaction_date: new Date('2024-01-01T10:00:00Z') }, userId);
       const updateInput: UpdateTransactionInput = {
         id: transactionId,
         type: 'sell'
       };
 
-      const result = await updateTransaction(updateInput);
+      const result = await updateTransaction(updateInput, userId);
 
       expect(result.type).toBe('sell');
     });
@@ -175,7 +323,7 @@ describe('Transaction Handlers', () => {
         description: null
       };
 
-      const result = await updateTransaction(updateInput);
+      const result = await updateTransaction(updateInput, userId);
 
       expect(result.description).toBe(null);
     });
@@ -186,7 +334,32 @@ describe('Transaction Handlers', () => {
         weight_grams: 15.0
       };
 
-      await expect(updateTransaction(updateInput)).rejects.toThrow();
+      await expect(updateTransaction(updateInput, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should not update transaction belonging to different user', async () => {
+      const anotherUser = await db.insert(usersTable)
+        .values({ ...testUser, email: 'another@example.com' })
+        .returning()
+        .execute();
+
+      const updateInput: UpdateTransactionInput = {
+        id: transactionId,
+        weight_grams: 999,
+        description: 'Hijacked'
+      };
+
+      await expect(updateTransaction(updateInput, anotherUser[0].id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      // Verify original transaction is unchanged
+      const transactions = await db.select()
+        .from(goldTransactionsTable)
+        .where(eq(goldTransactionsTable.id, transactionId))
+        .execute();
+
+      expect(parseFloat(transactions[0].weight_grams)).toBe(10.5);
+      expect(transactions[0].description).toBe('First gold purchase');
+      expect(transactions[0].user_id).toBe(userId);
     });
   });
 
@@ -195,29 +368,30 @@ describe('Transaction Handlers', () => {
 
     beforeEach(async () => {
       // Create a transaction to delete
-      const input = { ...testTransactionInput, user_id: userId };
-      const transaction = await createTransaction(input);
+      const transaction = await createTransaction(testTransactionInput, userId);
       transactionId = transaction.id;
     });
 
-    it('should delete transaction successfully', async () => {
+    it('should move the transaction to the trash', async () => {
       const result = await deleteTransaction(transactionId, userId);
 
       expect(result).toBe(true);
 
-      // Verify transaction is deleted
+      // Verify transaction is trashed rather than removed
       const transactions = await db.select()
         .from(goldTransactionsTable)
         .where(eq(goldTransactionsTable.id, transactionId))
         .execute();
 
-      expect(transactions).toHaveLength(0);
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0].deleted_at).toBeInstanceOf(Date);
+      expect(await getUserTransactions(userId)).toHaveLength(0);
+      await expect(getTransactionById(transactionId, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      await expect(deleteTransaction(transactionId, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
     });
 
-    it('should return false for non-existent transaction', async () => {
-      const result = await deleteTransaction(999, userId);
-
-      expect(result).toBe(false);
+    it('should throw NOT_FOUND for non-existent transaction', async () => {
+      await expect(deleteTransaction(999, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
     });
 
     it('should not delete transaction belonging to different user', async () => {
@@ -227,9 +401,7 @@ describe('Transaction Handlers', () => {
         .returning()
         .execute();
 
-      const result = await deleteTransaction(transactionId, anotherUser[0].id);
-
-      expect(result).toBe(false);
+      await expect(deleteTransaction(transactionId, anotherUser[0].id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
 
       // Verify original transaction still exists
       const transactions = await db.select()
@@ -241,6 +413,87 @@ describe('Transaction Handlers', () => {
     });
   });
 
+  describe('holdings validation', () => {
+    const buy = (weight_grams: number, date: string) =>
+      createTransaction({ type: 'buy', weight_grams, price_per_gram: 60, transaction_date: new Date(date) }, userId);
+    const sell = (weight_grams: number, date: string) =>
+      createTransaction({ type: 'sell', weight_grams, price_per_gram: 70, transaction_date: new Date(date) }, userId);
+
+    it('should reject selling more than is held, naming the date', async () => {
+      await buy(10, '2024-01-10T10:00:00Z');
+
+      await expect(sell(500, '2024-02-01T10:00:00Z')).rejects.toThrow(/2024-02-01.*500 g.*only 10 g/);
+      expect(await getUserTransactions(userId)).toHaveLength(1);
+    });
+
+    it('should allow selling exactly what is held', async () => {
+      await buy(10.5, '2024-01-10T10:00:00Z');
+
+      const result = await sell(10.5, '2024-02-01T10:00:00Z');
+
+      expect(result.type).toBe('sell');
+    });
+
+    it('should judge back-dated sales by the holdings at their own date', async () => {
+      await buy(10, '2024-03-01T10:00:00Z');
+
+      await expect(sell(5, '2024-02-01T10:00:00Z')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('should reject edits that uncover a later sale', async () => {
+      const purchase = await buy(10, '2024-01-10T10:00:00Z');
+      const sale = await sell(8, '2024-02-01T10:00:00Z');
+
+      await expect(updateTransaction({ id: sale.id, weight_grams: 12 }, userId)).rejects.toThrow(/2024-02-01/);
+      await expect(updateTransaction({ id: purchase.id, weight_grams: 5 }, userId)).rejects.toThrow(/2024-02-01/);
+      await expect(updateTransaction({ id: purchase.id, transaction_date: new Date('2024-03-01T10:00:00Z') }, userId))
+        .rejects.toThrow(/2024-02-01/);
+      await expect(updateTransaction({ id: purchase.id, type: 'sell' }, userId)).rejects.toThrow(/2024-01-10/);
+
+      // Edits that keep the ledger covered still go through
+      const result = await updateTransaction({ id: purchase.id, weight_grams: 8, description: 'Bar' }, userId);
+      expect(result.weight_grams).toBe(8);
+    });
+
+    it('should reject deleting a purchase a later sale depends on', async () => {
+      const purchase = await buy(10, '2024-01-10T10:00:00Z');
+      const spare = await buy(2, '2024-01-20T10:00:00Z');
+      const sale = await sell(8, '2024-02-01T10:00:00Z');
+
+      await expect(deleteTransaction(purchase.id, userId)).rejects.toThrow(/2024-02-01.*only 2 g/);
+
+      expect(await deleteTransaction(spare.id, userId)).toBe(true);
+      expect(await deleteTransaction(sale.id, userId)).toBe(true);
+      expect(await deleteTransaction(purchase.id, userId)).toBe(true);
+    });
+
+    it('should not let concurrent writes uncover a sale together', async () => {
+      const first = await buy(5, '2024-01-10T10:00:00Z');
+      const second = await buy(5, '2024-01-20T10:00:00Z');
+      await sell(5, '2024-02-01T10:00:00Z');
+
+      const results = await Promise.allSettled([deleteTransaction(first.id, userId), deleteTransaction(second.id, userId)]);
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+      await buy(5, '2024-02-20T10:00:00Z');
+      const sales = await Promise.allSettled([sell(5, '2024-03-01T10:00:00Z'), sell(5, '2024-03-01T10:00:00Z')]);
+      expect(sales.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    it('should replay each portfolio separately', async () => {
+      const household = await createHousehold({ name: 'Family' }, userId);
+      await buy(10, '2024-01-10T10:00:00Z');
+
+      await expect(createTransaction({
+        type: 'sell',
+        weight_grams: 5,
+        price_per_gram: 70,
+        transaction_date: new Date('2024-02-01T10:00:00Z'),
+        household_id: household.id
+      }, userId)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+
   describe('getUserTransactions', () => {
     it('should return empty array for user with no transactions', async () => {
       const result = await getUserTransactions(userId);
@@ -252,24 +505,21 @@ describe('Transaction Handlers', () => {
       // Create multiple transactions with different dates
       const transaction1 = await createTransaction({
         ...testTransactionInput,
-        user_id: userId,
         transaction_date: new Date('2024-01-10T10:00:00Z'),
         description: 'First transaction'
-      });
+      }, userId);
 
       const transaction2 = await createTransaction({
         ...testTransactionInput,
-        user_id: userId,
         transaction_date: new Date('2024-01-20T10:00:00Z'),
         description: 'Second transaction'
-      });
+      }, userId);
 
       const transaction3 = await createTransaction({
         ...testTransactionInput,
-        user_id: userId,
         transaction_date: new Date('2024-01-15T10:00:00Z'),
         description: 'Third transaction'
-      });
+      }, userId);
 
       const result = await getUserTransactions(userId);
 
@@ -281,7 +531,7 @@ describe('Transaction Handlers', () => {
     });
 
     it('should convert numeric fields to numbers', async () => {
-      await createTransaction({ ...testTransactionInput, user_id: userId });
+      await createTransaction(testTransactionInput, userId);
 
       const result = await getUserTransactions(userId);
 
@@ -298,8 +548,8 @@ describe('Transaction Handlers', () => {
         .returning()
         .execute();
 
-      await createTransaction({ ...testTransactionInput, user_id: userId });
-      await createTransaction({ ...testTransactionInput, user_id: anotherUser[0].id });
+      await createTransaction(testTransactionInput, userId);
+      await createTransaction(testTransactionInput, anotherUser[0].id);
 
       const result = await getUserTransactions(userId);
 
@@ -313,13 +563,143 @@ describe('Transaction Handlers', () => {
     });
   });
 
+  describe('listTransactions', () => {
+    // Parse through the route schema so defaults apply like they do over tRPC
+    const list = (input: Record<string, unknown> = {}) => listTransactions(userId, listTransactionsInputSchema.parse(input));
+
+    afterEach(() => {
+      setFxRateProvider(null);
+    });
+
+    beforeEach(async () => {
+      const entries: CreateTransactionInput[] = [
+        { type: 'buy', weight_grams: 10, price_per_gram: 60, transaction_date: new Date('2024-01-10T10:00:00Z'), description: 'Antam bar from Jakarta' },
+        { type: 'buy', weight_grams: 5, price_per_gram: 62, transaction_date: new Date('2024-02-10T10:00:00Z'), description: 'Wedding ring' },
+        { type: 'sell', weight_grams: 3, price_per_gram: 70, transaction_date: new Date('2024-03-10T10:00:00Z'), description: 'Sold part of the bar' },
+        { type: 'buy', weight_grams: 20, price_per_gram: 65, transaction_date: new Date('2024-04-10T10:00:00Z'), description: null },
+        { type: 'buy', weight_grams: 1, price_per_gram: 66, transaction_date: new Date('2024-05-10T10:00:00Z'), description: 'Small coin' }
+      ];
+      for (const entry of entries) {
+        await createTransaction(entry, userId);
+      }
+    });
+
+    it('should page through every row exactly once', async () => {
+      const first = await list({ limit: 2 });
+      const second = await list({ limit: 2, cursor: first.next_cursor });
+      const third = await list({ limit: 2, cursor: second.next_cursor });
+
+      const dates = [...first.items, ...second.items, ...third.items].map(t => t.transaction_date.toISOString().slice(0, 7));
+      expect(dates).toEqual(['2024-05', '2024-04', '2024-03', '2024-02', '2024-01']);
+      expect(third.next_cursor).toBeNull();
+    });
+
+    it('should return totals for the whole filtered set', async () => {
+      const result = await list({ limit: 1 });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.totals.count).toEqual(5);
+      expect(result.totals.total_weight_grams).toEqual(39);
+      expect(result.totals.net_weight_grams).toEqual(33);
+      expect(result.totals.bought_amount).toEqual(600 + 310 + 1300 + 66);
+      expect(result.totals.sold_amount).toEqual(210);
+    });
+
+    it('should convert the amounts into the reporting currency at each transaction\'s date', async () => {
+      setFxRateProvider(createStaticFxRateProvider({ '2024-01-01': { IDR: 15500 }, '2024-06-01': { IDR: 16000 } }));
+      await createTransaction({
+        type: 'buy',
+        weight_grams: 1,
+        price_per_gram: 1550000,
+        currency: 'IDR',
+        transaction_date: new Date('2024-01-20T10:00:00Z')
+      }, userId);
+
+      const result = await list();
+
+      expect(result.totals.currency).toEqual('USD');
+      expect(result.totals.bought_amount).toEqual(600 + 310 + 1300 + 66 + 100);
+    });
+
+    it('should look each day\'s rate up once for purchases and sales alike', async () => {
+      const provider = createStaticFxRateProvider({ '2024-01-01': { IDR: 15500 } });
+      let lookups = 0;
+      setFxRateProvider({ name: provider.name, getRates: (date) => { lookups++; return provider.getRates(date); } });
+      const idr = { price_per_gram: 1550000, currency: 'IDR', transaction_date: new Date('2024-01-20T10:00:00Z') };
+      await createTransaction({ ...idr, type: 'buy', weight_grams: 2 }, userId);
+      await createTransaction({ ...idr, type: 'sell', weight_grams: 1 }, userId);
+
+      lookups = 0;
+      const result = await list();
+
+      expect(lookups).toEqual(1);
+      expect(result.totals.bought_amount).toEqual(600 + 310 + 1300 + 66 + 200);
+      expect(result.totals.sold_amount).toEqual(210 + 100);
+    });
+
+    it('should filter by type, date, weight and price', async () => {
+      expect((await list({ type: 'sell' })).totals.count).toEqual(1);
+      expect((await list({ date_from: '2024-02-01', date_to: '2024-04-30' })).totals.count).toEqual(3);
+      expect((await list({ min_weight_grams: 5, max_weight_grams: 10 })).totals.count).toEqual(2);
+      expect((await list({ min_price_per_gram: 65 })).items.map(t => t.weight_grams)).toEqual([1, 20, 3]);
+    });
+
+    it('should filter by item form', async () => {
+      await createTransaction({ ...testTransactionInput, item_form: 'jewelry' }, userId);
+
+      const result = await list({ item_form: 'jewelry' });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].item_form).toBe('jewelry');
+    });
+
+    it('should search descriptions', async () => {
+      const result = await list({ search: 'bar' });
+
+      expect(result.items.map(t => t.description)).toEqual(['Sold part of the bar', 'Antam bar from Jakarta']);
+      expect((await list({ search: 'ring -wedding' })).totals.count).toEqual(0);
+    });
+
+    it('should sort by other fields with ties broken consistently', async () => {
+      const byWeight = await list({ sort_by: 'weight_grams', sort_direction: 'asc', limit: 3 });
+      const rest = await list({ sort_by: 'weight_grams', sort_direction: 'asc', limit: 3, cursor: byWeight.next_cursor });
+
+      expect([...byWeight.items, ...rest.items].map(t => t.weight_grams)).toEqual([1, 3, 5, 10, 20]);
+    });
+
+    it('should reject a cursor from a different sort', async () => {
+      const first = await list({ limit: 2 });
+
+      await expect(list({ limit: 2, sort_by: 'total_price', cursor: first.next_cursor })).rejects.toThrow(/invalid cursor/i);
+      await expect(list({ cursor: 'not-a-cursor' })).rejects.toThrow(/invalid cursor/i);
+    });
+
+    it('should reject a cursor whose position is not a value of the sort column', async () => {
+      const forged = (value: string, sortBy: string = 'transaction_date') =>
+        Buffer.from(JSON.stringify({ sort_by: sortBy, direction: 'desc', value, id: 1 })).toString('base64url');
+
+      await expect(list({ cursor: forged('yesterday') })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      await expect(list({ sort_by: 'weight_grams', cursor: forged('ten', 'weight_grams') })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      await expect(list({ cursor: Buffer.from('null').toString('base64url') })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('should only include the user\'s personal transactions', async () => {
+      const anotherUser = await db.insert(usersTable)
+        .values({ ...testUser, email: 'another@example.com' })
+        .returning()
+        .execute();
+      await createTransaction(testTransactionInput, anotherUser[0].id);
+
+      expect((await list()).totals.count).toEqual(5);
+    });
+  });
+
   describe('getTransactionById', () => {
     let transactionId: number;
 
     beforeEach(async () => {
       // Create a transaction to retrieve
-      const input = { ...testTransactionInput, user_id: userId };
-      const transaction = await createTransaction(input);
+      const transaction = await createTransaction(testTransactionInput, userId);
       transactionId = transaction.id;
     });
 
@@ -336,22 +716,18 @@ describe('Transaction Handlers', () => {
       expect(typeof result!.total_price).toBe('number');
     });
 
-    it('should return null for non-existent transaction', async () => {
-      const result = await getTransactionById(999, userId);
-
-      expect(result).toBe(null);
+    it('should throw NOT_FOUND for non-existent transaction', async () => {
+      await expect(getTransactionById(999, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
     });
 
-    it('should return null for transaction belonging to different user', async () => {
+    it('should throw FORBIDDEN for transaction belonging to different user', async () => {
       // Create another user
       const anotherUser = await db.insert(usersTable)
         .values({ ...testUser, email: 'another@example.com' })
         .returning()
         .execute();
 
-      const result = await getTransactionById(transactionId, anotherUser[0].id);
-
-      expect(result).toBe(null);
+      await expect(getTransactionById(transactionId, anotherUser[0].id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, householdMembersTable, goldTransactionsTable, goldGoalsTable, auditEventsTable } from '../db/schema';
+import { createTransaction, deleteTransaction, restoreTransaction, listTransactions } from '../handlers/transactions';
+import { createGoal, deleteGoal, restoreGoal, getUserGoals } from '../handlers/goals';
+import { listTrash, purgeExpiredTrash } from '../handlers/trash';
+import { createHousehold } from '../handlers/households';
+import { calculateTotalGoldHoldings, getDashboardData } from '../handlers/dashboard';
+import { updateZakatStatus } from '../handlers/zakat';
+import { listTransactionsInputSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const trade = (type: 'buy' | 'sell', weight: number, date: string, householdId?: number) => ({
+  type,
+  weight_grams: weight,
+  price_per_gram: 60,
+  transaction_date: new Date(date),
+  household_id: householdId
+});
+
+describe('Trash Handlers', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', name: 'Owner' },
+        { email: 'viewer@example.com', password_hash: 'hashed_password', name: 'Viewer' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    otherUserId = users[1].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('reads', () => {
+    it('should leave trashed transactions and goals out of holdings, lists, dashboard and zakat', async () => {
+      await createTransaction(trade('buy', 50, '2023-01-10'), userId);
+      const big = await createTransaction(trade('buy', 100, '2023-02-10'), userId);
+      const goal = await createGoal({ title: 'Hajj fund', target_weight_grams: 100, deadline: new Date('2026-06-01') }, userId);
+
+      await deleteTransaction(big.id, userId);
+      await deleteGoal(goal.id, userId);
+
+      expect(await calculateTotalGoldHoldings(userId)).toEqual(50);
+      expect((await listTransactions(userId, listTransactionsInputSchema.parse({}))).items).toHaveLength(1);
+      expect(await getUserGoals(userId)).toHaveLength(0);
+
+      const dashboard = await getDashboardData(userId);
+      expect(dashboard.total_gold_grams).toEqual(50);
+      expect(dashboard.goals_progress).toHaveLength(0);
+
+      // 50 g is under the nisab, so nothing is due
+      const zakat = await updateZakatStatus(userId);
+      expect(zakat === null || !zakat.is_eligible).toBe(true);
+    });
+  });
+
+  describe('listTrash', () => {
+    it('should list trashed rows of the portfolio, newest first', async () => {
+      const first = await createTransaction(trade('buy', 5, '2024-01-10'), userId);
+      const second = await createTransaction(trade('buy', 7, '2024-01-11'), userId);
+      const goal = await createGoal({ title: 'Coins', target_weight_grams: 10, deadline: new Date('2026-01-01') }, userId);
+      await createTransaction(trade('buy', 1, '2024-01-12'), userId);
+
+      await deleteTransaction(first.id, userId);
+      await deleteTransaction(second.id, userId);
+      await deleteGoal(goal.id, userId);
+
+      const trash = await listTrash(userId);
+
+      expect(trash.transactions.map(transaction => transaction.id)).toEqual([second.id, first.id]);
+      expect(trash.transactions[0].weight_grams).toEqual(7);
+      expect(trash.goals.map(item => item.id)).toEqual([goal.id]);
+      expect(trash.retention_days).toEqual(30);
+      expect((await listTrash(otherUserId)).transactions).toHaveLength(0);
+    });
+
+    it('should let household viewers see the trash but not restore from it', async () => {
+      const household = await createHousehold({ name: 'Family' }, userId);
+      await db.insert(householdMembersTable).values({ household_id: household.id, user_id: otherUserId, role: 'viewer' }).execute();
+      const shared = await createTransaction(trade('buy', 5, '2024-01-10', household.id), userId);
+      await deleteTransaction(shared.id, userId);
+
+      expect((await listTrash(otherUserId, household.id)).transactions).toHaveLength(1);
+      await expect(restoreTransaction(shared.id, otherUserId)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('restore', () => {
+    it('should bring a transaction and a goal back', async () => {
+      const transaction = await createTransaction(trade('buy', 5, '2024-01-10'), userId);
+      const goal = await createGoal({ title: 'Coins', target_weight_grams: 10, deadline: new Date('2026-01-01') }, userId);
+      await deleteTransaction(transaction.id, userId);
+      await deleteGoal(goal.id, userId);
+
+      const restored = await restoreTransaction(transaction.id, userId);
+      const restoredGoal = await restoreGoal(goal.id, userId);
+
+      expect(restored.deleted_at).toBeNull();
+      expect(restored.weight_grams).toEqual(5);
+      expect(restoredGoal.deleted_at).toBeNull();
+      expect(await calculateTotalGoldHoldings(userId)).toEqual(5);
+      expect((await listTrash(userId)).transactions).toHaveLength(0);
+
+      const events = await db.select().from(auditEventsTable).where(eq(auditEventsTable.reason, 'restored')).execute();
+      expect(events).toHaveLength(2);
+    });
+
+    it('should only restore rows that are in the trash', async () => {
+      const transaction = await createTransaction(trade('buy', 5, '2024-01-10'), userId);
+
+      await expect(restoreTransaction(transaction.id, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should restore a goal only once', async () => {
+      const goal = await createGoal({ title: 'Coins', target_weight_grams: 10, deadline: new Date('2026-01-01') }, userId);
+      await expect(restoreGoal(goal.id, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      await deleteGoal(goal.id, userId);
+
+      const results = await Promise.allSettled([restoreGoal(goal.id, userId), restoreGoal(goal.id, userId)]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const events = await db.select().from(auditEventsTable).where(eq(auditEventsTable.reason, 'restored')).execute();
+      expect(events).toHaveLength(1);
+    });
+
+    it('should refuse to restore a sale the holdings no longer cover', async () => {
+      const purchase = await createTransaction(trade('buy', 5, '2024-01-10'), userId);
+      const sale = await createTransaction(trade('sell', 5, '2024-02-10'), userId);
+      await deleteTransaction(sale.id, userId);
+      await deleteTransaction(purchase.id, userId);
+
+      await expect(restoreTransaction(sale.id, userId)).rejects.toThrow(/Not enough gold/);
+
+      await restoreTransaction(purchase.id, userId);
+      expect((await restoreTransaction(sale.id, userId)).deleted_at).toBeNull();
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('should purge rows trashed longer ago than the retention period', async () => {
+      const old = await createTransaction(trade('buy', 5, '2024-01-10'), userId);
+      const recent = await createTransaction(trade('buy', 7, '2024-01-11'), userId);
+      const goal = await createGoal({ title: 'Coins', target_weight_grams: 10, deadline: new Date('2026-01-01') }, userId);
+      await deleteTransaction(old.id, userId);
+      await deleteTransaction(recent.id, userId);
+      await deleteGoal(goal.id, userId);
+
+      const longAgo = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+      await db.update(goldTransactionsTable).set({ deleted_at: longAgo }).where(eq(goldTransactionsTable.id, old.id)).execute();
+      await db.update(goldGoalsTable).set({ deleted_at: longAgo }).where(eq(goldGoalsTable.id, goal.id)).execute();
+
+      expect(await purgeExpiredTrash()).toEqual(2);
+
+      const remaining = await db.select().from(goldTransactionsTable).execute();
+      expect(remaining.map(transaction => transaction.id)).toEqual([recent.id]);
+      expect(await db.select().from(goldGoalsTable).execute()).toHaveLength(0);
+
+      const events = await db.select().from(auditEventsTable).where(eq(auditEventsTable.reason, 'purged')).execute();
+      expect(events).toHaveLength(2);
+    });
+  });
+});
\ No newline at end of file
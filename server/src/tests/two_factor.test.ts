@@ -0,0 +1,325 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createTestContext } from '../helpers/context';
+import { db } from '../db';
+import { usersTable, recoveryCodesTable, twoFactorChallengesTable, loginThrottlesTable } from '../db/schema';
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTotp,
+  regenerateRecoveryCodes,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge
+} from '../handlers/two_factor';
+import { generateTotpCode, totpTimeStep } from '../services/totp';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+describe('Two-Factor Handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'twofactor@example.com',
+        password_hash: await Bun.password.hash('password123'),
+        name: 'Two Factor User'
+      })
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+
+  afterEach(resetDB);
+
+  // Enroll the test user and return the secret and recovery codes
+  const enroll = async () => {
+    const enrollment = await beginTotpEnrollment(userId);
+    const { recovery_codes } = await confirmTotpEnrollment(userId, {
+      code: generateTotpCode(enrollment.secret, totpTimeStep() - 1)
+    });
+    return { secret: enrollment.secret, recoveryCodes: recovery_codes };
+  };
+
+  describe('beginTotpEnrollment', () => {
+    it('should return a secret and provisioning URI without enabling 2FA yet', async () => {
+      const result = await beginTotpEnrollment(userId);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.provisioning_uri).toContain(`secret=${result.secret}`);
+      expect(result.provisioning_uri).toContain('twofactor%40example.com');
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].totp_secret).toEqual(result.secret);
+      expect(users[0].totp_enabled_at).toBeNull();
+    });
+
+    it('should refuse when 2FA is already enabled', async () => {
+      await enroll();
+
+      await expect(beginTotpEnrollment(userId)).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('confirmTotpEnrollment', () => {
+    it('should enable 2FA and issue ten recovery codes', async () => {
+      const { recoveryCodes } = await enroll();
+
+      expect(recoveryCodes).toHaveLength(10);
+      recoveryCodes.forEach(code => expect(code).toMatch(/^[A-Z2-7]{4}-[A-Z2-7]{4}$/));
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].totp_enabled_at).toBeInstanceOf(Date);
+
+      const stored = await db.select().from(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute();
+      expect(stored).toHaveLength(10);
+      expect(stored.map(row => row.code_hash)).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should reject a wrong code', async () => {
+      await beginTotpEnrollment(userId);
+
+      await expect(confirmTotpEnrollment(userId, { code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should require enrollment to be started first', async () => {
+      await expect(confirmTotpEnrollment(userId, { code: '123456' })).rejects.toThrow(/start two-factor enrollment/i);
+    });
+  });
+
+  describe('verifyTwoFactorChallenge', () => {
+    it('should accept a current TOTP code', async () => {
+      const { secret } = await enroll();
+      const challenge = await createTwoFactorChallenge(userId);
+
+      const result = await verifyTwoFactorChallenge({
+        challenge_token: challenge.challenge_token,
+        code: generateTotpCode(secret)
+      });
+
+      expect(result.id).toEqual(userId);
+      expect(result.two_factor_enabled).toBe(true);
+    });
+
+    it('should not accept the same TOTP code twice', async () => {
+      const { secret } = await enroll();
+      const code = generateTotpCode(secret);
+
+      const first = await createTwoFactorChallenge(userId);
+      await verifyTwoFactorChallenge({ challenge_token: first.challenge_token, code });
+
+      const second = await createTwoFactorChallenge(userId);
+      await expect(verifyTwoFactorChallenge({ challenge_token: second.challenge_token, code })).rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should accept a recovery code only once', async () => {
+      const { recoveryCodes } = await enroll();
+
+      const first = await createTwoFactorChallenge(userId);
+      const result = await verifyTwoFactorChallenge({
+        challenge_token: first.challenge_token,
+        code: recoveryCodes[0].toLowerCase()
+      });
+      expect(result.id).toEqual(userId);
+
+      const second = await createTwoFactorChallenge(userId);
+      await expect(verifyTwoFactorChallenge({
+        challenge_token: second.challenge_token,
+        code: recoveryCodes[0]
+      })).rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should consume the challenge on success', async () => {
+      const { secret } = await enroll();
+      const challenge = await createTwoFactorChallenge(userId);
+
+      await verifyTwoFactorChallenge({ challenge_token: challenge.challenge_token, code: generateTotpCode(secret) });
+
+      await expect(verifyTwoFactorChallenge({
+        challenge_token: challenge.challenge_token,
+        code: generateTotpCode(secret, totpTimeStep() + 1)
+      })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should drop the challenge after too many wrong codes', async () => {
+      await enroll();
+      const challenge = await createTwoFactorChallenge(userId);
+
+      for (let i = 0; i < 4; i++) {
+        await expect(verifyTwoFactorChallenge({ challenge_token: challenge.challenge_token, code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+      }
+      await expect(verifyTwoFactorChallenge({ challenge_token: challenge.challenge_token, code: '000000' })).rejects.toThrow(/too many/i);
+
+      const challenges = await db.select().from(twoFactorChallengesTable).execute();
+      expect(challenges).toHaveLength(0);
+    });
+
+    it('should lock the account after wrong codes across fresh challenges', async () => {
+      const { secret } = await enroll();
+
+      for (let i = 0; i < 5; i++) {
+        const challenge = await createTwoFactorChallenge(userId);
+        await expect(verifyTwoFactorChallenge({ challenge_token: challenge.challenge_token, code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+      }
+
+      const challenge = await createTwoFactorChallenge(userId);
+      await expect(verifyTwoFactorChallenge({
+        challenge_token: challenge.challenge_token,
+        code: generateTotpCode(secret)
+      })).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+
+      // The right password does not wipe the count, so the password cannot be used to reopen the guessing
+      const caller = appRouter.createCaller(createTestContext());
+      await expect(caller.auth.signIn({ email: 'twofactor@example.com', password: 'password123' })).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should clear earlier failures once a code is accepted', async () => {
+      const { secret } = await enroll();
+      const failed = await createTwoFactorChallenge(userId);
+      await expect(verifyTwoFactorChallenge({ challenge_token: failed.challenge_token, code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+
+      const challenge = await createTwoFactorChallenge(userId);
+      await verifyTwoFactorChallenge({ challenge_token: challenge.challenge_token, code: generateTotpCode(secret) });
+
+      expect(await db.select().from(loginThrottlesTable).where(eq(loginThrottlesTable.key, 'email:twofactor@example.com')).execute()).toHaveLength(0);
+    });
+
+    it('should reject an expired challenge', async () => {
+      const { secret } = await enroll();
+      const challenge = await createTwoFactorChallenge(userId);
+
+      await db.update(twoFactorChallengesTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(verifyTwoFactorChallenge({
+        challenge_token: challenge.challenge_token,
+        code: generateTotpCode(secret)
+      })).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace the old recovery codes', async () => {
+      const { secret, recoveryCodes } = await enroll();
+
+      const result = await regenerateRecoveryCodes(userId, { password: 'password123', code: generateTotpCode(secret) });
+
+      expect(result.recovery_codes).toHaveLength(10);
+      expect(result.recovery_codes).not.toContain(recoveryCodes[0]);
+
+      const challenge = await createTwoFactorChallenge(userId);
+      await expect(verifyTwoFactorChallenge({
+        challenge_token: challenge.challenge_token,
+        code: recoveryCodes[0]
+      })).rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should require the password as well as a code', async () => {
+      const { secret } = await enroll();
+
+      await expect(regenerateRecoveryCodes(userId, { code: generateTotpCode(secret) })).rejects.toThrow(/confirm your password/i);
+      await expect(regenerateRecoveryCodes(userId, { password: 'wrong-password', code: generateTotpCode(secret) }))
+        .rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should lock the account after repeated wrong codes', async () => {
+      const { secret } = await enroll();
+
+      for (let i = 0; i < 5; i++) {
+        await expect(regenerateRecoveryCodes(userId, { password: 'password123', code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+      }
+
+      await expect(regenerateRecoveryCodes(userId, { password: 'password123', code: generateTotpCode(secret) }))
+        .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+  });
+
+  describe('disableTotp', () => {
+    it('should turn 2FA off and remove recovery codes', async () => {
+      const { secret } = await enroll();
+
+      const result = await disableTotp(userId, { password: 'password123', code: generateTotpCode(secret) });
+
+      expect(result).toBe(true);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].totp_secret).toBeNull();
+      expect(users[0].totp_enabled_at).toBeNull();
+
+      const stored = await db.select().from(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute();
+      expect(stored).toHaveLength(0);
+    });
+
+    it('should reject a wrong code', async () => {
+      await enroll();
+
+      await expect(disableTotp(userId, { password: 'password123', code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should require the password as well as a code', async () => {
+      const { secret } = await enroll();
+
+      await expect(disableTotp(userId, { code: generateTotpCode(secret) })).rejects.toThrow(/confirm your password/i);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].totp_enabled_at).not.toBeNull();
+    });
+
+    it('should lock the account after repeated wrong codes', async () => {
+      const { secret } = await enroll();
+
+      for (let i = 0; i < 5; i++) {
+        await expect(disableTotp(userId, { password: 'password123', code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+      }
+
+      await expect(disableTotp(userId, { password: 'password123', code: generateTotpCode(secret) }))
+        .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].totp_enabled_at).not.toBeNull();
+    });
+  });
+
+  describe('auth.signIn with 2FA', () => {
+    it('should return a pending challenge instead of a session', async () => {
+      await enroll();
+      const caller = appRouter.createCaller(createTestContext());
+
+      const result = await caller.auth.signIn({ email: 'twofactor@example.com', password: 'password123' });
+
+      expect(result).not.toBeNull();
+      expect(result!.status).toEqual('two_factor_required');
+      expect(result).not.toHaveProperty('token');
+    });
+
+    it('should issue a session once the code is verified', async () => {
+      const { secret } = await enroll();
+      const caller = appRouter.createCaller(createTestContext());
+
+      const pending = await caller.auth.signIn({ email: 'twofactor@example.com', password: 'password123' });
+      if (!pending || pending.status !== 'two_factor_required') {
+        throw new Error('Expected a two-factor challenge');
+      }
+
+      const result = await caller.auth.verifyTwoFactor({
+        challenge_token: pending.challenge_token,
+        code: generateTotpCode(secret)
+      });
+
+      expect(result.user.id).toEqual(userId);
+      expect(typeof result.token).toBe('string');
+    });
+
+    it('should sign in directly when 2FA is not enabled', async () => {
+      const caller = appRouter.createCaller(createTestContext());
+
+      const result = await caller.auth.signIn({ email: 'twofactor@example.com', password: 'password123' });
+
+      expect(result!.status).toEqual('authenticated');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import { inflateRawSync } from 'node:zlib';
+import { crc32, createZip } from '../services/zip';
+import { buildXlsx } from '../services/xlsx';
+
+// Read the files back out of an archive by walking its local headers
+const unzip = (archive: Buffer): Record<string, string> => {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const extraLength = archive.readUInt16LE(offset + 28);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const start = offset + 30 + nameLength + extraLength;
+    files[name] = inflateRawSync(archive.subarray(start, start + size)).toString('utf8');
+    offset = start + size;
+  }
+  return files;
+};
+
+describe('createZip', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toEqual(0xcbf43926);
+  });
+
+  it('should store files that read back unchanged', () => {
+    const archive = createZip([{ name: 'a.txt', data: 'hello' }, { name: 'dir/b.txt', data: Buffer.from('émas') }]);
+
+    expect(unzip(archive)).toEqual({ 'a.txt': 'hello', 'dir/b.txt': 'émas' });
+    expect(archive.readUInt32LE(archive.length - 22)).toEqual(0x06054b50);
+    expect(archive.readUInt16LE(archive.length - 12)).toEqual(2);
+  });
+});
+
+describe('buildXlsx', () => {
+  it('should write one worksheet per sheet with a bold header', () => {
+    const files = unzip(buildXlsx([
+      { name: 'Transactions', header: ['Date', 'Note'], rows: [[{ value: new Date('2024-01-15T00:00:00Z'), format: 'dd/mm/yyyy' }, 'A & B']] },
+      { name: 'Goals', header: ['Title'], rows: [] }
+    ]));
+
+    expect(Object.keys(files)).toContain('xl/worksheets/sheet2.xml');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Transactions" sheetId="1" r:id="rId1"/>');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Goals" sheetId="2" r:id="rId2"/>');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<c r="A1" t="inlineStr" s="1"><is><t>Date</t></is></c>');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<t xml:space="preserve">A &amp; B</t>');
+  });
+
+  it('should store dates as serial days with a style for their format', () => {
+    const files = unzip(buildXlsx([{
+      name: 'Sheet',
+      header: ['Date', 'Weight', 'Again'],
+      rows: [[
+        { value: new Date('2024-01-15T00:00:00Z'), format: 'dd/mm/yyyy' },
+        { value: 10.5, format: '0.000' },
+        { value: new Date('2024-01-16T00:00:00Z'), format: 'dd/mm/yyyy' }
+      ]]
+    }]));
+
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<c r="A2" s="2"><v>45306</v></c>');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<c r="B2" s="3"><v>10.5</v></c>');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<c r="C2" s="2"><v>45307</v></c>');
+    expect(files['xl/styles.xml']).toContain('<numFmt numFmtId="164" formatCode="dd/mm/yyyy"/>');
+    expect(files['xl/styles.xml']).toContain('<cellXfs count="4">');
+  });
+});
\ No newline at end of file
@@ -9,6 +9,7 @@ import {
   getUsersForZakatReminder, 
   updateNextReminderDate 
 } from '../handlers/zakat';
+import { createStaticFxRateProvider, setFxRateProvider } from '../services/fx_rates';
 import { eq } from 'drizzle-orm';
 
 // Test constants
@@ -123,6 +124,28 @@ describe('zakat handlers', () => {
       expect(result!.is_eligible).toBe(false);
     });
 
+    it('should compare pure gold content against nisab', async () => {
+      const user = await createTestUser();
+
+      // 100 g of 18K jewelry holds 75 g of pure gold, below nisab
+      await db.insert(goldTransactionsTable)
+        .values({
+          user_id: user.id,
+          type: 'buy',
+          weight_grams: '100.000',
+          fineness: '750',
+          price_per_gram: '50.00',
+          total_price: '5000.00',
+          transaction_date: new Date()
+        })
+        .execute();
+
+      const result = await updateZakatStatus(user.id);
+
+      expect(result!.gold_weight_grams).toEqual(75);
+      expect(result!.is_eligible).toBe(false);
+    });
+
     it('should ensure holdings never go negative', async () => {
       const user = await createTestUser();
       
@@ -178,6 +201,10 @@ describe('zakat handlers', () => {
   });
 
   describe('calculateZakatAmount', () => {
+    afterEach(() => {
+      setFxRateProvider(null);
+    });
+
     it('should return 0 when user is not eligible', async () => {
       const user = await createTestUser();
       
@@ -204,6 +231,20 @@ describe('zakat handlers', () => {
       expect(result).toEqual(150);
     });
 
+    it('should convert a price quoted in another currency into the reporting currency', async () => {
+      setFxRateProvider(createStaticFxRateProvider({ '2024-01-01': { IDR: 16000 } }));
+      const user = await createTestUser();
+      await db.update(usersTable).set({ reporting_currency: 'IDR' }).where(eq(usersTable.id, user.id)).execute();
+
+      await createTestTransaction(user.id, 'buy', 100, LUNAR_YEAR_DAYS + 1);
+      await updateZakatStatus(user.id);
+
+      // 100g * $60/g * 16000 IDR/USD * 2.5%
+      expect(await calculateZakatAmount(user.id, 60, 'USD')).toEqual(2400000);
+      // A price already in IDR is used as is
+      expect(await calculateZakatAmount(user.id, 960000)).toEqual(2400000);
+    });
+
     it('should return 0 when no zakat reminder exists', async () => {
       const user = await createTestUser();
       
@@ -293,7 +334,7 @@ describe('zakat handlers', () => {
       const newDate = new Date();
       newDate.setDate(newDate.getDate() + 30);
       
-      const result = await updateNextReminderDate(zakatStatus!.id, newDate);
+      const result = await updateNextReminderDate(zakatStatus!.id, user.id, newDate);
       
       expect(result).toBe(true);
       
@@ -302,13 +343,35 @@ describe('zakat handlers', () => {
       expect(updated!.next_reminder_date).toEqual(newDate);
     });
 
-    it('should return false for non-existent reminder', async () => {
+    it('should throw NOT_FOUND for non-existent reminder', async () => {
+      const user = await createTestUser();
       const futureDate = new Date();
       futureDate.setDate(futureDate.getDate() + 30);
       
-      const result = await updateNextReminderDate(99999, futureDate);
-      
-      expect(result).toBe(false);
+      await expect(updateNextReminderDate(99999, user.id, futureDate)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should not update a reminder belonging to another user', async () => {
+      const user = await createTestUser();
+      const otherUser = await db.insert(usersTable)
+        .values({
+          email: 'other@example.com',
+          password_hash: 'hashed_password',
+          name: 'Other User'
+        })
+        .returning()
+        .execute();
+
+      await createTestTransaction(user.id, 'buy', 100);
+      const zakatStatus = await updateZakatStatus(user.id);
+
+      const futureDate = new Date();
+      futureDate.setDate(futureDate.getDate() + 30);
+
+      await expect(updateNextReminderDate(zakatStatus!.id, otherUser[0].id, futureDate)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      const unchanged = await getZakatStatus(user.id);
+      expect(unchanged!.next_reminder_date).toEqual(zakatStatus!.next_reminder_date);
     });
 
     it('should update updated_at timestamp', async () => {
@@ -324,7 +387,7 @@ describe('zakat handlers', () => {
       const newDate = new Date();
       newDate.setDate(newDate.getDate() + 30);
       
-      await updateNextReminderDate(originalStatus!.id, newDate);
+      await updateNextReminderDate(originalStatus!.id, user.id, newDate);
       
       // Verify updated_at changed
       const updated = await getZakatStatus(user.id);